@@ -25,7 +25,7 @@ library NostrSignatures {
     /// @notice Nostr event created_at timestamp (0 for immediate verification)
     uint256 private constant NOSTR_CREATED_AT = 0;
 
-    /// @notice Nostr event tags array (empty for auth events)
+    /// @notice Nostr event tags array of untagged events
     string private constant NOSTR_TAGS = "[]";
 
     // ============ Errors ============
@@ -72,40 +72,8 @@ library NostrSignatures {
             revert InvalidOwnerAddress();
         }
 
-        // Construct the Nostr event message in the required JSON-like format
-        // Format: [0, "<pubkey>", 0, 96024, [], "<userOpHash>"]
-        bytes memory nostrEventMessage = abi.encodePacked(
-            "[",
-            _uintToString(NOSTR_CREATED_AT),
-            ',"',
-            HexStrings.toHexString(owner),
-            '",',
-            _uintToString(NOSTR_CREATED_AT),
-            ",",
-            _uintToString(NOSTR_AUTH_KIND),
-            ",",
-            NOSTR_TAGS,
-            ',"',
-            HexStrings.toHexString(uint256(userOpHash)),
-            '"]'
-        );
-
-        // Hash the constructed message using SHA256
-        bytes32 messageHash = sha256(nostrEventMessage);
-
-        // Extract signature components using assembly for gas efficiency
-        uint256 signatureR;
-        uint256 signatureS;
-        assembly ("memory-safe") {
-            // Load R (first 32 bytes of signature)
-            // signature.length is already validated to be 64 bytes
-            signatureR := mload(add(signature, 0x20))
-            // Load s (second 32 bytes of signature)
-            signatureS := mload(add(signature, 0x40))
-        }
-
-        // Verify the BIP340 signature
-        success = BIP340Ecrec.verify(owner, signatureR, signatureS, messageHash);
+        // Verify the BIP340 signature over the Nostr event id
+        success = _verifyEventSignature(owner, signature, bytes(NOSTR_TAGS), userOpHash);
 
         // Revert with custom error if verification fails
         if (!success) {
@@ -169,6 +137,118 @@ library NostrSignatures {
             return false;
         }
 
+        // Verify the BIP340 signature over the Nostr event id
+        success = _verifyEventSignature(owner, signature, bytes(NOSTR_TAGS), userOpHash);
+
+        // Emit event for successful verification
+        if (success) {
+            emit NostrSignatureVerified(owner, userOpHash);
+        }
+    }
+
+    /**
+     * @notice Checks a signature over a Nostr event that carries `tags` next to `hash`
+     * @dev Like `isValidNostrSignature`, but the signed event lists the context of the hash in its tags
+     *      so that the signer's extension can show it. Build the tags with `nostrTag`.
+     * @param owner The Nostr public key (x-coordinate) that should have signed the message
+     * @param signature The 64-byte BIP340 signature (32 bytes R + 32 bytes s)
+     * @param tags The serialized JSON tags array of the event, e.g. `[["v","1"]]`
+     * @param hash The 32-byte hash carried as the content of the signed Nostr event
+     * @return True if the signature is valid, false otherwise
+     */
+    function isValidNostrSignature(
+        uint256 owner,
+        bytes memory signature,
+        bytes memory tags,
+        bytes32 hash
+    ) internal pure returns (bool) {
+        if (signature.length != SIGNATURE_LENGTH || owner == 0) {
+            return false;
+        }
+        return _verifyEventSignature(owner, signature, tags, hash);
+    }
+
+    /**
+     * @notice Checks a raw BIP340 signature over `hash`, without a Nostr event around it
+     * @dev Matches what NIP-07 `signSchnorr` produces and skips building and hashing the event JSON
+     * @param owner The Nostr public key (x-coordinate) that should have signed the hash
+     * @param signature The 64-byte BIP340 signature (32 bytes R + 32 bytes s)
+     * @param hash The signed 32-byte message
+     * @return True if the signature is valid, false otherwise
+     */
+    function isValidSchnorrSignature(uint256 owner, bytes memory signature, bytes32 hash) internal pure returns (bool) {
+        if (signature.length != SIGNATURE_LENGTH || owner == 0) {
+            return false;
+        }
+        return _verifySchnorr(owner, signature, hash);
+    }
+
+    /**
+     * @notice Serializes a Nostr tag with a string value
+     * @dev Values are not JSON-escaped, callers only pass hex and decimal strings
+     * @param name The tag name
+     * @param value The tag value
+     * @return The tag as a JSON array, e.g. `["chain","1"]`
+     */
+    function nostrTag(string memory name, string memory value) internal pure returns (bytes memory) {
+        return abi.encodePacked('["', name, '","', value, '"]');
+    }
+
+    /**
+     * @notice Serializes a Nostr tag with a decimal number value
+     * @param name The tag name
+     * @param value The number, written in decimal
+     * @return The tag as a JSON array
+     */
+    function nostrTag(string memory name, uint256 value) internal pure returns (bytes memory) {
+        return nostrTag(name, _uintToString(value));
+    }
+
+    /**
+     * @notice Serializes a Nostr tag with an address value
+     * @param name The tag name
+     * @param value The address, written as lowercase hex with "0x" prefix
+     * @return The tag as a JSON array
+     */
+    function nostrTag(string memory name, address value) internal pure returns (bytes memory) {
+        return nostrTag(name, HexStrings.toHexString(value));
+    }
+
+    /**
+     * @notice Checks a Nostr signature against a hash without reverting or emitting events
+     * @dev View-safe variant used by ERC-1271 `isValidSignature`, which must not modify state
+     * @param owner The Nostr public key (x-coordinate) that should have signed the message
+     * @param signature The 64-byte BIP340 signature (32 bytes R + 32 bytes s)
+     * @param hash The 32-byte hash carried as the content of the signed Nostr event
+     * @return True if the signature is valid, false otherwise
+     */
+    function isValidNostrSignature(uint256 owner, bytes memory signature, bytes32 hash) internal pure returns (bool) {
+        if (signature.length != SIGNATURE_LENGTH || owner == 0) {
+            return false;
+        }
+        return _verifyEventSignature(owner, signature, bytes(NOSTR_TAGS), hash);
+    }
+
+    /**
+     * @notice Computes the id of the kind-96024 Nostr event that carries `hash` as its content
+     * @dev The Nostr event format is: [0, "<pubkey>", 0, 96024, [], "<hash>"]
+     * @param owner The Nostr public key (x-coordinate) of the event author
+     * @param hash The 32-byte hash carried as the event content
+     * @return The SHA256 event id that the author signs with BIP340
+     */
+    function nostrEventId(uint256 owner, bytes32 hash) internal pure returns (bytes32) {
+        return nostrEventId(owner, bytes(NOSTR_TAGS), hash);
+    }
+
+    /**
+     * @notice Computes the id of the kind-96024 Nostr event that carries `hash` as its content and `tags`
+     * @dev The Nostr event format is: [0, "<pubkey>", 0, 96024, <tags>, "<hash>"]
+     * @param owner The Nostr public key (x-coordinate) of the event author
+     * @param tags The serialized JSON tags array of the event
+     * @param hash The 32-byte hash carried as the event content
+     * @return The SHA256 event id that the author signs with BIP340
+     */
+    function nostrEventId(uint256 owner, bytes memory tags, bytes32 hash) internal pure returns (bytes32) {
         // Construct the Nostr event message in the required JSON-like format
         bytes memory nostrEventMessage = abi.encodePacked(
             "[",
@@ -180,29 +260,52 @@ library NostrSignatures {
             ",",
             _uintToString(NOSTR_AUTH_KIND),
             ",",
-            NOSTR_TAGS,
+            tags,
             ',"',
-            HexStrings.toHexString(uint256(userOpHash)),
+            HexStrings.toHexString(uint256(hash)),
             '"]'
         );
 
         // Hash the constructed message using SHA256
-        bytes32 messageHash = sha256(nostrEventMessage);
+        return sha256(nostrEventMessage);
+    }
 
+    /**
+     * @notice Verifies a 64-byte BIP340 signature over the Nostr event carrying `hash`
+     * @dev Callers are responsible for validating the signature length and owner beforehand
+     * @param owner The Nostr public key (x-coordinate) that should have signed the message
+     * @param signature The 64-byte BIP340 signature (32 bytes R + 32 bytes s)
+     * @param tags The serialized JSON tags array of the event
+     * @param hash The 32-byte hash carried as the event content
+     * @return True if the signature is valid, false otherwise
+     */
+    function _verifyEventSignature(
+        uint256 owner,
+        bytes memory signature,
+        bytes memory tags,
+        bytes32 hash
+    ) private pure returns (bool) {
+        return _verifySchnorr(owner, signature, nostrEventId(owner, tags, hash));
+    }
+
+    /**
+     * @notice Verifies a 64-byte BIP340 signature over a 32-byte message
+     * @param owner The Nostr public key (x-coordinate) that should have signed the message
+     * @param signature The 64-byte BIP340 signature (32 bytes R + 32 bytes s)
+     * @param message The signed message
+     * @return True if the signature is valid, false otherwise
+     */
+    function _verifySchnorr(uint256 owner, bytes memory signature, bytes32 message) private pure returns (bool) {
         // Extract signature components using assembly for gas efficiency
         uint256 signatureR;
         uint256 signatureS;
         assembly ("memory-safe") {
+            // Load R (first 32 bytes of signature)
             signatureR := mload(add(signature, 0x20))
+            // Load s (second 32 bytes of signature)
             signatureS := mload(add(signature, 0x40))
         }
 
-        // Verify the BIP340 signature
-        success = BIP340Ecrec.verify(owner, signatureR, signatureS, messageHash);
-
-        // Emit event for successful verification
-        if (success) {
-            emit NostrSignatureVerified(owner, userOpHash);
-        }
+        return BIP340Ecrec.verify(owner, signatureR, signatureS, message);
     }
 }
@@ -4,6 +4,10 @@ pragma solidity ^0.8.28;
 import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/interfaces/IERC5267.sol";
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@account-abstraction/contracts/core/BaseAccount.sol";
 import "@account-abstraction/contracts/core/Helpers.sol";
 import "@account-abstraction/contracts/accounts/callback/TokenCallbackHandler.sol";
@@ -16,9 +20,141 @@ import "./NostrSignatures.sol";
  * @dev This contract implements ERC-4337 account abstraction with Nostr protocol integration.
  *      It allows users to control their account using Nostr private keys instead of Ethereum private keys.
  *      The account supports execution of arbitrary transactions, ETH handling, and deposit management.
+ *      Off-chain messages are verified through ERC-1271 using the same Nostr event format as UserOperations.
+ *      Guardians (npubs or EVM addresses) can rotate the owner after a threshold of approvals and a timelock,
+ *      which the current owner can cancel while it runs.
+ *      The owner can delegate signing to session keys, NIP-26 style: an owner-signed delegation restricts the
+ *      session key to given targets and selectors, a total value cap and a validity window.
+ *      Per-token daily and weekly spending limits are enforced in `execute` / `executeBatch`; larger
+ *      transfers and upgrades have to be scheduled and wait for the spending timelock. While any limit is
+ *      set, ERC-1271 signatures have to reveal the signed message, and token permits are refused.
  * @author Senior Smart Contract Engineer
  */
-contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Initializable, ReentrancyGuard {
+contract NpubAccount is
+    BaseAccount,
+    TokenCallbackHandler,
+    UUPSUpgradeable,
+    Initializable,
+    ReentrancyGuard,
+    IERC1271,
+    IERC5267
+{
+    // ============ Constants ============
+
+    /// @notice EIP-712 domain typehash
+    /// @dev The domain is built from constants instead of inheriting OpenZeppelin's EIP712, whose fallback
+    ///      strings take two storage slots and would move `owner` in accounts deployed before
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @notice Hash of the EIP-712 domain name, "NpubAccount"
+    bytes32 private constant EIP712_NAME_HASH = keccak256("NpubAccount");
+
+    /// @notice Hash of the EIP-712 domain version, "1"
+    bytes32 private constant EIP712_VERSION_HASH = keccak256("1");
+
+    /// @notice EIP-712 typehash used to bind ERC-1271 message hashes to this account and chain
+    bytes32 private constant NPUB_MESSAGE_TYPEHASH = keccak256("NpubMessage(bytes32 hash)");
+
+    /// @notice Value returned by `isValidSignature` for a valid signature (ERC-1271 magic value)
+    bytes4 internal constant ERC1271_MAGIC_VALUE = 0x1626ba7e;
+
+    /// @notice Value returned by `isValidSignature` for an invalid signature
+    bytes4 internal constant ERC1271_INVALID_VALUE = 0xffffffff;
+
+    /// @notice EIP-712 typehash of the recovery approval signed by npub guardians
+    bytes32 private constant RECOVERY_TYPEHASH = keccak256("Recovery(uint256 newOwner,uint256 nonce)");
+
+    /// @notice EIP-712 typehash of the session key delegation signed by the owner
+    bytes32 private constant SESSION_DELEGATION_TYPEHASH =
+        keccak256(
+            "SessionDelegation(uint256 sessionKey,address[] targets,bytes4[] selectors,uint256 valueLimit,uint48 validAfter,uint48 validUntil)"
+        );
+
+    /// @notice Token key used for native ETH in the spending limit mappings
+    address public constant NATIVE_TOKEN = address(0);
+
+    /// @notice Length of a plain owner signature, anything else is a session key signature
+    uint256 private constant OWNER_SIGNATURE_LENGTH = 64;
+
+    /// @notice Length of a typed owner signature: a signature type byte followed by the BIP340 signature
+    uint256 private constant TYPED_SIGNATURE_LENGTH = 65;
+
+    /// @notice Signature type of a BIP340 signature over the untagged kind-96024 event of `userOpHash`
+    bytes1 private constant SIGNATURE_TYPE_EVENT = 0x00;
+
+    /// @notice Signature type of a BIP340 signature over the event tagged with `userOperationTags`
+    bytes1 private constant SIGNATURE_TYPE_TAGGED_EVENT = 0x01;
+
+    /// @notice Signature type of a raw BIP340 signature over `userOpHash` (NIP-07 `signSchnorr`)
+    bytes1 private constant SIGNATURE_TYPE_RAW = 0x02;
+
+    /// @notice EIP-2612 permit typehash, refused by `isValidSignature` while spending limits are set
+    bytes32 private constant EIP2612_PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    /// @notice DAI-style permit typehash, refused like EIP-2612 permits
+    bytes32 private constant DAI_PERMIT_TYPEHASH =
+        keccak256("Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)");
+
+    /// @notice Uniswap's Permit2, whose messages all move tokens and are refused while spending limits are set
+    address private constant PERMIT2 = 0x000000000022D473030F116dDEE9F6B43aC78BA3;
+
+    /// @notice EIP-712 domain typehash of Permit2, which has no version
+    bytes32 private constant PERMIT2_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)");
+
+    // ============ Structs ============
+
+    /// @notice The owner rotation guardians approved last, or the one scheduled once it reached the threshold
+    /// @param newOwner The Nostr public key that will own the account
+    /// @param approvals Number of distinct guardians currently approving it
+    /// @param executableAt Timestamp from which it can be executed, 0 until the threshold is reached
+    struct RecoveryRequest {
+        uint256 newOwner;
+        uint256 approvals;
+        uint256 executableAt;
+    }
+
+    /// @notice Spending caps of a token, 0 leaves the period uncapped
+    /// @param daily Maximum amount per UTC day
+    /// @param weekly Maximum amount per week (weeks start on Thursday, the epoch weekday)
+    struct SpendingLimit {
+        uint128 daily;
+        uint128 weekly;
+    }
+
+    /// @notice Amounts spent in the current periods of a token
+    /// @param day Index of the day `spentToday` refers to
+    /// @param week Index of the week `spentThisWeek` refers to
+    /// @param spentToday Amount spent during `day`
+    /// @param spentThisWeek Amount spent during `week`
+    struct SpendingUsage {
+        uint32 day;
+        uint32 week;
+        uint128 spentToday;
+        uint128 spentThisWeek;
+    }
+
+    /// @notice Owner-signed conditions under which a session key may sign UserOperations
+    /// @dev Modelled on NIP-26 delegation tokens, with `validAfter` / `validUntil` standing in for the
+    ///      `created_at>` / `created_at<` conditions. An empty `targets` or `selectors` list means unrestricted.
+    ///      Plain transfers have selector 0x00000000. Calls to the account itself are never allowed.
+    /// @param sessionKey The delegated Nostr public key (x-coordinate)
+    /// @param targets Contracts the session key may call
+    /// @param selectors Functions the session key may call on those targets
+    /// @param valueLimit Total wei the session key may send over the lifetime of the delegation
+    /// @param validAfter Timestamp from which the delegation is valid
+    /// @param validUntil Timestamp until which the delegation is valid, 0 for no expiry
+    struct SessionDelegation {
+        uint256 sessionKey;
+        address[] targets;
+        bytes4[] selectors;
+        uint256 valueLimit;
+        uint48 validAfter;
+        uint48 validUntil;
+    }
+
     // ============ State Variables ============
 
     /// @notice The Nostr public key (x-coordinate) that owns this account
@@ -27,6 +163,63 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
     /// @notice The EntryPoint contract for account abstraction operations
     IEntryPoint private immutable _entryPoint;
 
+    /// @notice Whether an EVM address is a recovery guardian
+    mapping(address => bool) public isAddressGuardian;
+
+    /// @notice Whether a Nostr public key (x-coordinate) is a recovery guardian
+    mapping(uint256 => bool) public isNpubGuardian;
+
+    /// @notice Number of guardian approvals required to recover the account (0 = recovery disabled)
+    uint256 public recoveryThreshold;
+
+    /// @notice Seconds between reaching the threshold and the recovery becoming executable
+    uint256 public recoveryDelay;
+
+    /// @notice Incremented whenever a recovery is executed or cancelled, invalidating its approvals
+    uint256 public recoveryNonce;
+
+    /// @notice The recovery currently being approved or waiting for its timelock
+    RecoveryRequest public pendingRecovery;
+
+    /// @notice EVM address guardians, kept to clear the lookup mapping when the set is replaced
+    address[] private _addressGuardians;
+
+    /// @notice Nostr public key guardians, kept to clear the lookup mapping when the set is replaced
+    uint256[] private _npubGuardians;
+
+    /// @notice Owner each guardian approved for a given recovery nonce, 0 if none
+    mapping(uint256 => mapping(bytes32 => uint256)) private _recoveryApprovals;
+
+    /// @notice Approvals of each proposed owner for a given recovery nonce
+    mapping(uint256 => mapping(uint256 => uint256)) private _recoveryApprovalCounts;
+
+    /// @notice Session delegations revoked by the owner, by delegation hash
+    mapping(bytes32 => bool) public revokedSessions;
+
+    /// @notice Wei already sent under a session delegation, by delegation hash
+    mapping(bytes32 => uint256) public sessionValueSpent;
+
+    /// @notice Spending caps by token, NATIVE_TOKEN for ETH
+    mapping(address => SpendingLimit) public spendingLimits;
+
+    /// @notice Spending in the current day and week by token
+    mapping(address => SpendingUsage) public spendingUsage;
+
+    /// @notice Seconds a scheduled call waits before it can be executed
+    uint256 public spendingDelay;
+
+    /// @notice Timestamp from which a scheduled call can be executed, by call id
+    mapping(bytes32 => uint256) public scheduledCalls;
+
+    /// @notice Incremented for every scheduled call so identical calls get distinct ids
+    uint256 public scheduledCallNonce;
+
+    /// @notice Set while a scheduled call runs, allowing it to loosen the spending policy
+    bool private _executingScheduledCall;
+
+    /// @notice Number of tokens with a daily or weekly cap
+    uint256 public limitedTokenCount;
+
     // ============ Events ============
 
     /// @notice Emitted when the account is initialized with a new owner
@@ -34,6 +227,11 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
     /// @param owner The Nostr public key that owns this account
     event AccountInitialized(IEntryPoint indexed entryPoint, uint256 indexed owner);
 
+    /// @notice Emitted whenever the owner changes, by rotation or recovery
+    /// @param previousOwner The Nostr public key that owned the account
+    /// @param newOwner The Nostr public key that owns the account now
+    event OwnerChanged(uint256 indexed previousOwner, uint256 indexed newOwner);
+
     /// @notice Emitted when ETH is deposited to the EntryPoint
     /// @param amount The amount of ETH deposited
     /// @param newBalance The new deposit balance in EntryPoint
@@ -45,6 +243,71 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
     /// @param newBalance The new deposit balance in EntryPoint
     event DepositWithdrawn(address indexed to, uint256 indexed amount, uint256 indexed newBalance);
 
+    /// @notice Emitted when the guardian set or recovery parameters change
+    /// @param addressGuardians EVM address guardians
+    /// @param npubGuardians Nostr public key guardians
+    /// @param threshold Number of approvals required
+    /// @param delay Timelock in seconds
+    event GuardiansUpdated(address[] addressGuardians, uint256[] npubGuardians, uint256 threshold, uint256 delay);
+
+    /// @notice Emitted when a guardian approves a recovery
+    /// @param guardian Guardian identifier (the npub, or the address left-padded to 32 bytes)
+    /// @param newOwner The proposed owner
+    /// @param approvals Approvals collected so far
+    event RecoveryApproved(bytes32 indexed guardian, uint256 indexed newOwner, uint256 approvals);
+
+    /// @notice Emitted when a recovery reaches its threshold and the timelock starts
+    /// @param newOwner The proposed owner
+    /// @param executableAt Timestamp from which the recovery can be executed
+    event RecoveryScheduled(uint256 indexed newOwner, uint256 executableAt);
+
+    /// @notice Emitted when a recovery rotates the owner
+    /// @param previousOwner The owner before recovery
+    /// @param newOwner The owner after recovery
+    event RecoveryExecuted(uint256 indexed previousOwner, uint256 indexed newOwner);
+
+    /// @notice Emitted when the owner cancels a pending recovery
+    /// @param newOwner The owner the cancelled recovery proposed
+    event RecoveryCancelled(uint256 indexed newOwner);
+
+    /// @notice Emitted when the owner revokes a session delegation
+    /// @param delegationHash The hash of the revoked delegation
+    event SessionRevoked(bytes32 indexed delegationHash);
+
+    /// @notice Emitted when the spending limits of a token change
+    /// @param token The token, NATIVE_TOKEN for ETH
+    /// @param daily The new daily cap
+    /// @param weekly The new weekly cap
+    event SpendingLimitSet(address indexed token, uint256 daily, uint256 weekly);
+
+    /// @notice Emitted when the spending timelock changes
+    /// @param delay The new delay in seconds
+    event SpendingDelaySet(uint256 delay);
+
+    /// @notice Emitted when a call is scheduled past the spending limits
+    /// @param id The scheduled call id
+    /// @param target The called address
+    /// @param value The wei sent
+    /// @param data The call data
+    /// @param nonce The scheduled call nonce, needed to execute it
+    /// @param executableAt Timestamp from which it can be executed
+    event CallScheduled(
+        bytes32 indexed id,
+        address indexed target,
+        uint256 value,
+        bytes data,
+        uint256 nonce,
+        uint256 executableAt
+    );
+
+    /// @notice Emitted when a scheduled call is executed
+    /// @param id The scheduled call id
+    event ScheduledCallExecuted(bytes32 indexed id);
+
+    /// @notice Emitted when the owner cancels a scheduled call
+    /// @param id The scheduled call id
+    event ScheduledCallCancelled(bytes32 indexed id);
+
     /// @notice Emitted when the account implementation is upgraded
     /// @param newImplementation The address of the new implementation
     event AccountUpgraded(address indexed newImplementation);
@@ -54,7 +317,7 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
     /// @notice Thrown when a function is called by an unauthorized address
     error UnauthorizedCaller();
 
-    /// @notice Thrown when the owner address is invalid (zero)
+    /// @notice Thrown when the owner is invalid (zero, or unchanged on rotation)
     error InvalidOwner();
 
     /// @notice Thrown when attempting to withdraw more than available deposit
@@ -69,6 +332,36 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
     /// @notice Thrown when EntryPoint address is invalid
     error InvalidEntryPoint();
 
+    /// @notice Thrown when the guardian configuration is inconsistent
+    error InvalidGuardianConfig();
+
+    /// @notice Thrown when the caller or signer is not a guardian
+    error NotGuardian();
+
+    /// @notice Thrown when a guardian approves the same recovery twice
+    error RecoveryAlreadyApproved();
+
+    /// @notice Thrown when an approval proposes a different owner than the scheduled recovery
+    error RecoveryMismatch(uint256 pendingOwner);
+
+    /// @notice Thrown when there is no recovery to execute or cancel
+    error NoPendingRecovery();
+
+    /// @notice Thrown when executing a recovery before its timelock expires
+    error RecoveryTimelockActive(uint256 executableAt);
+
+    /// @notice Thrown when a transfer exceeds the daily or weekly spending limit of a token
+    error SpendingLimitExceeded(address token, uint256 amount, uint256 remaining);
+
+    /// @notice Thrown when loosening the spending policy or upgrading outside of a scheduled call
+    error SpendingPolicyTimelocked();
+
+    /// @notice Thrown when a scheduled call does not exist
+    error UnknownScheduledCall(bytes32 id);
+
+    /// @notice Thrown when executing a scheduled call before its timelock expires
+    error ScheduledCallTimelockActive(uint256 executableAt);
+
     // ============ Modifiers ============
 
     /// @notice Restricts function access to the account owner only
@@ -85,6 +378,26 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
         return _entryPoint;
     }
 
+    /// @notice Returns the EIP-712 domain of this account (ERC-5267)
+    /// @dev The domain uses `address(this)`, so every proxy gets its own domain separator
+    function eip712Domain()
+        public
+        view
+        virtual
+        override
+        returns (
+            bytes1 fields,
+            string memory name,
+            string memory version,
+            uint256 chainId,
+            address verifyingContract,
+            bytes32 salt,
+            uint256[] memory extensions
+        )
+    {
+        return (hex"0f", "NpubAccount", "1", block.chainid, address(this), bytes32(0), new uint256[](0));
+    }
+
     // ============ Receive Function ============
 
     /// @notice Allows the contract to receive ETH
@@ -116,6 +429,16 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
         }
     }
 
+    /// @notice EIP-712 digest of `structHash` under this account's domain
+    /// @param structHash The hash of the typed struct
+    /// @return The digest to sign
+    function _hashTypedDataV4(bytes32 structHash) internal view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(EIP712_DOMAIN_TYPEHASH, EIP712_NAME_HASH, EIP712_VERSION_HASH, block.chainid, address(this))
+        );
+        return MessageHashUtils.toTypedDataHash(domainSeparator, structHash);
+    }
+
     // ============ Initialization Functions ============
 
     /// @notice Initializes the account with a Nostr public key owner
@@ -138,8 +461,64 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
         emit AccountInitialized(_entryPoint, owner);
     }
 
+    // ============ Owner Functions ============
+
+    /// @notice Rotates the owner to a new Nostr public key, keeping the account address
+    /// @dev Goes through execute(), so the UserOperation is signed by the current owner
+    /// @param newOwner The Nostr public key (x-coordinate) that will own this account
+    function rotateOwner(uint256 newOwner) external onlyOwner {
+        _setOwner(newOwner);
+    }
+
+    /// @notice Sets the owner and emits OwnerChanged
+    /// @param newOwner The Nostr public key that will own this account
+    function _setOwner(uint256 newOwner) internal {
+        if (newOwner == 0 || newOwner == owner) {
+            revert InvalidOwner();
+        }
+        uint256 previousOwner = owner;
+        owner = newOwner;
+        emit OwnerChanged(previousOwner, newOwner);
+    }
+
     // ============ Execution Functions ============
 
+    /// @notice Executes a call from the account, within the spending limits
+    /// @param target The called address
+    /// @param value The wei sent
+    /// @param data The call data
+    function execute(address target, uint256 value, bytes calldata data) external virtual override {
+        _requireForExecute();
+        _spend(target, value, data);
+
+        bool ok = Exec.call(target, value, data, gasleft());
+        if (!ok) {
+            Exec.revertWithReturnData();
+        }
+    }
+
+    /// @notice Executes a batch of calls from the account, within the spending limits
+    /// @dev Reverts on the first failing call, wrapped in ExecuteError when the batch has several calls
+    /// @param calls The calls to execute in order
+    function executeBatch(Call[] calldata calls) external virtual override {
+        _requireForExecute();
+
+        uint256 callsLength = calls.length;
+        for (uint256 i = 0; i < callsLength; i++) {
+            Call calldata call = calls[i];
+            _spend(call.target, call.value, call.data);
+
+            bool ok = Exec.call(call.target, call.value, call.data, gasleft());
+            if (!ok) {
+                if (callsLength == 1) {
+                    Exec.revertWithReturnData();
+                } else {
+                    revert ExecuteError(i, Exec.getReturnData(0));
+                }
+            }
+        }
+    }
+
     /// @notice Validates that the function call went through EntryPoint
     /// @dev Override from BaseAccount to ensure proper execution context
     function _requireForExecute() internal view virtual override {
@@ -149,7 +528,9 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
     }
 
     /// @notice Validates a user operation signature using Nostr protocol
-    /// @dev Implements the template method from BaseAccount for signature validation
+    /// @dev Implements the template method from BaseAccount for signature validation.
+    ///      The owner signs either the untagged kind-96024 event of `userOpHash` (64-byte signature), or
+    ///      in one of the formats of `_validateTypedSignature`.
     /// @param userOp The packed user operation containing the signature
     /// @param userOpHash The hash of the user operation to validate against
     /// @return validationData The validation result (SIG_VALIDATION_SUCCESS or SIG_VALIDATION_FAILED)
@@ -157,6 +538,14 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
         PackedUserOperation calldata userOp,
         bytes32 userOpHash
     ) internal virtual override returns (uint256 validationData) {
+        if (userOp.signature.length == TYPED_SIGNATURE_LENGTH) {
+            return _validateTypedSignature(userOp, userOpHash);
+        }
+
+        if (userOp.signature.length != OWNER_SIGNATURE_LENGTH) {
+            return _validateSessionSignature(userOp, userOpHash);
+        }
+
         // UserOpHash can be generated using eth_signTypedData_v4
         if (NostrSignatures.verifyNostrSignature(owner, userOp.signature, userOpHash)) {
             return SIG_VALIDATION_SUCCESS;
@@ -164,6 +553,709 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
         return SIG_VALIDATION_FAILED;
     }
 
+    /// @notice Validates an owner signature prefixed with its signature type
+    /// @dev `SIGNATURE_TYPE_EVENT` and `SIGNATURE_TYPE_TAGGED_EVENT` wrap `userOpHash` in a kind-96024 event,
+    ///      `SIGNATURE_TYPE_RAW` signs it directly, which saves building and hashing the event on-chain.
+    ///      Unknown types fail.
+    /// @param userOp The packed user operation containing the signature
+    /// @param userOpHash The hash of the user operation to validate against
+    /// @return validationData The validation result (SIG_VALIDATION_SUCCESS or SIG_VALIDATION_FAILED)
+    function _validateTypedSignature(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash
+    ) internal view returns (uint256 validationData) {
+        bytes1 signatureType = userOp.signature[0];
+        bytes memory signature = userOp.signature[1:];
+
+        bool valid;
+        if (signatureType == SIGNATURE_TYPE_EVENT) {
+            valid = NostrSignatures.isValidNostrSignature(owner, signature, userOpHash);
+        } else if (signatureType == SIGNATURE_TYPE_TAGGED_EVENT) {
+            // The tags are rebuilt from the operation, so a signature over tags describing anything else fails
+            valid = NostrSignatures.isValidNostrSignature(owner, signature, userOperationTags(userOp), userOpHash);
+        } else if (signatureType == SIGNATURE_TYPE_RAW) {
+            valid = NostrSignatures.isValidSchnorrSignature(owner, signature, userOpHash);
+        }
+
+        return valid ? SIG_VALIDATION_SUCCESS : SIG_VALIDATION_FAILED;
+    }
+
+    /// @notice Tags of the Nostr event the owner signs for `userOp` in the tagged signature format
+    /// @dev Serialized as `[["v","1"],["chain",<id>],["entrypoint",<address>],["sender",<address>],...]`
+    ///      followed by a `["target",<address>]`, `["value",<wei>]` pair per call of `execute` /
+    ///      `executeBatch`, in call order. Addresses are lowercase hex, numbers decimal.
+    ///      Other call data adds no call tags; `userOpHash` still commits to it.
+    /// @param userOp The packed user operation
+    /// @return tags The serialized JSON tags array
+    function userOperationTags(PackedUserOperation calldata userOp) public view returns (bytes memory tags) {
+        tags = abi.encodePacked(
+            "[",
+            NostrSignatures.nostrTag("v", 1),
+            ",",
+            NostrSignatures.nostrTag("chain", block.chainid),
+            ",",
+            NostrSignatures.nostrTag("entrypoint", address(entryPoint())),
+            ",",
+            NostrSignatures.nostrTag("sender", userOp.sender)
+        );
+
+        Call[] memory calls = _decodeCalls(userOp.callData);
+        for (uint256 i = 0; i < calls.length; i++) {
+            tags = abi.encodePacked(
+                tags,
+                ",",
+                NostrSignatures.nostrTag("target", calls[i].target),
+                ",",
+                NostrSignatures.nostrTag("value", calls[i].value)
+            );
+        }
+
+        tags = abi.encodePacked(tags, "]");
+    }
+
+    /// @notice Decodes the calls of `execute` / `executeBatch` call data
+    /// @param callData The UserOperation call data
+    /// @return calls The calls, empty for any other call data
+    function _decodeCalls(bytes calldata callData) internal view returns (Call[] memory calls) {
+        if (callData.length < 4) {
+            return calls;
+        }
+
+        bytes4 selector = bytes4(callData[:4]);
+        if (selector == this.execute.selector) {
+            calls = new Call[](1);
+            (calls[0].target, calls[0].value, calls[0].data) = abi.decode(callData[4:], (address, uint256, bytes));
+        } else if (selector == this.executeBatch.selector) {
+            calls = abi.decode(callData[4:], (Call[]));
+        }
+    }
+
+    // ============ ERC-1271 Functions ============
+
+    /// @notice Wraps a message hash so that a signature over it is only valid for this account on this chain
+    /// @dev Returns the EIP-712 hash of `NpubMessage(bytes32 hash)` under the
+    ///      `NpubAccount` domain (name "NpubAccount", version "1", chainId, verifyingContract = this account).
+    ///      Without this, a signature for one npub account could be replayed against every other
+    ///      account sharing the same Nostr owner.
+    /// @param hash The original message hash (e.g. an EIP-191 or EIP-712 digest)
+    /// @return The replay-safe hash that the owner signs as a kind-96024 Nostr event
+    function replaySafeHash(bytes32 hash) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(NPUB_MESSAGE_TYPEHASH, hash)));
+    }
+
+    /// @notice Validates a signature on behalf of this account (ERC-1271)
+    /// @dev The signature is a 64-byte BIP340 signature over the Nostr event carrying `replaySafeHash(hash)`.
+    ///      A permit validated here would let its spender move tokens past the spending limits, so while
+    ///      any limit is set the signature has to carry the message, which `_isRefusedMessage` checks:
+    ///
+    ///        signature = abi.encode(bytes ownerSignature, bytes32 domainSeparator, bytes data)
+    ///
+    /// @param hash The message hash that was signed
+    /// @param signature The 64-byte BIP340 signature, encoded with the message while spending limits are set
+    /// @return magicValue `0x1626ba7e` if the signature is valid, `0xffffffff` otherwise
+    function isValidSignature(
+        bytes32 hash,
+        bytes calldata signature
+    ) public view virtual override returns (bytes4 magicValue) {
+        bytes memory ownerSignature = signature;
+        if (limitedTokenCount != 0) {
+            bytes32 domainSeparator;
+            bytes memory data;
+            try this.decodeMessageSignature(signature) returns (
+                bytes memory decodedSignature,
+                bytes32 decodedDomainSeparator,
+                bytes memory decodedData
+            ) {
+                (ownerSignature, domainSeparator, data) = (decodedSignature, decodedDomainSeparator, decodedData);
+            } catch {
+                return ERC1271_INVALID_VALUE;
+            }
+            if (_isRefusedMessage(hash, domainSeparator, data)) {
+                return ERC1271_INVALID_VALUE;
+            }
+        }
+
+        if (NostrSignatures.isValidNostrSignature(owner, ownerSignature, replaySafeHash(hash))) {
+            return ERC1271_MAGIC_VALUE;
+        }
+        return ERC1271_INVALID_VALUE;
+    }
+
+    /// @notice Decodes an ERC-1271 signature carrying its message
+    /// @dev External so that `isValidSignature` can refuse signatures that don't decode instead of reverting
+    /// @param signature abi.encode(bytes ownerSignature, bytes32 domainSeparator, bytes data)
+    /// @return ownerSignature The 64-byte BIP340 signature
+    /// @return domainSeparator EIP-712 domain separator of typed data, zero for an EIP-191 personal message
+    /// @return data EIP-712 `encodeData` of the typed message, or the personal message
+    function decodeMessageSignature(
+        bytes calldata signature
+    ) external pure returns (bytes memory ownerSignature, bytes32 domainSeparator, bytes memory data) {
+        return abi.decode(signature, (bytes, bytes32, bytes));
+    }
+
+    /// @notice Whether `isValidSignature` refuses a message while spending limits are set
+    /// @dev Refuses messages that don't hash to `hash` and token permits: EIP-2612 and DAI permits by their
+    ///      typehash, the first word of `data`, and every Permit2 message by its domain
+    /// @param hash The message hash that was signed
+    /// @param domainSeparator EIP-712 domain separator of typed data, zero for an EIP-191 personal message
+    /// @param data EIP-712 `encodeData` of the typed message, or the personal message
+    /// @return True if the signature must not be accepted
+    function _isRefusedMessage(bytes32 hash, bytes32 domainSeparator, bytes memory data) internal view returns (bool) {
+        if (domainSeparator == bytes32(0)) {
+            return MessageHashUtils.toEthSignedMessageHash(data) != hash;
+        }
+
+        if (data.length < 32 || MessageHashUtils.toTypedDataHash(domainSeparator, keccak256(data)) != hash) {
+            return true;
+        }
+
+        bytes32 typeHash = bytes32(data);
+        bytes32 permit2DomainSeparator = keccak256(
+            abi.encode(PERMIT2_DOMAIN_TYPEHASH, keccak256("Permit2"), block.chainid, PERMIT2)
+        );
+        return
+            typeHash == EIP2612_PERMIT_TYPEHASH ||
+            typeHash == DAI_PERMIT_TYPEHASH ||
+            domainSeparator == permit2DomainSeparator;
+    }
+
+    // ============ Recovery Functions ============
+
+    /// @notice Returns the guardian set
+    /// @return addressGuardians EVM address guardians
+    /// @return npubGuardians Nostr public key guardians
+    function getGuardians() external view returns (address[] memory addressGuardians, uint256[] memory npubGuardians) {
+        return (_addressGuardians, _npubGuardians);
+    }
+
+    /// @notice Replaces the guardian set and recovery parameters, cancelling any pending recovery
+    /// @dev Pass empty lists and a zero threshold to disable recovery
+    /// @param addressGuardians EVM addresses that approve by calling `approveRecovery`
+    /// @param npubGuardians Nostr public keys that approve with a signature over `recoveryHash`
+    /// @param threshold Number of distinct guardian approvals required
+    /// @param delay Seconds the owner has to cancel once the threshold is reached
+    function setGuardians(
+        address[] calldata addressGuardians,
+        uint256[] calldata npubGuardians,
+        uint256 threshold,
+        uint256 delay
+    ) external onlyOwner {
+        if (threshold > addressGuardians.length + npubGuardians.length) {
+            revert InvalidGuardianConfig();
+        }
+        if (threshold == 0 && addressGuardians.length + npubGuardians.length > 0) {
+            revert InvalidGuardianConfig();
+        }
+
+        for (uint256 i = 0; i < _addressGuardians.length; i++) {
+            delete isAddressGuardian[_addressGuardians[i]];
+        }
+        for (uint256 i = 0; i < _npubGuardians.length; i++) {
+            delete isNpubGuardian[_npubGuardians[i]];
+        }
+
+        for (uint256 i = 0; i < addressGuardians.length; i++) {
+            if (addressGuardians[i] == address(0) || isAddressGuardian[addressGuardians[i]]) {
+                revert InvalidGuardianConfig();
+            }
+            isAddressGuardian[addressGuardians[i]] = true;
+        }
+        for (uint256 i = 0; i < npubGuardians.length; i++) {
+            if (npubGuardians[i] == 0 || isNpubGuardian[npubGuardians[i]]) {
+                revert InvalidGuardianConfig();
+            }
+            isNpubGuardian[npubGuardians[i]] = true;
+        }
+
+        _addressGuardians = addressGuardians;
+        _npubGuardians = npubGuardians;
+        recoveryThreshold = threshold;
+        recoveryDelay = delay;
+
+        if (pendingRecovery.newOwner != 0) {
+            emit RecoveryCancelled(pendingRecovery.newOwner);
+        }
+        _resetRecovery();
+
+        emit GuardiansUpdated(addressGuardians, npubGuardians, threshold, delay);
+    }
+
+    /// @notice The hash an npub guardian signs (as a kind-96024 Nostr event) to approve `newOwner`
+    /// @dev EIP-712 hash of `Recovery(uint256 newOwner,uint256 nonce)` under this account's domain,
+    ///      so an approval cannot be replayed on another account or after a cancelled recovery
+    /// @param newOwner The proposed Nostr public key
+    /// @return The typed data hash
+    function recoveryHash(uint256 newOwner) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(RECOVERY_TYPEHASH, newOwner, recoveryNonce)));
+    }
+
+    /// @notice Approves rotating the owner to `newOwner`, called by an EVM address guardian
+    /// @param newOwner The proposed Nostr public key
+    function approveRecovery(uint256 newOwner) external {
+        if (!isAddressGuardian[msg.sender]) {
+            revert NotGuardian();
+        }
+        _approveRecovery(bytes32(uint256(uint160(msg.sender))), newOwner);
+    }
+
+    /// @notice Approves rotating the owner to `newOwner` on behalf of an npub guardian
+    /// @dev Anyone can relay the guardian's signature
+    /// @param guardian The guardian's Nostr public key
+    /// @param newOwner The proposed Nostr public key
+    /// @param signature The guardian's 64-byte BIP340 signature over `recoveryHash(newOwner)`
+    function approveRecoveryWithSignature(uint256 guardian, uint256 newOwner, bytes calldata signature) external {
+        if (!isNpubGuardian[guardian]) {
+            revert NotGuardian();
+        }
+        if (!NostrSignatures.isValidNostrSignature(guardian, signature, recoveryHash(newOwner))) {
+            revert NotGuardian();
+        }
+        _approveRecovery(bytes32(guardian), newOwner);
+    }
+
+    /// @notice Number of guardians currently approving the rotation to `newOwner`
+    /// @param newOwner The proposed Nostr public key
+    /// @return The approval count under the current recovery nonce
+    function recoveryApprovals(uint256 newOwner) external view returns (uint256) {
+        return _recoveryApprovalCounts[recoveryNonce][newOwner];
+    }
+
+    /// @notice Rotates the owner once the recovery reached its threshold and the timelock expired
+    /// @dev Callable by anyone, the guardians already authorized the rotation
+    function executeRecovery() external {
+        RecoveryRequest memory recovery = pendingRecovery;
+        if (recovery.executableAt == 0) {
+            revert NoPendingRecovery();
+        }
+        if (block.timestamp < recovery.executableAt) {
+            revert RecoveryTimelockActive(recovery.executableAt);
+        }
+
+        uint256 previousOwner = owner;
+        _setOwner(recovery.newOwner);
+        _resetRecovery();
+
+        emit RecoveryExecuted(previousOwner, recovery.newOwner);
+    }
+
+    /// @notice Cancels the pending recovery, e.g. when the owner still controls their key
+    function cancelRecovery() external onlyOwner {
+        uint256 newOwner = pendingRecovery.newOwner;
+        if (newOwner == 0) {
+            revert NoPendingRecovery();
+        }
+        _resetRecovery();
+
+        emit RecoveryCancelled(newOwner);
+    }
+
+    /// @notice Records a guardian approval and starts the timelock when the threshold is reached
+    /// @dev Approvals are counted per proposed owner, so a guardian proposing a different owner cannot block
+    ///      the others. Each guardian backs one proposal at a time and may move its approval until one
+    ///      proposal reaches the threshold.
+    /// @param guardian Guardian identifier
+    /// @param newOwner The proposed Nostr public key
+    function _approveRecovery(bytes32 guardian, uint256 newOwner) internal {
+        if (newOwner == 0 || newOwner == owner) {
+            revert InvalidOwner();
+        }
+
+        // A scheduled recovery can only be executed or cancelled by the owner
+        RecoveryRequest storage recovery = pendingRecovery;
+        if (recovery.executableAt != 0 && recovery.newOwner != newOwner) {
+            revert RecoveryMismatch(recovery.newOwner);
+        }
+
+        uint256 nonce = recoveryNonce;
+        uint256 previousApproval = _recoveryApprovals[nonce][guardian];
+        if (previousApproval == newOwner) {
+            revert RecoveryAlreadyApproved();
+        }
+        if (previousApproval != 0) {
+            _recoveryApprovalCounts[nonce][previousApproval] -= 1;
+        }
+        _recoveryApprovals[nonce][guardian] = newOwner;
+        uint256 approvals = ++_recoveryApprovalCounts[nonce][newOwner];
+
+        recovery.newOwner = newOwner;
+        recovery.approvals = approvals;
+
+        emit RecoveryApproved(guardian, newOwner, approvals);
+
+        if (recovery.approvals == recoveryThreshold) {
+            recovery.executableAt = block.timestamp + recoveryDelay;
+            emit RecoveryScheduled(newOwner, recovery.executableAt);
+        }
+    }
+
+    /// @notice Clears the pending recovery and invalidates its approvals
+    function _resetRecovery() internal {
+        delete pendingRecovery;
+        recoveryNonce += 1;
+    }
+
+    // ============ Session Key Functions ============
+
+    /// @notice The hash the owner signs (as a kind-96024 Nostr event) to delegate to a session key
+    /// @dev EIP-712 hash of the delegation under this account's domain
+    /// @param delegation The session key delegation
+    /// @return The delegation hash
+    function sessionDelegationHash(SessionDelegation memory delegation) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        SESSION_DELEGATION_TYPEHASH,
+                        delegation.sessionKey,
+                        keccak256(abi.encodePacked(delegation.targets)),
+                        keccak256(abi.encodePacked(delegation.selectors)),
+                        delegation.valueLimit,
+                        delegation.validAfter,
+                        delegation.validUntil
+                    )
+                )
+            );
+    }
+
+    /// @notice Revokes a session delegation before it expires
+    /// @param delegationHash The hash returned by `sessionDelegationHash`
+    function revokeSession(bytes32 delegationHash) external onlyOwner {
+        revokedSessions[delegationHash] = true;
+        emit SessionRevoked(delegationHash);
+    }
+
+    /// @notice Splits a session signature into the delegation and the owner's and session key's signatures
+    /// @dev External so that `_validateSessionSignature` can catch abi.decode reverting on malformed input
+    /// @param signature The session signature, `abi.encode(SessionDelegation, ownerSignature, sessionSignature)`
+    /// @return delegation The session key delegation
+    /// @return ownerSignature The owner's signature of `sessionDelegationHash(delegation)`
+    /// @return sessionSignature The session key's signature of the UserOperation hash
+    function decodeSessionSignature(
+        bytes calldata signature
+    )
+        external
+        pure
+        returns (SessionDelegation memory delegation, bytes memory ownerSignature, bytes memory sessionSignature)
+    {
+        return abi.decode(signature, (SessionDelegation, bytes, bytes));
+    }
+
+    /// @notice Validates a UserOperation signed by a session key
+    /// @dev The signature is `abi.encode(SessionDelegation, ownerSignature, sessionSignature)`, where the owner
+    ///      signs `sessionDelegationHash` and the session key signs `userOpHash`, both as kind-96024 events.
+    ///      The value sent is counted against `valueLimit` during validation. A signature that doesn't decode
+    ///      fails like any other invalid signature.
+    /// @param userOp The packed user operation containing the signature
+    /// @param userOpHash The hash of the user operation to validate against
+    /// @return validationData SIG_VALIDATION_FAILED, or success packed with the delegation's validity window
+    function _validateSessionSignature(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash
+    ) internal returns (uint256 validationData) {
+        SessionDelegation memory delegation;
+        bytes memory ownerSignature;
+        bytes memory sessionSignature;
+        try this.decodeSessionSignature(userOp.signature) returns (
+            SessionDelegation memory decodedDelegation,
+            bytes memory decodedOwnerSignature,
+            bytes memory decodedSessionSignature
+        ) {
+            (delegation, ownerSignature, sessionSignature) = (
+                decodedDelegation,
+                decodedOwnerSignature,
+                decodedSessionSignature
+            );
+        } catch {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        bytes32 delegationHash = sessionDelegationHash(delegation);
+        if (
+            revokedSessions[delegationHash] ||
+            !NostrSignatures.isValidNostrSignature(owner, ownerSignature, delegationHash)
+        ) {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        // The session signature is checked last, so that a stub signature during gas estimation
+        // goes through the call checks and the value accounting like a real one
+        bool sessionSigned = NostrSignatures.isValidNostrSignature(delegation.sessionKey, sessionSignature, userOpHash);
+        (bool allowed, uint256 value) = _sessionCallsValue(delegation, userOp.callData);
+        uint256 spent = sessionValueSpent[delegationHash] + value;
+        if (!allowed || spent > delegation.valueLimit) {
+            return SIG_VALIDATION_FAILED;
+        }
+        // Written before the signature result is applied, the EntryPoint discards it when validation fails
+        sessionValueSpent[delegationHash] = spent;
+        if (!sessionSigned) {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        return _packValidationData(false, delegation.validUntil, delegation.validAfter);
+    }
+
+    /// @notice Checks every call of an `execute` / `executeBatch` call data against a delegation
+    /// @param delegation The session key delegation
+    /// @param callData The UserOperation call data
+    /// @return allowed Whether all calls are permitted
+    /// @return value Total wei sent by the calls
+    function _sessionCallsValue(
+        SessionDelegation memory delegation,
+        bytes calldata callData
+    ) internal view returns (bool allowed, uint256 value) {
+        if (callData.length < 4) {
+            return (false, 0);
+        }
+
+        bytes4 selector = bytes4(callData[:4]);
+        if (selector == this.execute.selector) {
+            (address target, uint256 callValue, bytes memory data) = abi.decode(
+                callData[4:],
+                (address, uint256, bytes)
+            );
+            return (_isSessionCallAllowed(delegation, target, data), callValue);
+        }
+
+        if (selector == this.executeBatch.selector) {
+            Call[] memory calls = abi.decode(callData[4:], (Call[]));
+            for (uint256 i = 0; i < calls.length; i++) {
+                if (!_isSessionCallAllowed(delegation, calls[i].target, calls[i].data)) {
+                    return (false, 0);
+                }
+                value += calls[i].value;
+            }
+            return (true, value);
+        }
+
+        return (false, 0);
+    }
+
+    /// @notice Checks a single call against the targets and selectors of a delegation
+    /// @param delegation The session key delegation
+    /// @param target The called contract
+    /// @param data The call data
+    /// @return Whether the call is permitted
+    function _isSessionCallAllowed(
+        SessionDelegation memory delegation,
+        address target,
+        bytes memory data
+    ) internal view returns (bool) {
+        // Self-calls reach onlyOwner functions (guardians, rotation, upgrades)
+        if (target == address(this)) {
+            return false;
+        }
+
+        if (delegation.targets.length > 0 && !_containsAddress(delegation.targets, target)) {
+            return false;
+        }
+
+        if (delegation.selectors.length == 0) {
+            return true;
+        }
+        bytes4 selector = data.length >= 4 ? bytes4(data) : bytes4(0);
+        for (uint256 i = 0; i < delegation.selectors.length; i++) {
+            if (delegation.selectors[i] == selector) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /// @notice Linear search in a small address list
+    function _containsAddress(address[] memory list, address value) internal pure returns (bool) {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == value) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // ============ Spending Policy Functions ============
+
+    /// @notice Sets the daily and weekly caps of a token
+    /// @dev Tightening applies immediately. Raising or removing a cap has to go through `scheduleCall`,
+    ///      so a single malicious signature cannot lift the limits and drain the account.
+    /// @param token The token, NATIVE_TOKEN for ETH
+    /// @param daily Maximum amount per day, 0 for uncapped
+    /// @param weekly Maximum amount per week, 0 for uncapped
+    function setSpendingLimit(address token, uint128 daily, uint128 weekly) external onlyOwner {
+        SpendingLimit memory current = spendingLimits[token];
+        if (!_executingScheduledCall && (_isLooserCap(current.daily, daily) || _isLooserCap(current.weekly, weekly))) {
+            revert SpendingPolicyTimelocked();
+        }
+
+        bool wasLimited = current.daily != 0 || current.weekly != 0;
+        bool isLimited = daily != 0 || weekly != 0;
+        if (isLimited && !wasLimited) {
+            limitedTokenCount++;
+        } else if (wasLimited && !isLimited) {
+            limitedTokenCount--;
+        }
+
+        spendingLimits[token] = SpendingLimit(daily, weekly);
+        emit SpendingLimitSet(token, daily, weekly);
+    }
+
+    /// @notice Sets the timelock of scheduled calls
+    /// @dev Shortening the delay has to go through `scheduleCall`
+    /// @param delay The delay in seconds
+    function setSpendingDelay(uint256 delay) external onlyOwner {
+        if (!_executingScheduledCall && delay < spendingDelay) {
+            revert SpendingPolicyTimelocked();
+        }
+
+        spendingDelay = delay;
+        emit SpendingDelaySet(delay);
+    }
+
+    /// @notice Returns how much of a token can still be spent today and this week
+    /// @param token The token, NATIVE_TOKEN for ETH
+    /// @return daily Remaining daily allowance, type(uint256).max when uncapped
+    /// @return weekly Remaining weekly allowance, type(uint256).max when uncapped
+    function remainingAllowance(address token) public view returns (uint256 daily, uint256 weekly) {
+        SpendingLimit memory limit = spendingLimits[token];
+        SpendingUsage memory usage = _currentUsage(token);
+
+        daily = limit.daily == 0 ? type(uint256).max : _remaining(limit.daily, usage.spentToday);
+        weekly = limit.weekly == 0 ? type(uint256).max : _remaining(limit.weekly, usage.spentThisWeek);
+    }
+
+    /// @notice Queues a call that bypasses the spending limits once `spendingDelay` has passed
+    /// @param target The called address
+    /// @param value The wei sent
+    /// @param data The call data
+    /// @return id The scheduled call id
+    function scheduleCall(address target, uint256 value, bytes calldata data) external onlyOwner returns (bytes32 id) {
+        uint256 nonce = scheduledCallNonce++;
+        id = scheduledCallId(target, value, data, nonce);
+        uint256 executableAt = block.timestamp + spendingDelay;
+        scheduledCalls[id] = executableAt;
+
+        emit CallScheduled(id, target, value, data, nonce, executableAt);
+    }
+
+    /// @notice Executes a scheduled call once its timelock expired
+    /// @dev Goes through the EntryPoint like any other call, the owner still signs the execution
+    /// @param target The called address
+    /// @param value The wei sent
+    /// @param data The call data
+    /// @param nonce The nonce emitted in CallScheduled
+    function executeScheduledCall(address target, uint256 value, bytes calldata data, uint256 nonce) external {
+        _requireForExecute();
+
+        bytes32 id = scheduledCallId(target, value, data, nonce);
+        uint256 executableAt = scheduledCalls[id];
+        if (executableAt == 0) {
+            revert UnknownScheduledCall(id);
+        }
+        if (block.timestamp < executableAt) {
+            revert ScheduledCallTimelockActive(executableAt);
+        }
+        delete scheduledCalls[id];
+
+        _executingScheduledCall = true;
+        bool ok = Exec.call(target, value, data, gasleft());
+        _executingScheduledCall = false;
+        if (!ok) {
+            Exec.revertWithReturnData();
+        }
+
+        emit ScheduledCallExecuted(id);
+    }
+
+    /// @notice Cancels a scheduled call
+    /// @param id The scheduled call id
+    function cancelScheduledCall(bytes32 id) external onlyOwner {
+        if (scheduledCalls[id] == 0) {
+            revert UnknownScheduledCall(id);
+        }
+        delete scheduledCalls[id];
+
+        emit ScheduledCallCancelled(id);
+    }
+
+    /// @notice Computes the id of a scheduled call
+    function scheduledCallId(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        uint256 nonce
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encode(target, value, data, nonce));
+    }
+
+    /// @notice Counts the ETH and ERC-20 amounts moved by a call against the spending limits
+    /// @dev ERC-20 `transfer`, `approve` and `transferFrom` from this account are counted. Calls to the
+    ///      account itself are administrative and not counted.
+    /// @param target The called address
+    /// @param value The wei sent
+    /// @param data The call data
+    function _spend(address target, uint256 value, bytes calldata data) internal {
+        if (value > 0) {
+            _consumeAllowance(NATIVE_TOKEN, value);
+        }
+        if (target == address(this) || data.length < 68) {
+            return;
+        }
+
+        bytes4 selector = bytes4(data[:4]);
+        if (selector == IERC20.transfer.selector || selector == IERC20.approve.selector) {
+            (, uint256 amount) = abi.decode(data[4:68], (address, uint256));
+            _consumeAllowance(target, amount);
+        } else if (selector == IERC20.transferFrom.selector && data.length >= 100) {
+            (address from, , uint256 amount) = abi.decode(data[4:100], (address, address, uint256));
+            if (from == address(this)) {
+                _consumeAllowance(target, amount);
+            }
+        }
+    }
+
+    /// @notice Records spending of a token, reverting when it exceeds a cap
+    /// @param token The token, NATIVE_TOKEN for ETH
+    /// @param amount The amount spent
+    function _consumeAllowance(address token, uint256 amount) internal {
+        SpendingLimit memory limit = spendingLimits[token];
+        if (limit.daily == 0 && limit.weekly == 0) {
+            return;
+        }
+
+        (uint256 daily, uint256 weekly) = remainingAllowance(token);
+        if (amount > daily || amount > weekly) {
+            revert SpendingLimitExceeded(token, amount, daily < weekly ? daily : weekly);
+        }
+
+        SpendingUsage memory usage = _currentUsage(token);
+        usage.spentToday += uint128(amount);
+        usage.spentThisWeek += uint128(amount);
+        spendingUsage[token] = usage;
+    }
+
+    /// @notice Returns the usage of a token with periods that ended reset to zero
+    function _currentUsage(address token) internal view returns (SpendingUsage memory usage) {
+        usage = spendingUsage[token];
+        uint32 day = uint32(block.timestamp / 1 days);
+        uint32 week = uint32(block.timestamp / 1 weeks);
+        if (usage.day != day) {
+            usage.day = day;
+            usage.spentToday = 0;
+        }
+        if (usage.week != week) {
+            usage.week = week;
+            usage.spentThisWeek = 0;
+        }
+    }
+
+    /// @notice What is left of cap `limit` after `spent`, 0 once a tightened cap is below the amount already spent
+    function _remaining(uint128 limit, uint128 spent) internal pure returns (uint256) {
+        return spent >= limit ? 0 : limit - spent;
+    }
+
+    /// @notice Whether replacing cap `current` with `next` allows spending more (0 is uncapped)
+    function _isLooserCap(uint128 current, uint128 next) internal pure returns (bool) {
+        return current != 0 && (next == 0 || next > current);
+    }
+
     // ============ Deposit Management Functions ============
 
     /// @notice Returns the current account deposit balance in the EntryPoint
@@ -211,12 +1303,16 @@ contract NpubAccount is BaseAccount, TokenCallbackHandler, UUPSUpgradeable, Init
     // ============ Upgrade Functions ============
 
     /// @notice Authorizes the upgrade to a new implementation
-    /// @dev Only the account owner can authorize upgrades
+    /// @dev Only the account owner can authorize upgrades, through `scheduleCall`: a new implementation
+    ///      could lift the spending limits, so it waits for the spending timelock like loosening them does
     /// @param newImplementation The address of the new implementation contract
     function _authorizeUpgrade(address newImplementation) internal view override {
         if (newImplementation == address(0)) {
             revert InvalidEntryPoint();
         }
         _onlyOwner();
+        if (!_executingScheduledCall) {
+            revert SpendingPolicyTimelocked();
+        }
     }
 }
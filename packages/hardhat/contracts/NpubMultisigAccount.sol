@@ -0,0 +1,385 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@account-abstraction/contracts/core/BaseAccount.sol";
+import "@account-abstraction/contracts/core/Helpers.sol";
+import "@account-abstraction/contracts/accounts/callback/TokenCallbackHandler.sol";
+
+import "./NostrSignatures.sol";
+
+/**
+ * @title NpubMultisigAccount
+ * @notice An M-of-N smart account controlled by several Nostr public keys
+ * @dev Same ERC-4337 surface as NpubAccount, but a UserOperation (or ERC-1271 message) is only valid
+ *      when at least `threshold` owners signed it. Each owner signs the kind-96024 event of the hash
+ *      with their own key, and the signatures are concatenated into a single signature blob:
+ *
+ *        signature = pubkey_1 (32 bytes) || sig_1 (64 bytes) || ... || pubkey_k || sig_k
+ *
+ *      Entries must be sorted by strictly ascending public key, which rules out counting an owner twice.
+ *      Owner management functions can only be reached through the account itself, i.e. with a
+ *      UserOperation that already meets the current threshold.
+ * @author Senior Smart Contract Engineer
+ */
+contract NpubMultisigAccount is
+    BaseAccount,
+    TokenCallbackHandler,
+    UUPSUpgradeable,
+    Initializable,
+    ReentrancyGuard,
+    EIP712,
+    IERC1271
+{
+    // ============ Constants ============
+
+    /// @notice Length of one signature entry: 32-byte x-only public key followed by a 64-byte BIP340 signature
+    uint256 public constant SIGNATURE_ENTRY_LENGTH = 96;
+
+    /// @notice EIP-712 typehash used to bind ERC-1271 message hashes to this account and chain
+    bytes32 private constant NPUB_MESSAGE_TYPEHASH = keccak256("NpubMessage(bytes32 hash)");
+
+    /// @notice Value returned by `isValidSignature` for a valid signature (ERC-1271 magic value)
+    bytes4 internal constant ERC1271_MAGIC_VALUE = 0x1626ba7e;
+
+    /// @notice Value returned by `isValidSignature` for an invalid signature
+    bytes4 internal constant ERC1271_INVALID_VALUE = 0xffffffff;
+
+    // ============ State Variables ============
+
+    /// @notice Number of owner signatures required to authorize an operation
+    uint256 public threshold;
+
+    /// @notice Whether a Nostr public key (x-coordinate) is one of the owners
+    mapping(uint256 => bool) public isOwner;
+
+    /// @notice The Nostr public keys that own this account
+    uint256[] private _owners;
+
+    /// @notice The EntryPoint contract for account abstraction operations
+    IEntryPoint private immutable _entryPoint;
+
+    // ============ Events ============
+
+    /// @notice Emitted when the account is initialized with its owners
+    /// @param entryPoint The EntryPoint contract address
+    /// @param owners The Nostr public keys that own this account
+    /// @param threshold The number of signatures required
+    event MultisigInitialized(IEntryPoint indexed entryPoint, uint256[] owners, uint256 threshold);
+
+    /// @notice Emitted when an owner is added
+    /// @param owner The Nostr public key that was added
+    event OwnerAdded(uint256 indexed owner);
+
+    /// @notice Emitted when an owner is removed
+    /// @param owner The Nostr public key that was removed
+    event OwnerRemoved(uint256 indexed owner);
+
+    /// @notice Emitted when the signature threshold changes
+    /// @param threshold The new number of signatures required
+    event ThresholdChanged(uint256 indexed threshold);
+
+    /// @notice Emitted when ETH is deposited to the EntryPoint
+    /// @param amount The amount of ETH deposited
+    /// @param newBalance The new deposit balance in EntryPoint
+    event DepositAdded(uint256 indexed amount, uint256 indexed newBalance);
+
+    /// @notice Emitted when ETH is withdrawn from the EntryPoint
+    /// @param to The address that received the withdrawn funds
+    /// @param amount The amount of ETH withdrawn
+    /// @param newBalance The new deposit balance in EntryPoint
+    event DepositWithdrawn(address indexed to, uint256 indexed amount, uint256 indexed newBalance);
+
+    // ============ Errors ============
+
+    /// @notice Thrown when a function is called by an unauthorized address
+    error UnauthorizedCaller();
+
+    /// @notice Thrown when an owner key is zero
+    error InvalidOwner();
+
+    /// @notice Thrown when an owner is added twice
+    error DuplicateOwner(uint256 owner);
+
+    /// @notice Thrown when removing a key that is not an owner
+    error NotAnOwner(uint256 owner);
+
+    /// @notice Thrown when the threshold is zero or larger than the number of owners
+    error InvalidThreshold(uint256 threshold, uint256 ownerCount);
+
+    /// @notice Thrown when attempting to withdraw more than available deposit
+    error InsufficientDeposit();
+
+    /// @notice Thrown when attempting to withdraw to zero address
+    error InvalidWithdrawAddress();
+
+    /// @notice Thrown when attempting to deposit zero amount
+    error ZeroDepositAmount();
+
+    /// @notice Thrown when EntryPoint address is invalid
+    error InvalidEntryPoint();
+
+    // ============ Modifiers ============
+
+    /// @notice Restricts function access to the account itself (i.e. a UserOperation approved by the owners)
+    modifier onlySelf() {
+        _onlySelf();
+        _;
+    }
+
+    // ============ View Functions ============
+
+    /// @notice Returns the EntryPoint contract address
+    /// @return The EntryPoint contract instance
+    function entryPoint() public view virtual override returns (IEntryPoint) {
+        return _entryPoint;
+    }
+
+    /// @notice Returns all owners of the account
+    /// @return The Nostr public keys (x-coordinates) of the owners
+    function getOwners() external view returns (uint256[] memory) {
+        return _owners;
+    }
+
+    // ============ Receive Function ============
+
+    /// @notice Allows the contract to receive ETH
+    receive() external payable {
+        // Intentionally empty - allows contract to receive ETH
+    }
+
+    // ============ Constructor ============
+
+    /// @notice Initializes the contract with the EntryPoint address
+    /// @dev Disables initializers to prevent direct initialization of the implementation
+    /// @param anEntryPoint The EntryPoint contract address for account abstraction
+    constructor(IEntryPoint anEntryPoint) EIP712("NpubMultisigAccount", "1") {
+        if (address(anEntryPoint) == address(0)) {
+            revert InvalidEntryPoint();
+        }
+        _entryPoint = anEntryPoint;
+        _disableInitializers();
+    }
+
+    // ============ Internal Functions ============
+
+    /// @notice Internal function to check if the caller is the account itself
+    function _onlySelf() internal view {
+        if (msg.sender != address(this)) {
+            revert UnauthorizedCaller();
+        }
+    }
+
+    /// @notice Adds an owner without touching the threshold
+    /// @param anOwner The Nostr public key to add
+    function _addOwner(uint256 anOwner) internal {
+        if (anOwner == 0) {
+            revert InvalidOwner();
+        }
+        if (isOwner[anOwner]) {
+            revert DuplicateOwner(anOwner);
+        }
+        isOwner[anOwner] = true;
+        _owners.push(anOwner);
+        emit OwnerAdded(anOwner);
+    }
+
+    /// @notice Sets the threshold after checking it against the current number of owners
+    /// @param newThreshold The number of signatures required
+    function _setThreshold(uint256 newThreshold) internal {
+        if (newThreshold == 0 || newThreshold > _owners.length) {
+            revert InvalidThreshold(newThreshold, _owners.length);
+        }
+        threshold = newThreshold;
+        emit ThresholdChanged(newThreshold);
+    }
+
+    /// @notice Checks that `signature` carries at least `threshold` valid owner signatures over `hash`
+    /// @dev Returns false instead of reverting on malformed input so that validation failures are
+    ///      reported to the EntryPoint as SIG_VALIDATION_FAILED
+    /// @param signature Concatenated (pubkey, BIP340 signature) entries sorted by ascending pubkey
+    /// @param hash The hash each owner signed as a kind-96024 Nostr event
+    /// @return True if the threshold is met
+    function _checkSignatures(bytes calldata signature, bytes32 hash) internal view returns (bool) {
+        if (signature.length % SIGNATURE_ENTRY_LENGTH != 0) {
+            return false;
+        }
+
+        uint256 count = signature.length / SIGNATURE_ENTRY_LENGTH;
+        if (count < threshold) {
+            return false;
+        }
+
+        // Every entry is verified even after a failure, so stub signatures cost as much gas as real ones
+        bool valid = true;
+        uint256 lastOwner = 0;
+        for (uint256 i = 0; i < count; i++) {
+            uint256 offset = i * SIGNATURE_ENTRY_LENGTH;
+            uint256 signer = uint256(bytes32(signature[offset:offset + 32]));
+
+            if (signer <= lastOwner || !isOwner[signer]) {
+                return false;
+            }
+            if (!NostrSignatures.isValidNostrSignature(signer, signature[offset + 32:offset + 96], hash)) {
+                valid = false;
+            }
+            lastOwner = signer;
+        }
+        return valid;
+    }
+
+    // ============ Initialization Functions ============
+
+    /// @notice Initializes the account with its owners and threshold
+    /// @param owners The Nostr public keys (x-coordinates) that will own this account
+    /// @param aThreshold The number of owner signatures required for an operation
+    function initialize(uint256[] calldata owners, uint256 aThreshold) public virtual initializer {
+        for (uint256 i = 0; i < owners.length; i++) {
+            _addOwner(owners[i]);
+        }
+        _setThreshold(aThreshold);
+        emit MultisigInitialized(_entryPoint, owners, aThreshold);
+    }
+
+    // ============ Owner Management Functions ============
+
+    /// @notice Adds an owner and updates the threshold
+    /// @param anOwner The Nostr public key to add
+    /// @param newThreshold The threshold to apply after the owner is added
+    function addOwner(uint256 anOwner, uint256 newThreshold) external onlySelf {
+        _addOwner(anOwner);
+        _setThreshold(newThreshold);
+    }
+
+    /// @notice Removes an owner and updates the threshold
+    /// @param anOwner The Nostr public key to remove
+    /// @param newThreshold The threshold to apply after the owner is removed
+    function removeOwner(uint256 anOwner, uint256 newThreshold) external onlySelf {
+        if (!isOwner[anOwner]) {
+            revert NotAnOwner(anOwner);
+        }
+
+        uint256 length = _owners.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (_owners[i] == anOwner) {
+                _owners[i] = _owners[length - 1];
+                _owners.pop();
+                break;
+            }
+        }
+        delete isOwner[anOwner];
+        emit OwnerRemoved(anOwner);
+
+        _setThreshold(newThreshold);
+    }
+
+    /// @notice Changes the number of owner signatures required
+    /// @param newThreshold The new threshold
+    function changeThreshold(uint256 newThreshold) external onlySelf {
+        _setThreshold(newThreshold);
+    }
+
+    // ============ Execution Functions ============
+
+    /// @notice Validates that the function call went through EntryPoint
+    /// @dev Override from BaseAccount to ensure proper execution context
+    function _requireForExecute() internal view virtual override {
+        if (msg.sender != address(entryPoint()) && msg.sender != address(this)) {
+            revert UnauthorizedCaller();
+        }
+    }
+
+    /// @notice Validates that the user operation is signed by at least `threshold` owners
+    /// @param userOp The packed user operation containing the concatenated owner signatures
+    /// @param userOpHash The hash of the user operation to validate against
+    /// @return validationData The validation result (SIG_VALIDATION_SUCCESS or SIG_VALIDATION_FAILED)
+    function _validateSignature(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash
+    ) internal virtual override returns (uint256 validationData) {
+        if (_checkSignatures(userOp.signature, userOpHash)) {
+            return SIG_VALIDATION_SUCCESS;
+        }
+        return SIG_VALIDATION_FAILED;
+    }
+
+    // ============ ERC-1271 Functions ============
+
+    /// @notice Wraps a message hash so that a signature over it is only valid for this account on this chain
+    /// @dev EIP-712 hash of `NpubMessage(bytes32 hash)` under the `NpubMultisigAccount` domain
+    /// @param hash The original message hash
+    /// @return The replay-safe hash that each owner signs as a kind-96024 Nostr event
+    function replaySafeHash(bytes32 hash) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(NPUB_MESSAGE_TYPEHASH, hash)));
+    }
+
+    /// @notice Validates a multisig signature on behalf of this account (ERC-1271)
+    /// @param hash The message hash that was signed
+    /// @param signature Concatenated owner signatures over `replaySafeHash(hash)`
+    /// @return magicValue `0x1626ba7e` if the threshold is met, `0xffffffff` otherwise
+    function isValidSignature(
+        bytes32 hash,
+        bytes calldata signature
+    ) public view virtual override returns (bytes4 magicValue) {
+        if (_checkSignatures(signature, replaySafeHash(hash))) {
+            return ERC1271_MAGIC_VALUE;
+        }
+        return ERC1271_INVALID_VALUE;
+    }
+
+    // ============ Deposit Management Functions ============
+
+    /// @notice Returns the current account deposit balance in the EntryPoint
+    /// @return The current deposit balance in wei
+    function getDeposit() public view returns (uint256) {
+        return entryPoint().balanceOf(address(this));
+    }
+
+    /// @notice Deposits ETH to the EntryPoint for this account
+    function addDeposit() public payable nonReentrant {
+        if (msg.value == 0) {
+            revert ZeroDepositAmount();
+        }
+
+        uint256 amount = msg.value;
+        entryPoint().depositTo{ value: amount }(address(this));
+        uint256 newBalance = entryPoint().balanceOf(address(this));
+
+        emit DepositAdded(amount, newBalance);
+    }
+
+    /// @notice Withdraws ETH from the account's EntryPoint deposit
+    /// @param withdrawAddress The address to send the withdrawn funds to
+    /// @param amount The amount of ETH to withdraw in wei
+    function withdrawDepositTo(address payable withdrawAddress, uint256 amount) public onlySelf nonReentrant {
+        if (withdrawAddress == address(0)) {
+            revert InvalidWithdrawAddress();
+        }
+
+        uint256 currentDeposit = entryPoint().balanceOf(address(this));
+        if (amount > currentDeposit) {
+            revert InsufficientDeposit();
+        }
+
+        entryPoint().withdrawTo(withdrawAddress, amount);
+        uint256 newBalance = entryPoint().balanceOf(address(this));
+
+        emit DepositWithdrawn(withdrawAddress, amount, newBalance);
+    }
+
+    // ============ Upgrade Functions ============
+
+    /// @notice Authorizes the upgrade to a new implementation
+    /// @dev Only reachable through a UserOperation approved by the owners
+    /// @param newImplementation The address of the new implementation contract
+    function _authorizeUpgrade(address newImplementation) internal view override {
+        if (newImplementation == address(0)) {
+            revert InvalidEntryPoint();
+        }
+        _onlySelf();
+    }
+}
@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+import "./NpubMultisigAccount.sol";
+
+/**
+ * @title NpubMultisigAccountFactory
+ * @notice Factory contract for creating NpubMultisigAccount instances using deterministic addresses
+ * @dev Mirrors NpubAccountFactory: createAccount returns the account even if it is already deployed,
+ *      so it can be used as the UserOperation factory before and after the first operation.
+ *      The address depends on the ordered owner list, the threshold and the salt.
+ * @author Senior Smart Contract Engineer
+ */
+contract NpubMultisigAccountFactory {
+    // ============ State Variables ============
+
+    /// @notice The immutable account implementation contract
+    NpubMultisigAccount public immutable accountImplementation;
+
+    // ============ Custom Errors ============
+
+    /// @notice Thrown when account creation fails
+    error AccountCreationFailed();
+
+    // ============ Events ============
+
+    /// @notice Emitted when a multisig account is created or looked up
+    /// @param account The address of the account
+    /// @param ownersHash keccak256 of the abi-encoded owner list
+    /// @param threshold The number of signatures required
+    /// @param salt The salt used for address generation
+    /// @param isNew Whether this is a newly created account (true) or existing (false)
+    event MultisigAccountCreated(
+        address indexed account,
+        bytes32 indexed ownersHash,
+        uint256 threshold,
+        uint256 indexed salt,
+        bool isNew
+    );
+
+    // ============ Constructor ============
+
+    /// @notice Initializes the factory with the EntryPoint contract
+    /// @param _entryPoint The EntryPoint contract address
+    constructor(IEntryPoint _entryPoint) {
+        accountImplementation = new NpubMultisigAccount(_entryPoint);
+    }
+
+    // ============ External Functions ============
+
+    /// @notice Creates a new NpubMultisigAccount or returns the existing one
+    /// @param owners The Nostr public keys (x-coordinates) that will own the account
+    /// @param threshold The number of owner signatures required
+    /// @param salt The salt used for deterministic address generation
+    /// @return ret The created or existing NpubMultisigAccount instance
+    function createAccount(
+        uint256[] calldata owners,
+        uint256 threshold,
+        uint256 salt
+    ) external returns (NpubMultisigAccount ret) {
+        address addr = this.getAddress(owners, threshold, salt);
+        bytes32 ownersHash = keccak256(abi.encode(owners));
+
+        // Return existing account if already deployed
+        if (addr.code.length > 0) {
+            emit MultisigAccountCreated(addr, ownersHash, threshold, salt, false);
+            return NpubMultisigAccount(payable(addr));
+        }
+
+        try
+            new ERC1967Proxy{ salt: bytes32(salt) }(
+                address(accountImplementation),
+                abi.encodeCall(NpubMultisigAccount.initialize, (owners, threshold))
+            )
+        returns (ERC1967Proxy proxy) {
+            ret = NpubMultisigAccount(payable(address(proxy)));
+            emit MultisigAccountCreated(address(ret), ownersHash, threshold, salt, true);
+        } catch {
+            revert AccountCreationFailed();
+        }
+    }
+
+    /// @notice Calculates the counterfactual address of an account as it would be returned by createAccount()
+    /// @param owners The Nostr public keys (x-coordinates) that will own the account
+    /// @param threshold The number of owner signatures required
+    /// @param salt The salt used for deterministic address generation
+    /// @return The computed address of the account
+    function getAddress(uint256[] calldata owners, uint256 threshold, uint256 salt) external view returns (address) {
+        return
+            Create2.computeAddress(
+                bytes32(salt),
+                keccak256(
+                    abi.encodePacked(
+                        type(ERC1967Proxy).creationCode,
+                        abi.encode(
+                            address(accountImplementation),
+                            abi.encodeCall(NpubMultisigAccount.initialize, (owners, threshold))
+                        )
+                    )
+                )
+            );
+    }
+}
@@ -0,0 +1,400 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@account-abstraction/contracts/core/BasePaymaster.sol";
+import "@account-abstraction/contracts/core/Helpers.sol";
+
+/**
+ * @title IPriceOracle
+ * @notice Chainlink-style price feed quoting the price of 1 ETH in a token, e.g. ETH / USD for USDC
+ */
+interface IPriceOracle {
+    /// @notice Decimals of the answer
+    function decimals() external view returns (uint8);
+
+    /// @notice Latest price of 1 ETH in the token, scaled by `decimals`
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound);
+}
+
+/**
+ * @title IERC20SignaturePermit
+ * @notice EIP-2612 permit taking a packed signature, checked through ERC-1271 for contract owners (USDC v2.2)
+ */
+interface IERC20SignaturePermit {
+    /// @notice Approves `spender` for `value` of the owner's tokens with the owner's signature
+    function permit(address owner, address spender, uint256 value, uint256 deadline, bytes memory signature) external;
+}
+
+/**
+ * @title NpubTokenPaymaster
+ * @notice Pays for UserOperations in ETH and charges the sender in a whitelisted ERC-20 token
+ * @dev Validation may not read the oracle, so each token keeps a cached price that is refreshed from
+ *      its oracle after every sponsored operation and by anyone through `updatePrice`. Operations are
+ *      only valid until the cached price is `maxPriceAge` old.
+ *
+ *        paymasterAndData = paymaster || verificationGasLimit || postOpGasLimit || abi.encode(token, maxTokenCost)
+ *                         | paymaster || verificationGasLimit || postOpGasLimit || abi.encode(token, maxTokenCost, permit)
+ *
+ *      The maximum token cost is always collected during validation and the unused part refunded in
+ *      `postOp`, so the sender must have approved the paymaster before the operation. Collecting only
+ *      after execution would let the operation move the tokens away and leave the deposit paying for it.
+ *      A sender without the allowance, such as an account holding only the token before its first
+ *      operation, passes an EIP-2612 permit instead, which is redeemed during validation.
+ * @author Senior Smart Contract Engineer
+ */
+contract NpubTokenPaymaster is BasePaymaster {
+    using SafeERC20 for IERC20;
+
+    // ============ Constants ============
+
+    /// @notice Denominator of the price markup, 10000 charges the plain oracle price
+    uint256 public constant MARKUP_DENOMINATOR = 10_000;
+
+    /// @notice Highest markup the owner can configure (+100%)
+    uint256 public constant MAX_MARKUP = 20_000;
+
+    /// @notice Gas of `postOp` itself, which is not part of the actual gas cost it receives
+    uint256 public constant POST_OP_OVERHEAD_GAS = 45_000;
+
+    // ============ Structs ============
+
+    /// @notice Gas payment settings of a token
+    /// @param oracle Feed quoting 1 ETH in the token, zero for a price set by the owner
+    /// @param maxPriceAge Seconds a cached oracle price stays usable
+    /// @param markup Price markup over `MARKUP_DENOMINATOR`, covers price movements and fees
+    /// @param price Cached token base units per 1 ETH
+    /// @param priceUpdatedAt Timestamp of the cached price
+    struct TokenConfig {
+        IPriceOracle oracle;
+        uint32 maxPriceAge;
+        uint16 markup;
+        bool enabled;
+        uint256 price;
+        uint48 priceUpdatedAt;
+    }
+
+    /// @notice EIP-2612 permit approving the paymaster, signed by the sender
+    /// @param value Token amount approved, the operation's cost is collected from it
+    /// @param deadline Timestamp after which the permit can't be redeemed
+    /// @param signature The sender's signature, checked by the token through ERC-1271
+    struct TokenPermit {
+        uint256 value;
+        uint256 deadline;
+        bytes signature;
+    }
+
+    // ============ State Variables ============
+
+    /// @notice Gas payment settings per whitelisted token
+    mapping(address => TokenConfig) public tokens;
+
+    // ============ Events ============
+
+    /// @notice Emitted when a token is whitelisted or its settings change
+    /// @param token The ERC-20 token
+    /// @param oracle The price feed, zero for an owner-set price
+    /// @param markup Price markup over `MARKUP_DENOMINATOR`
+    /// @param maxPriceAge Seconds a cached oracle price stays usable
+    event TokenConfigured(address indexed token, IPriceOracle oracle, uint16 markup, uint32 maxPriceAge);
+
+    /// @notice Emitted when a token is removed from the whitelist
+    /// @param token The ERC-20 token
+    event TokenRemoved(address indexed token);
+
+    /// @notice Emitted when the cached price of a token changes
+    /// @param token The ERC-20 token
+    /// @param price Token base units per 1 ETH
+    event PriceUpdated(address indexed token, uint256 price);
+
+    /// @notice Emitted when a sender has been charged for an operation
+    /// @param sender The account whose operation was paid for
+    /// @param token The token it was charged in
+    /// @param tokenCost The token amount charged
+    /// @param actualGasCost The wei the paymaster paid, without the postOp overhead
+    event UserOperationCharged(address indexed sender, address indexed token, uint256 tokenCost, uint256 actualGasCost);
+
+    // ============ Custom Errors ============
+
+    /// @notice Thrown when the token is not whitelisted
+    error UnsupportedToken(address token);
+
+    /// @notice Thrown when the markup is below the plain price or above `MAX_MARKUP`
+    error InvalidMarkup(uint16 markup);
+
+    /// @notice Thrown when the oracle answer is not positive or too old
+    error InvalidPrice(address token);
+
+    /// @notice Thrown when the price of a token with an oracle is set by hand
+    error PriceFromOracle(address token);
+
+    /// @notice Thrown when the operation would cost more than the sender accepted
+    error TokenCostTooHigh(uint256 tokenCost, uint256 maxTokenCost);
+
+    /// @notice Thrown when the sender cannot pay the maximum token cost
+    error InsufficientTokenBalance(address token, uint256 balance, uint256 tokenCost);
+
+    /// @notice Thrown when the sender has not approved the paymaster for the maximum token cost
+    error InsufficientTokenAllowance(address token, uint256 allowance, uint256 tokenCost);
+
+    /// @notice Thrown when the paymaster data is neither of the two encodings
+    error InvalidPaymasterData();
+
+    // ============ Constructor ============
+
+    /// @notice Creates the paymaster, the deployer becomes the owner
+    /// @param anEntryPoint The EntryPoint contract address
+    constructor(IEntryPoint anEntryPoint) BasePaymaster(anEntryPoint) {}
+
+    /// @inheritdoc BasePaymaster
+    /// @dev Skipped for the same reason as in NpubVerifyingPaymaster
+    function _validateEntryPointInterface(IEntryPoint) internal pure override {}
+
+    // ============ Token Functions ============
+
+    /// @notice Whitelists a token or updates its settings
+    /// @dev With an oracle the price is read immediately, without one it has to be set with `setPrice`.
+    ///      Changing the oracle discards the cached price.
+    /// @param token The ERC-20 token
+    /// @param oracle Feed quoting 1 ETH in the token, zero for an owner-set price
+    /// @param markup Price markup over `MARKUP_DENOMINATOR`, e.g. 10500 for +5%
+    /// @param maxPriceAge Seconds a cached oracle price stays usable
+    function setToken(address token, IPriceOracle oracle, uint16 markup, uint32 maxPriceAge) external onlyOwner {
+        if (markup < MARKUP_DENOMINATOR || markup > MAX_MARKUP) {
+            revert InvalidMarkup(markup);
+        }
+
+        TokenConfig storage config = tokens[token];
+        // A price from another source must not outlive it
+        if (config.oracle != oracle) {
+            config.price = 0;
+            config.priceUpdatedAt = 0;
+        }
+        config.oracle = oracle;
+        config.maxPriceAge = maxPriceAge;
+        config.markup = markup;
+        config.enabled = true;
+        emit TokenConfigured(token, oracle, markup, maxPriceAge);
+
+        if (address(oracle) != address(0)) {
+            updatePrice(token);
+        }
+    }
+
+    /// @notice Removes a token from the whitelist
+    /// @param token The ERC-20 token
+    function removeToken(address token) external onlyOwner {
+        delete tokens[token];
+        emit TokenRemoved(token);
+    }
+
+    /// @notice Sets the price of a token without an oracle
+    /// @param token The ERC-20 token
+    /// @param price Token base units per 1 ETH
+    function setPrice(address token, uint256 price) external onlyOwner {
+        TokenConfig storage config = _enabledToken(token);
+        if (address(config.oracle) != address(0)) {
+            revert PriceFromOracle(token);
+        }
+        if (price == 0) {
+            revert InvalidPrice(token);
+        }
+        _cachePrice(token, config, price);
+    }
+
+    /// @notice Refreshes the cached price of a token from its oracle
+    /// @param token The ERC-20 token
+    function updatePrice(address token) public {
+        TokenConfig storage config = _enabledToken(token);
+        (bool ok, uint256 price) = _readOracle(token, config);
+        if (!ok) {
+            revert InvalidPrice(token);
+        }
+        _cachePrice(token, config, price);
+    }
+
+    /// @notice Converts a wei amount into the token amount charged for it, markup included
+    /// @param token The ERC-20 token
+    /// @param ethCost Amount in wei
+    /// @return The token amount at the cached price
+    function quoteTokenCost(address token, uint256 ethCost) public view returns (uint256) {
+        TokenConfig storage config = _enabledToken(token);
+        return _toTokenCost(ethCost, config.price, config.markup);
+    }
+
+    /// @notice Withdraws collected tokens
+    /// @param token The ERC-20 token
+    /// @param to The recipient
+    /// @param amount The token amount
+    function withdrawToken(address token, address to, uint256 amount) external onlyOwner {
+        IERC20(token).safeTransfer(to, amount);
+    }
+
+    // ============ Paymaster Functions ============
+
+    /// @inheritdoc BasePaymaster
+    function _validatePaymasterUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32,
+        uint256 maxCost
+    ) internal override returns (bytes memory context, uint256 validationData) {
+        (address token, uint256 maxTokenCost, TokenPermit memory permit) = _decodePaymasterData(
+            userOp.paymasterAndData[PAYMASTER_DATA_OFFSET:]
+        );
+        TokenConfig storage config = _enabledToken(token);
+        if (config.price == 0) {
+            revert InvalidPrice(token);
+        }
+
+        uint256 tokenCost = _toTokenCost(maxCost, config.price, config.markup);
+        if (tokenCost > maxTokenCost) {
+            revert TokenCostTooHigh(tokenCost, maxTokenCost);
+        }
+
+        uint256 balance = IERC20(token).balanceOf(userOp.sender);
+        if (balance < tokenCost) {
+            revert InsufficientTokenBalance(token, balance, tokenCost);
+        }
+        uint256 permitDeadline;
+        if (permit.signature.length != 0) {
+            // Anyone can redeem a permit once it is public, the allowance decides whether the operation is paid for
+            try
+                IERC20SignaturePermit(token).permit(
+                    userOp.sender,
+                    address(this),
+                    permit.value,
+                    permit.deadline,
+                    permit.signature
+                )
+            {
+                permitDeadline = permit.deadline;
+            } catch {}
+        }
+        uint256 allowance = IERC20(token).allowance(userOp.sender, address(this));
+        if (allowance < tokenCost) {
+            revert InsufficientTokenAllowance(token, allowance, tokenCost);
+        }
+        IERC20(token).safeTransferFrom(userOp.sender, address(this), tokenCost);
+
+        // Oracle prices expire with the cache, owner-set prices stay valid until changed. An operation
+        // redeeming a permit is only valid until the permit's deadline
+        uint48 validUntil = address(config.oracle) == address(0) ? 0 : config.priceUpdatedAt + config.maxPriceAge;
+        if (permitDeadline != 0 && (validUntil == 0 || permitDeadline < validUntil)) {
+            validUntil = uint48(Math.min(permitDeadline, type(uint48).max));
+        }
+
+        return (
+            abi.encode(userOp.sender, token, tokenCost, config.price, config.markup),
+            _packValidationData(false, validUntil, 0)
+        );
+    }
+
+    /// @inheritdoc BasePaymaster
+    /// @dev Charges at the price the operation was validated with, refunding what the prefund overpaid,
+    ///      then refreshes the cached price
+    function _postOp(
+        PostOpMode,
+        bytes calldata context,
+        uint256 actualGasCost,
+        uint256 actualUserOpFeePerGas
+    ) internal override {
+        (address sender, address token, uint256 prefund, uint256 price, uint16 markup) = abi.decode(
+            context,
+            (address, address, uint256, uint256, uint16)
+        );
+
+        uint256 tokenCost = _toTokenCost(actualGasCost + POST_OP_OVERHEAD_GAS * actualUserOpFeePerGas, price, markup);
+
+        if (prefund > tokenCost) {
+            IERC20(token).safeTransfer(sender, prefund - tokenCost);
+        } else {
+            tokenCost = prefund;
+        }
+        emit UserOperationCharged(sender, token, tokenCost, actualGasCost);
+
+        TokenConfig storage config = tokens[token];
+        if (config.enabled) {
+            (bool ok, uint256 latestPrice) = _readOracle(token, config);
+            if (ok && latestPrice != config.price) {
+                _cachePrice(token, config, latestPrice);
+            }
+        }
+    }
+
+    // ============ Internal Functions ============
+
+    /// @notice Decodes the paymaster data, with or without a permit
+    /// @param paymasterData The part of paymasterAndData after the gas limits
+    /// @return token The ERC-20 token
+    /// @return maxTokenCost The most the sender accepts to pay
+    /// @return permit The sender's permit, with an empty signature without one
+    function _decodePaymasterData(
+        bytes calldata paymasterData
+    ) internal pure returns (address token, uint256 maxTokenCost, TokenPermit memory permit) {
+        if (paymasterData.length == 64) {
+            (token, maxTokenCost) = abi.decode(paymasterData, (address, uint256));
+        } else if (paymasterData.length > 64) {
+            (token, maxTokenCost, permit) = abi.decode(paymasterData, (address, uint256, TokenPermit));
+        } else {
+            revert InvalidPaymasterData();
+        }
+    }
+
+    /// @notice Returns the settings of a whitelisted token
+    /// @param token The ERC-20 token
+    /// @return config The token settings
+    function _enabledToken(address token) internal view returns (TokenConfig storage config) {
+        config = tokens[token];
+        if (!config.enabled) {
+            revert UnsupportedToken(token);
+        }
+    }
+
+    /// @notice Reads the oracle of a token and converts its answer into token base units per 1 ETH
+    /// @param token The ERC-20 token
+    /// @param config The token settings
+    /// @return ok False without an oracle or for a non-positive or outdated answer
+    /// @return price Token base units per 1 ETH
+    function _readOracle(address token, TokenConfig storage config) internal view returns (bool ok, uint256 price) {
+        if (address(config.oracle) == address(0)) {
+            return (false, 0);
+        }
+
+        // A failing feed must not make postOp revert
+        try config.oracle.latestRoundData() returns (uint80, int256 answer, uint256, uint256 updatedAt, uint80) {
+            if (answer <= 0 || updatedAt + config.maxPriceAge < block.timestamp) {
+                return (false, 0);
+            }
+            price = uint256(answer);
+        } catch {
+            return (false, 0);
+        }
+
+        uint256 tokenDecimals = IERC20Metadata(token).decimals();
+        return (true, Math.mulDiv(price, 10 ** tokenDecimals, 10 ** config.oracle.decimals()));
+    }
+
+    /// @notice Stores the price of a token with the current timestamp
+    /// @param token The ERC-20 token
+    /// @param config The token settings
+    /// @param price Token base units per 1 ETH
+    function _cachePrice(address token, TokenConfig storage config, uint256 price) internal {
+        config.price = price;
+        config.priceUpdatedAt = uint48(block.timestamp);
+        emit PriceUpdated(token, price);
+    }
+
+    /// @notice Converts wei into token base units, rounding up in favor of the paymaster
+    /// @param ethCost Amount in wei
+    /// @param price Token base units per 1 ETH
+    /// @param markup Price markup over `MARKUP_DENOMINATOR`
+    /// @return The token amount
+    function _toTokenCost(uint256 ethCost, uint256 price, uint16 markup) internal pure returns (uint256) {
+        return Math.mulDiv(ethCost, price * markup, 1 ether * MARKUP_DENOMINATOR, Math.Rounding.Ceil);
+    }
+}
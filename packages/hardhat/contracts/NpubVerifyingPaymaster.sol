@@ -0,0 +1,201 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@account-abstraction/contracts/core/BasePaymaster.sol";
+import "@account-abstraction/contracts/core/Helpers.sol";
+
+import "./NostrSignatures.sol";
+
+/**
+ * @title NpubVerifyingPaymaster
+ * @notice Pays for UserOperations that carry a sponsorship voucher signed by a sponsor npub
+ * @dev A voucher grants a gas budget in wei to a set of senders for a period of time. The sponsor signs
+ *      the EIP-712 hash of the voucher as a kind-96024 Nostr event, the same way npub owners sign
+ *      UserOperations, so a voucher can be reused for several operations until its budget is spent.
+ *
+ *        paymasterAndData = paymaster || verificationGasLimit || postOpGasLimit || abi.encode(voucher, signature)
+ *
+ *      The maximum cost of an operation is reserved from the budget during validation and the
+ *      unused part is released in `postOp`, so operations bundled together cannot overspend a voucher.
+ * @author Senior Smart Contract Engineer
+ */
+contract NpubVerifyingPaymaster is BasePaymaster, EIP712 {
+    // ============ Constants ============
+
+    /// @notice EIP-712 typehash of a sponsorship voucher
+    bytes32 private constant SPONSORSHIP_VOUCHER_TYPEHASH =
+        keccak256(
+            "SponsorshipVoucher(uint256 sponsor,uint256 budget,address[] senders,uint48 validAfter,uint48 validUntil,uint256 salt)"
+        );
+
+    // ============ Structs ============
+
+    /// @notice Sponsor-signed conditions under which the paymaster pays for operations
+    /// @param sponsor The Nostr public key (x-coordinate) that signed the voucher
+    /// @param budget Total wei of gas the voucher pays for across all its operations
+    /// @param senders Accounts allowed to use the voucher, empty for any account
+    /// @param validAfter Timestamp from which the voucher can be used
+    /// @param validUntil Timestamp until which the voucher can be used, 0 for no expiry
+    /// @param salt Distinguishes vouchers with otherwise identical conditions
+    struct SponsorshipVoucher {
+        uint256 sponsor;
+        uint256 budget;
+        address[] senders;
+        uint48 validAfter;
+        uint48 validUntil;
+        uint256 salt;
+    }
+
+    // ============ State Variables ============
+
+    /// @notice Whether a Nostr public key may sign vouchers
+    mapping(uint256 => bool) public sponsors;
+
+    /// @notice Wei reserved or spent from each voucher, keyed by `voucherHash`
+    mapping(bytes32 => uint256) public voucherSpent;
+
+    // ============ Events ============
+
+    /// @notice Emitted when a sponsor key is allowed or disallowed
+    /// @param sponsor The Nostr public key of the sponsor
+    /// @param allowed Whether the sponsor may sign vouchers
+    event SponsorSet(uint256 indexed sponsor, bool allowed);
+
+    /// @notice Emitted when a sponsored operation has been paid for
+    /// @param voucherHash The voucher the gas was charged to
+    /// @param sender The account whose operation was sponsored
+    /// @param actualGasCost The wei charged to the voucher
+    event UserOperationSponsored(bytes32 indexed voucherHash, address indexed sender, uint256 actualGasCost);
+
+    // ============ Custom Errors ============
+
+    /// @notice Thrown when the voucher was signed by a key that is not a sponsor
+    error UnknownSponsor(uint256 sponsor);
+
+    /// @notice Thrown when the voucher does not cover the sender of the operation
+    error SenderNotSponsored(address sender);
+
+    /// @notice Thrown when the remaining budget of the voucher cannot cover the operation
+    error VoucherBudgetExceeded(bytes32 voucherHash, uint256 maxCost, uint256 remaining);
+
+    // ============ Constructor ============
+
+    /// @notice Creates the paymaster with an initial sponsor key, the deployer becomes the owner
+    /// @param anEntryPoint The EntryPoint contract address
+    /// @param sponsor Nostr public key allowed to sign vouchers, 0 for none
+    constructor(
+        IEntryPoint anEntryPoint,
+        uint256 sponsor
+    ) BasePaymaster(anEntryPoint) EIP712("NpubVerifyingPaymaster", "1") {
+        if (sponsor != 0) {
+            sponsors[sponsor] = true;
+            emit SponsorSet(sponsor, true);
+        }
+    }
+
+    /// @inheritdoc BasePaymaster
+    /// @dev Skipped because the paymaster is also deployed against EntryPoint v0.7, whose ERC-165
+    ///      interface id differs from the v0.8 `IEntryPoint` it is compiled with
+    function _validateEntryPointInterface(IEntryPoint) internal pure override {}
+
+    // ============ Sponsor Functions ============
+
+    /// @notice Allows or disallows a Nostr public key to sign vouchers
+    /// @dev Disallowing a sponsor invalidates every voucher it signed
+    /// @param sponsor The Nostr public key of the sponsor
+    /// @param allowed Whether the sponsor may sign vouchers
+    function setSponsor(uint256 sponsor, bool allowed) external onlyOwner {
+        sponsors[sponsor] = allowed;
+        emit SponsorSet(sponsor, allowed);
+    }
+
+    /// @notice Returns the EIP-712 hash of a voucher, the hash the sponsor signs
+    /// @param voucher The sponsorship voucher
+    /// @return The hash under the `NpubVerifyingPaymaster` domain of this paymaster and chain
+    function voucherHash(SponsorshipVoucher memory voucher) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        SPONSORSHIP_VOUCHER_TYPEHASH,
+                        voucher.sponsor,
+                        voucher.budget,
+                        keccak256(abi.encodePacked(voucher.senders)),
+                        voucher.validAfter,
+                        voucher.validUntil,
+                        voucher.salt
+                    )
+                )
+            );
+    }
+
+    /// @notice Returns the wei a voucher can still pay for
+    /// @param voucher The sponsorship voucher
+    /// @return The budget minus what is reserved or spent
+    function remainingBudget(SponsorshipVoucher memory voucher) external view returns (uint256) {
+        uint256 spent = voucherSpent[voucherHash(voucher)];
+        return spent >= voucher.budget ? 0 : voucher.budget - spent;
+    }
+
+    // ============ Paymaster Functions ============
+
+    /// @inheritdoc BasePaymaster
+    /// @dev Reverts for vouchers that can never pay for the operation, an invalid sponsor signature
+    ///      is reported through the validation data like an invalid account signature
+    function _validatePaymasterUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32,
+        uint256 maxCost
+    ) internal override returns (bytes memory context, uint256 validationData) {
+        (SponsorshipVoucher memory voucher, bytes memory signature) = abi.decode(
+            userOp.paymasterAndData[PAYMASTER_DATA_OFFSET:],
+            (SponsorshipVoucher, bytes)
+        );
+
+        if (!sponsors[voucher.sponsor]) {
+            revert UnknownSponsor(voucher.sponsor);
+        }
+        if (!_isSenderAllowed(voucher.senders, userOp.sender)) {
+            revert SenderNotSponsored(userOp.sender);
+        }
+
+        bytes32 hash = voucherHash(voucher);
+        if (!NostrSignatures.isValidNostrSignature(voucher.sponsor, signature, hash)) {
+            return ("", _packValidationData(true, voucher.validUntil, voucher.validAfter));
+        }
+
+        uint256 spent = voucherSpent[hash];
+        if (spent + maxCost > voucher.budget) {
+            revert VoucherBudgetExceeded(hash, maxCost, spent >= voucher.budget ? 0 : voucher.budget - spent);
+        }
+        voucherSpent[hash] = spent + maxCost;
+
+        return (
+            abi.encode(hash, userOp.sender, maxCost),
+            _packValidationData(false, voucher.validUntil, voucher.validAfter)
+        );
+    }
+
+    /// @inheritdoc BasePaymaster
+    /// @dev Replaces the reservation made during validation with the actual cost
+    function _postOp(PostOpMode, bytes calldata context, uint256 actualGasCost, uint256) internal override {
+        (bytes32 hash, address sender, uint256 maxCost) = abi.decode(context, (bytes32, address, uint256));
+        voucherSpent[hash] = voucherSpent[hash] - maxCost + actualGasCost;
+        emit UserOperationSponsored(hash, sender, actualGasCost);
+    }
+
+    // ============ Internal Functions ============
+
+    /// @notice Checks whether a voucher covers a sender
+    /// @param senders The senders of the voucher, empty for any
+    /// @param sender The sender of the operation
+    /// @return True if the sender may use the voucher
+    function _isSenderAllowed(address[] memory senders, address sender) internal pure returns (bool) {
+        if (senders.length == 0) return true;
+        for (uint256 i = 0; i < senders.length; i++) {
+            if (senders[i] == sender) return true;
+        }
+        return false;
+    }
+}
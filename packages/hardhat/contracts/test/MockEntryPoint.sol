@@ -23,5 +23,3 @@ contract MockEntryPoint {
         return _balances[account];
     }
 }
-
-
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+contract MockPriceOracle {
+    uint8 public immutable decimals;
+    int256 private _answer;
+    uint256 private _updatedAt;
+
+    constructor(uint8 decimals_, int256 answer) {
+        decimals = decimals_;
+        setAnswer(answer);
+    }
+
+    function setAnswer(int256 answer) public {
+        _answer = answer;
+        _updatedAt = block.timestamp;
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (1, _answer, _updatedAt, _updatedAt, 1);
+    }
+}
@@ -17,17 +17,19 @@ library HexStrings {
      * @notice Always returns a string with leading zeros if value is less than 2^256-1
      */
     function toHexString(uint256 value) internal pure returns (string memory) {
+        string memory result;
+
         // Use assembly for maximum gas optimization
-        assembly {
+        assembly ("memory-safe") {
             // Allocate memory: 32 bytes (length) + 64 bytes (data) = 96 bytes total
-            let ptr := mload(0x40)
-            mstore(0x40, add(ptr, 0x60)) // Update free memory pointer
+            result := mload(0x40)
+            mstore(0x40, add(result, 0x60)) // Update free memory pointer
             
             // Store string length (64 characters)
-            mstore(ptr, 0x40)
+            mstore(result, 0x40)
             
             // Calculate data pointer (skip 32-byte length field)
-            let dataPtr := add(ptr, 0x20)
+            let dataPtr := add(result, 0x20)
             
             // Process all 64 nibbles (4 bits each) from right to left
             for { let i := 0x40 } gt(i, 0) { i := sub(i, 1) } {
@@ -47,10 +49,9 @@ library HexStrings {
                 // Shift value right by 4 bits for next nibble
                 value := shr(4, value)
             }
-            
-            // Return the complete string (ptr + length)
-            return(ptr, 0x60)
         }
+
+        return result;
     }
 
     /**
@@ -90,6 +91,28 @@ library HexStrings {
         return string(buffer);
     }
 
+    /**
+     * @dev Converts an `address` to its lowercase ASCII `string` hexadecimal representation with "0x" prefix.
+     * @param account The address to convert
+     * @return A 42-character string ("0x" followed by 40 hex chars)
+     */
+    function toHexString(address account) internal pure returns (string memory) {
+        bytes memory buffer = new bytes(42);
+        buffer[0] = "0";
+        buffer[1] = "x";
+
+        uint256 value = uint256(uint160(account));
+        for (uint256 i = 41; i > 1; ) {
+            unchecked {
+                buffer[i] = _SYMBOLS[value & 0xf];
+                value >>= 4;
+                --i;
+            }
+        }
+
+        return string(buffer);
+    }
+
     /**
      * @dev Converts a `uint256` to its ASCII `string` hexadecimal representation with "0x" prefix.
      * @param value The uint256 value to convert
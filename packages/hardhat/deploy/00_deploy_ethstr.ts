@@ -2,12 +2,16 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 import * as fs from "fs";
 import * as path from "path";
+import { getEntryPoint } from "../scripts/entryPoints";
 
 /**
  * Deploys the Nostr Account Abstraction contracts
  *
  * Deployment order:
  * 1. NpubAccountFactory (which internally deploys NpubAccount implementation)
+ * 2. NpubMultisigAccountFactory (which internally deploys NpubMultisigAccount implementation)
+ * 3. NpubVerifyingPaymaster, sponsoring with the npub in PAYMASTER_SPONSOR_PUBKEY (hex x-only key)
+ * 4. NpubTokenPaymaster, gas tokens are whitelisted afterwards with setToken
  *x
  * @param hre HardhatRuntimeEnvironment object.
  */
@@ -18,14 +22,14 @@ const deployNpubContracts: DeployFunction = async function (hre: HardhatRuntimeE
   console.log("\n📦 Deploying Nostr Account Abstraction contracts...");
   console.log("🔑 Deployer address:", deployer);
 
-  // Get the EntryPoint address (v0.7.0)
-  // This is the canonical EntryPoint address deployed on most networks
-  const ENTRY_POINT_V07 = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+  // v0.7 by default, override with ENTRY_POINT_VERSION=0.8
+  const entryPoint = getEntryPoint(hre.network.name);
+  console.log(`🔗 EntryPoint v${entryPoint.version}:`, entryPoint.address);
 
   console.log("\n1️⃣ Deploying NpubAccountFactory...");
   const factory = await deploy("NpubAccountFactory", {
     from: deployer,
-    args: [ENTRY_POINT_V07],
+    args: [entryPoint.address],
     log: true,
     autoMine: true,
   });
@@ -39,11 +43,52 @@ const deployNpubContracts: DeployFunction = async function (hre: HardhatRuntimeE
   const accountImplementation = await factoryContract.accountImplementation();
   console.log("✅ NpubAccount implementation deployed at:", accountImplementation);
 
+  console.log("\n2️⃣ Deploying NpubMultisigAccountFactory...");
+  const multisigFactory = await deploy("NpubMultisigAccountFactory", {
+    from: deployer,
+    args: [entryPoint.address],
+    log: true,
+    autoMine: true,
+  });
+
+  console.log("✅ NpubMultisigAccountFactory deployed at:", multisigFactory.address);
+
+  console.log("\n3️⃣ Deploying NpubVerifyingPaymaster...");
+  const sponsorPubkey = process.env.PAYMASTER_SPONSOR_PUBKEY ? `0x${process.env.PAYMASTER_SPONSOR_PUBKEY}` : 0n;
+  const paymaster = await deploy("NpubVerifyingPaymaster", {
+    from: deployer,
+    args: [entryPoint.address, sponsorPubkey],
+    log: true,
+    autoMine: true,
+  });
+
+  console.log("✅ NpubVerifyingPaymaster deployed at:", paymaster.address);
+  if (!process.env.PAYMASTER_SPONSOR_PUBKEY) {
+    console.log("⚠️  No PAYMASTER_SPONSOR_PUBKEY set, add a sponsor with setSponsor before issuing vouchers");
+  }
+  console.log("💡 Fund the paymaster with deposit() and stake it with addStake() before bundlers accept it");
+
+  console.log("\n4️⃣ Deploying NpubTokenPaymaster...");
+  const tokenPaymaster = await deploy("NpubTokenPaymaster", {
+    from: deployer,
+    args: [entryPoint.address],
+    log: true,
+    autoMine: true,
+  });
+
+  console.log("✅ NpubTokenPaymaster deployed at:", tokenPaymaster.address);
+  console.log(
+    "💡 Whitelist gas tokens with setToken(token, oracle, markup, maxPriceAge), then deposit() and addStake()",
+  );
+
   console.log("\n🎉 Deployment complete!");
   console.log("────────────────────────────────────────");
   console.log("NpubAccountFactory:", factory.address);
   console.log("NpubAccount Implementation:", accountImplementation);
-  console.log("EntryPoint:", ENTRY_POINT_V07);
+  console.log("NpubMultisigAccountFactory:", multisigFactory.address);
+  console.log("NpubVerifyingPaymaster:", paymaster.address);
+  console.log("NpubTokenPaymaster:", tokenPaymaster.address);
+  console.log(`EntryPoint v${entryPoint.version}:`, entryPoint.address);
   console.log("────────────────────────────────────────\n");
 
   // Save addresses to a simple JSON file for easy frontend access
@@ -62,7 +107,11 @@ const deployNpubContracts: DeployFunction = async function (hre: HardhatRuntimeE
     chainId: (await hre.ethers.provider.getNetwork()).chainId.toString(),
     NpubAccountFactory: factory.address,
     NpubAccountImplementation: accountImplementation.toString(),
-    EntryPoint: ENTRY_POINT_V07,
+    NpubMultisigAccountFactory: multisigFactory.address,
+    NpubVerifyingPaymaster: paymaster.address,
+    NpubTokenPaymaster: tokenPaymaster.address,
+    EntryPoint: entryPoint.address,
+    EntryPointVersion: entryPoint.version,
     deployedAt: new Date().toISOString(),
   };
 
@@ -101,4 +150,10 @@ const deployNpubContracts: DeployFunction = async function (hre: HardhatRuntimeE
 
 export default deployNpubContracts;
 
-deployNpubContracts.tags = ["NpubContracts", "NpubAccountFactory"];
+deployNpubContracts.tags = [
+  "NpubContracts",
+  "NpubAccountFactory",
+  "NpubMultisigAccountFactory",
+  "NpubVerifyingPaymaster",
+  "NpubTokenPaymaster",
+];
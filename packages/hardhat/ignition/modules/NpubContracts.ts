@@ -1,13 +1,15 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
-
-// EntryPoint v0.7.0 - canonical address on most networks
-const ENTRY_POINT_V07 = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+import { ENTRY_POINT_V07 } from "../../scripts/entryPoints";
 
 const NpubContractsModule = buildModule("NpubContracts", m => {
+  // EntryPoint v0.7 unless overridden with the "entryPoint" parameter
+  const entryPoint = m.getParameter("entryPoint", ENTRY_POINT_V07);
+
   // Deploy NpubAccountFactory with EntryPoint address
-  const factory = m.contract("NpubAccountFactory", [ENTRY_POINT_V07]);
+  const factory = m.contract("NpubAccountFactory", [entryPoint]);
+  const multisigFactory = m.contract("NpubMultisigAccountFactory", [entryPoint]);
 
-  return { factory };
+  return { factory, multisigFactory };
 });
 
 export default NpubContractsModule;
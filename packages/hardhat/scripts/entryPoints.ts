@@ -0,0 +1,29 @@
+// Canonical EntryPoint deployments, same address on every network
+export const ENTRY_POINT_V07 = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+export const ENTRY_POINT_V08 = "0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108";
+
+export type EntryPointVersion = "0.7" | "0.8";
+
+const ENTRY_POINTS: Record<EntryPointVersion, string> = {
+  "0.7": ENTRY_POINT_V07,
+  "0.8": ENTRY_POINT_V08,
+};
+
+// Networks whose frontend config expects a factory wired to v0.8
+const NETWORK_ENTRY_POINT_VERSION: Record<string, EntryPointVersion> = {
+  base: "0.8",
+};
+
+/**
+ * Returns the EntryPoint a factory should be deployed against on the given network.
+ * ENTRY_POINT_VERSION overrides the per-network default (v0.7).
+ */
+export function getEntryPoint(network: string): { version: EntryPointVersion; address: string } {
+  const override = process.env.ENTRY_POINT_VERSION;
+  if (override && !(override in ENTRY_POINTS)) {
+    throw new Error(`Unsupported ENTRY_POINT_VERSION "${override}", expected one of: ${Object.keys(ENTRY_POINTS)}`);
+  }
+
+  const version = (override as EntryPointVersion | undefined) ?? NETWORK_ENTRY_POINT_VERSION[network] ?? "0.7";
+  return { version, address: ENTRY_POINTS[version] };
+}
@@ -1,7 +1,6 @@
 import * as fs from "fs";
 import * as path from "path";
-
-const ENTRY_POINT_ADDRESS = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+import { EntryPointVersion, getEntryPoint } from "./entryPoints";
 
 const NETWORK_CONFIG: Record<string, { chainId: number; name: string }> = {
   sepolia: { chainId: 11155111, name: "sepolia" },
@@ -14,6 +13,7 @@ interface NetworkConfig {
   NpubAccountFactory: string;
   NpubAccountImplementation: string;
   EntryPoint: string;
+  EntryPointVersion: EntryPointVersion;
 }
 
 interface ConfigFile {
@@ -47,6 +47,7 @@ async function updateContractsConfig() {
 
   // Update each network's contracts
   for (const [networkKey, networkInfo] of Object.entries(NETWORK_CONFIG)) {
+    const entryPoint = getEntryPoint(networkKey);
     const networkDir = path.join(deploymentsDir, networkKey);
 
     if (!fs.existsSync(networkDir)) {
@@ -56,7 +57,8 @@ async function updateContractsConfig() {
           chainId: networkInfo.chainId,
           NpubAccountFactory: "",
           NpubAccountImplementation: "",
-          EntryPoint: ENTRY_POINT_ADDRESS,
+          EntryPoint: entryPoint.address,
+          EntryPointVersion: entryPoint.version,
         };
       }
       continue;
@@ -77,7 +79,8 @@ async function updateContractsConfig() {
         chainId: networkInfo.chainId,
         NpubAccountFactory: factoryDeployment.address,
         NpubAccountImplementation: implementationAddress,
-        EntryPoint: ENTRY_POINT_ADDRESS,
+        EntryPoint: entryPoint.address,
+        EntryPointVersion: entryPoint.version,
       };
 
       console.log(`✅ Updated ${networkInfo.name} contracts`);
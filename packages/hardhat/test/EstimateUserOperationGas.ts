@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { type Hex, createPublicClient, custom, toHex } from "viem";
+import type { UserOperation } from "viem/account-abstraction";
+import { estimateNostrUserOperationGas } from "../../nextjs/services/estimateUserOperationGas";
+
+// Margins the wallet adds to the bundler's gas estimate of a Nostr account's UserOperation
+describe("estimateNostrUserOperationGas", function () {
+  const entryPointAddress = "0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108";
+  const client = createPublicClient({
+    transport: custom({
+      request: async () => {
+        throw new Error("The estimate only goes through the bundler");
+      },
+    }),
+  });
+
+  const bundlerEstimate = {
+    callGasLimit: 100_000n,
+    verificationGasLimit: 200_000n,
+    preVerificationGas: 50_000n,
+    paymasterVerificationGasLimit: 40_000n,
+    paymasterPostOpGasLimit: 30_000n,
+  };
+
+  const userOperation: UserOperation = {
+    sender: "0x000000000000000000000000000000000000dEaD",
+    nonce: 0n,
+    callData: "0x",
+    callGasLimit: 0n,
+    verificationGasLimit: 0n,
+    preVerificationGas: 0n,
+    maxFeePerGas: 1_000_000_000n,
+    maxPriorityFeePerGas: 1_000_000n,
+    signature: "0x",
+  };
+
+  const estimateResponse: Record<string, Hex> = Object.fromEntries(
+    Object.entries(bundlerEstimate).map(([field, gas]) => [field, toHex(gas)]),
+  );
+
+  // Bundler answering eth_estimateUserOperationGas with `bundlerEstimate`, or failing with `error`
+  const mockBundler = (error?: Error) => {
+    const requests: { method: string; params: unknown }[] = [];
+    const transport = custom(
+      {
+        request: async ({ method, params }) => {
+          requests.push({ method, params });
+          if (error) throw error;
+          return estimateResponse;
+        },
+      },
+      { retryCount: 0 },
+    );
+    return { transport, requests };
+  };
+
+  it("Should add 10% to the call and verification gas of a deployed account", async function () {
+    const { transport, requests } = mockBundler();
+    const gas = await estimateNostrUserOperationGas(client, transport, entryPointAddress, userOperation);
+
+    expect(requests.map(request => request.method)).to.deep.equal(["eth_estimateUserOperationGas"]);
+    expect(gas).to.deep.equal({
+      callGasLimit: 110_000n,
+      verificationGasLimit: 220_000n,
+      preVerificationGas: 50_000n,
+    });
+  });
+
+  it("Should add 25% to the verification gas of an account deployed by the operation", async function () {
+    const { transport } = mockBundler();
+    const gas = await estimateNostrUserOperationGas(client, transport, entryPointAddress, {
+      ...userOperation,
+      factory: "0xaCeEF9bf23b41D4898516D2Fdcd7b4BDc22444D7",
+      factoryData: "0x5fbfb9cf",
+    });
+
+    expect(gas.callGasLimit).to.equal(110_000n);
+    expect(gas.verificationGasLimit).to.equal(250_000n);
+    expect(gas.preVerificationGas).to.equal(50_000n);
+  });
+
+  it("Should add 25% to the verification gas of an operation carrying initCode", async function () {
+    const { transport } = mockBundler();
+    const gas = await estimateNostrUserOperationGas(client, transport, entryPointAddress, {
+      ...userOperation,
+      initCode: "0xaceef9bf23b41d4898516d2fdcd7b4bdc22444d75fbfb9cf",
+    });
+
+    expect(gas.verificationGasLimit).to.equal(250_000n);
+  });
+
+  it("Should keep the gas limits a paymaster fixed and take the others from the estimate", async function () {
+    const { transport } = mockBundler();
+    const paymaster = "0x000000000000000000000000000000000000bEEF";
+    const gas = await estimateNostrUserOperationGas(client, transport, entryPointAddress, {
+      ...userOperation,
+      paymaster,
+      paymasterData: "0x",
+      paymasterPostOpGasLimit: 60_000n,
+    });
+
+    expect(gas.paymasterVerificationGasLimit).to.equal(40_000n);
+    expect(gas.paymasterPostOpGasLimit).to.equal(60_000n);
+  });
+
+  it("Should fail when the bundler cannot estimate the operation", async function () {
+    const { transport } = mockBundler(new Error("AA23 reverted"));
+    let error: Error | undefined;
+    try {
+      await estimateNostrUserOperationGas(client, transport, entryPointAddress, userOperation);
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.contain("AA23 reverted");
+  });
+});
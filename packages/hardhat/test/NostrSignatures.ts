@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import hre from "hardhat";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
 import { NostrSignaturesTest } from "../typechain-types";
 
 describe("NostrSignatures Library", function () {
@@ -45,6 +46,17 @@ describe("NostrSignatures Library", function () {
       ).to.be.revertedWithCustomError(nostrSignaturesTest, "SignatureVerificationFailed");
     });
 
+    it("Should verify a kind-96024 event signed by a Nostr key", async function () {
+      const secretKey = generateSecretKey();
+      const owner = `0x${getPublicKey(secretKey)}`;
+      const userOpHash = hre.ethers.hexlify(hre.ethers.randomBytes(32));
+      const event = finalizeEvent({ kind: 96024, created_at: 0, tags: [], content: userOpHash.slice(2) }, secretKey);
+
+      await expect(nostrSignaturesTest.verifyNostrSignature(owner, `0x${event.sig}`, userOpHash))
+        .to.emit(nostrSignaturesTest, "NostrSignatureVerified")
+        .withArgs(owner, userOpHash);
+    });
+
     it("Should emit NostrSignatureVerified event on successful verification", async function () {
       // Note: This test would need a valid signature to pass
       // For now, we'll test the event emission structure
@@ -0,0 +1,179 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import { type Hex, createPublicClient, custom, encodeFunctionData, hashMessage, hashTypedData, parseEther } from "viem";
+import { getUserOperationHash, toPackedUserOperation } from "viem/account-abstraction";
+import { type NostrSigner, createLocalKeySigner } from "../../nextjs/services/nostrSigner";
+import { toNostrSmartAccount } from "../../nextjs/services/nostrSmartAccount";
+import { NpubAccount, NpubAccountFactory } from "../typechain-types";
+
+// The wallet's smart account signing UserOperations the way NpubAccount validates them
+describe("NostrSmartAccount", function () {
+  const secretKey = generateSecretKey();
+  const ownerKey = `0x${getPublicKey(secretKey)}` as Hex;
+  const target = "0x000000000000000000000000000000000000dEaD";
+  let npubAccountFactory: NpubAccountFactory;
+  let account: NpubAccount;
+  let entryPointAddress: Hex;
+  let entryPointSigner: any;
+
+  const executeCall = encodeFunctionData({
+    abi: [
+      {
+        type: "function",
+        name: "execute",
+        inputs: [
+          { name: "target", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "data", type: "bytes" },
+        ],
+        outputs: [],
+        stateMutability: "nonpayable",
+      },
+    ],
+    functionName: "execute",
+    args: [target, parseEther("0.1"), "0x"],
+  });
+
+  // Signs like the wallet and validates the result as the EntryPoint would
+  const validateSignedBy = async (signer: NostrSigner, typedSignatures?: boolean) => {
+    const client = createPublicClient({ transport: custom(hre.network.provider) });
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    const smartAccount = await toNostrSmartAccount({
+      client,
+      owner: ownerKey,
+      address: account.target as Hex,
+      signer,
+      entryPoint: { address: entryPointAddress, version: "0.8" },
+      typedSignatures,
+    });
+
+    const userOperation = {
+      sender: smartAccount.address,
+      nonce: 0n,
+      callData: executeCall,
+      callGasLimit: 100_000n,
+      verificationGasLimit: 500_000n,
+      preVerificationGas: 50_000n,
+      maxFeePerGas: 1_000_000_000n,
+      maxPriorityFeePerGas: 1_000_000n,
+    };
+    const signature = await smartAccount.signUserOperation({ ...userOperation, chainId });
+    expect(hre.ethers.dataLength(signature)).to.equal(typedSignatures === false ? 64 : 65);
+    const userOpHash = getUserOperationHash({
+      userOperation: { ...userOperation, signature },
+      entryPointAddress,
+      entryPointVersion: "0.8",
+      chainId,
+    });
+
+    return account
+      .connect(entryPointSigner)
+      .validateUserOp.staticCall(toPackedUserOperation({ ...userOperation, signature }), userOpHash, 0);
+  };
+
+  before(async () => {
+    const mock = await (await hre.ethers.getContractFactory("MockEntryPoint")).deploy();
+    entryPointAddress = (await mock.getAddress()) as Hex;
+    npubAccountFactory = (await (
+      await hre.ethers.getContractFactory("NpubAccountFactory")
+    ).deploy(entryPointAddress)) as NpubAccountFactory;
+
+    await (await npubAccountFactory.createAccount(ownerKey, 0)).wait();
+    const addr = await npubAccountFactory.getFunction("getAddress")(ownerKey, 0);
+    account = (await hre.ethers.getContractAt("NpubAccount", addr)) as unknown as NpubAccount;
+
+    await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [entryPointAddress] });
+    await hre.network.provider.request({
+      method: "hardhat_setBalance",
+      params: [entryPointAddress, "0xde0b6b3a7640000"],
+    });
+    entryPointSigner = await hre.ethers.getSigner(entryPointAddress);
+  });
+
+  it("Should sign UserOperations the account accepts with a raw signature from a local key", async function () {
+    expect(await validateSignedBy(createLocalKeySigner(secretKey))).to.equal(0n);
+  });
+
+  it("Should sign UserOperations the account accepts as tagged events without signSchnorr", async function () {
+    const { signSchnorr, ...eventSigner } = createLocalKeySigner(secretKey);
+    expect(signSchnorr).to.not.equal(undefined);
+    expect(await validateSignedBy(eventSigner)).to.equal(0n);
+  });
+
+  it("Should sign the 64-byte untagged event for accounts without typed signatures", async function () {
+    expect(await validateSignedBy(createLocalKeySigner(secretKey), false)).to.equal(0n);
+  });
+
+  it("Should refuse to sign with a key that does not own the account", async function () {
+    let error: Error | undefined;
+    try {
+      await validateSignedBy(createLocalKeySigner(generateSecretKey()));
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.contain("but this account is owned by");
+  });
+
+  it("Should sign messages with their contents while spending limits are set, which refuses permits", async function () {
+    const accountAddress = account.target as Hex;
+    await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [accountAddress] });
+    await hre.network.provider.request({ method: "hardhat_setBalance", params: [accountAddress, "0xde0b6b3a7640000"] });
+    await (await account.connect(await hre.ethers.getSigner(accountAddress)).setSpendingLimit(target, 100, 0)).wait();
+
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    const smartAccount = await toNostrSmartAccount({
+      client: createPublicClient({ transport: custom(hre.network.provider) }),
+      owner: ownerKey,
+      address: accountAddress,
+      signer: createLocalKeySigner(secretKey),
+      entryPoint: { address: entryPointAddress, version: "0.8" },
+    });
+
+    // Nested structs and arrays, so the whole message encoding is checked on-chain
+    const mail = {
+      domain: { name: "Ether Mail", version: "1", chainId, verifyingContract: target },
+      types: {
+        Person: [
+          { name: "name", type: "string" },
+          { name: "wallets", type: "address[]" },
+        ],
+        Mail: [
+          { name: "from", type: "Person" },
+          { name: "to", type: "Person[]" },
+          { name: "contents", type: "string" },
+          { name: "attachment", type: "bytes" },
+        ],
+      },
+      primaryType: "Mail",
+      message: {
+        from: { name: "Alice", wallets: [target] },
+        to: [{ name: "Bob", wallets: [target, accountAddress] }],
+        contents: "Hello, Bob!",
+        attachment: "0x1234",
+      },
+    } as const;
+    const mailSignature = await smartAccount.signTypedData(mail);
+    expect(await account.isValidSignature(hashTypedData(mail), mailSignature)).to.equal("0x1626ba7e");
+
+    const messageSignature = await smartAccount.signMessage({ message: "Sign in to ethstr" });
+    expect(await account.isValidSignature(hashMessage("Sign in to ethstr"), messageSignature)).to.equal("0x1626ba7e");
+
+    const permit = {
+      domain: { name: "USD Coin", version: "2", chainId, verifyingContract: target },
+      types: {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      primaryType: "Permit",
+      message: { owner: accountAddress, spender: target, value: 100n, nonce: 0n, deadline: 1n },
+    } as const;
+    const permitSignature = await smartAccount.signTypedData(permit);
+    expect(await account.isValidSignature(hashTypedData(permit), permitSignature)).to.equal("0xffffffff");
+  });
+});
@@ -1,5 +1,7 @@
+import { schnorr } from "@noble/curves/secp256k1";
 import { expect } from "chai";
 import hre from "hardhat";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
 import { NpubAccount, NpubAccountFactory } from "../typechain-types";
 
 describe("NpubAccount", function () {
@@ -178,6 +180,985 @@ describe("NpubAccount", function () {
     });
   });
 
+  describe("ERC-1271 Signatures", function () {
+    const nostrSecretKey = generateSecretKey();
+    const nostrOwner = `0x${getPublicKey(nostrSecretKey)}`;
+    let nostrAccount: NpubAccount;
+    let siblingAccount: NpubAccount;
+
+    // Signs `hash` the way the Nostr extension does: as the content of a kind-96024 event
+    const signNostrHash = (hash: string) =>
+      `0x${finalizeEvent({ kind: 96024, created_at: 0, tags: [], content: hash.slice(2) }, nostrSecretKey).sig}`;
+
+    before(async () => {
+      await (await npubAccountFactory.createAccount(nostrOwner, 0)).wait();
+      await (await npubAccountFactory.createAccount(nostrOwner, 1)).wait();
+      const getAccountAddress = npubAccountFactory.getFunction("getAddress");
+      nostrAccount = (await hre.ethers.getContractAt(
+        "NpubAccount",
+        await getAccountAddress(nostrOwner, 0),
+      )) as unknown as NpubAccount;
+      siblingAccount = (await hre.ethers.getContractAt(
+        "NpubAccount",
+        await getAccountAddress(nostrOwner, 1),
+      )) as unknown as NpubAccount;
+    });
+
+    it("Should return the magic value for a valid owner signature", async function () {
+      const hash = hre.ethers.hashMessage("Sign in to ethstr");
+      const signature = signNostrHash(await nostrAccount.replaySafeHash(hash));
+
+      expect(await nostrAccount.isValidSignature(hash, signature)).to.equal("0x1626ba7e");
+    });
+
+    it("Should bind the replay-safe hash to the account and chain", async function () {
+      const hash = hre.ethers.hashMessage("Sign in to ethstr");
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const expected = hre.ethers.TypedDataEncoder.hash(
+        { name: "NpubAccount", version: "1", chainId, verifyingContract: await nostrAccount.getAddress() },
+        { NpubMessage: [{ name: "hash", type: "bytes32" }] },
+        { hash },
+      );
+
+      expect(await nostrAccount.replaySafeHash(hash)).to.equal(expected);
+      expect(await siblingAccount.replaySafeHash(hash)).to.not.equal(expected);
+    });
+
+    it("Should reject a signature made for another account of the same owner", async function () {
+      const hash = hre.ethers.hashMessage("Sign in to ethstr");
+      const signature = signNostrHash(await nostrAccount.replaySafeHash(hash));
+
+      expect(await siblingAccount.isValidSignature(hash, signature)).to.equal("0xffffffff");
+    });
+
+    it("Should reject a signature over the raw message hash", async function () {
+      const hash = hre.ethers.hashMessage("Sign in to ethstr");
+
+      expect(await nostrAccount.isValidSignature(hash, signNostrHash(hash))).to.equal("0xffffffff");
+    });
+
+    it("Should reject signatures with an invalid length", async function () {
+      const hash = hre.ethers.hashMessage("Sign in to ethstr");
+      const signature = hre.ethers.hexlify(hre.ethers.randomBytes(65));
+
+      expect(await nostrAccount.isValidSignature(hash, signature)).to.equal("0xffffffff");
+    });
+  });
+
+  describe("Social Recovery", function () {
+    const ownerKey = `0x${getPublicKey(generateSecretKey())}`;
+    const newOwner = `0x${getPublicKey(generateSecretKey())}`;
+    const guardianSecretKey = generateSecretKey();
+    const npubGuardian = `0x${getPublicKey(guardianSecretKey)}`;
+    const delay = 24 * 60 * 60;
+    let account: NpubAccount;
+    let accountSigner: any;
+    let addressGuardian: any;
+    let stranger: any;
+    let salt = 100;
+
+    const signRecovery = async (hash: string) =>
+      `0x${finalizeEvent({ kind: 96024, created_at: 0, tags: [], content: hash.slice(2) }, guardianSecretKey).sig}`;
+
+    // onlyOwner functions are reached through execute(), i.e. with the account itself as the caller
+    beforeEach(async () => {
+      [, , addressGuardian, stranger] = await hre.ethers.getSigners();
+      salt += 1;
+      await (await npubAccountFactory.createAccount(ownerKey, salt)).wait();
+      const addr = await npubAccountFactory.getFunction("getAddress")(ownerKey, salt);
+      account = (await hre.ethers.getContractAt("NpubAccount", addr)) as unknown as NpubAccount;
+
+      await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [addr] });
+      await hre.network.provider.request({ method: "hardhat_setBalance", params: [addr, "0xde0b6b3a7640000"] });
+      accountSigner = await hre.ethers.getSigner(addr);
+
+      await account.connect(accountSigner).setGuardians([addressGuardian.address], [npubGuardian], 2, delay);
+    });
+
+    it("Should store the guardian configuration", async function () {
+      const [addressGuardians, npubGuardians] = await account.getGuardians();
+
+      expect(addressGuardians).to.deep.equal([addressGuardian.address]);
+      expect(npubGuardians.map(g => hre.ethers.toBeHex(g, 32))).to.deep.equal([npubGuardian]);
+      expect(await account.recoveryThreshold()).to.equal(2);
+      expect(await account.recoveryDelay()).to.equal(delay);
+    });
+
+    it("Should restrict guardian configuration to the owner", async function () {
+      await expect(account.setGuardians([stranger.address], [], 1, 0)).to.be.revertedWithCustomError(
+        account,
+        "UnauthorizedCaller",
+      );
+    });
+
+    it("Should reject a threshold larger than the guardian count", async function () {
+      await expect(
+        account.connect(accountSigner).setGuardians([addressGuardian.address], [], 2, 0),
+      ).to.be.revertedWithCustomError(account, "InvalidGuardianConfig");
+    });
+
+    it("Should rotate the owner after the threshold and timelock", async function () {
+      await account.connect(addressGuardian).approveRecovery(newOwner);
+      const signature = await signRecovery(await account.recoveryHash(newOwner));
+      await expect(account.connect(stranger).approveRecoveryWithSignature(npubGuardian, newOwner, signature)).to.emit(
+        account,
+        "RecoveryScheduled",
+      );
+
+      await expect(account.executeRecovery()).to.be.revertedWithCustomError(account, "RecoveryTimelockActive");
+
+      await hre.network.provider.send("evm_increaseTime", [delay]);
+      await expect(account.executeRecovery())
+        .to.emit(account, "RecoveryExecuted")
+        .withArgs(ownerKey, newOwner)
+        .and.to.emit(account, "OwnerChanged")
+        .withArgs(ownerKey, newOwner);
+      expect(hre.ethers.toBeHex(await account.owner(), 32)).to.equal(newOwner);
+    });
+
+    it("Should not execute a recovery below the threshold", async function () {
+      await account.connect(addressGuardian).approveRecovery(newOwner);
+
+      await expect(account.executeRecovery()).to.be.revertedWithCustomError(account, "NoPendingRecovery");
+    });
+
+    it("Should reject approvals from non-guardians", async function () {
+      await expect(account.connect(stranger).approveRecovery(newOwner)).to.be.revertedWithCustomError(
+        account,
+        "NotGuardian",
+      );
+    });
+
+    it("Should reject a guardian approving twice", async function () {
+      await account.connect(addressGuardian).approveRecovery(newOwner);
+
+      await expect(account.connect(addressGuardian).approveRecovery(newOwner)).to.be.revertedWithCustomError(
+        account,
+        "RecoveryAlreadyApproved",
+      );
+    });
+
+    it("Should not let a guardian proposing another owner block the recovery", async function () {
+      const [, , , , secondGuardian] = await hre.ethers.getSigners();
+      await account
+        .connect(accountSigner)
+        .setGuardians([addressGuardian.address, secondGuardian.address], [npubGuardian], 2, delay);
+
+      // A rogue guardian gets its proposal in first
+      const rogueOwner = `0x${getPublicKey(generateSecretKey())}`;
+      await account.connect(addressGuardian).approveRecovery(rogueOwner);
+
+      await account.connect(secondGuardian).approveRecovery(newOwner);
+      const signature = await signRecovery(await account.recoveryHash(newOwner));
+      await expect(account.approveRecoveryWithSignature(npubGuardian, newOwner, signature)).to.emit(
+        account,
+        "RecoveryScheduled",
+      );
+      expect(await account.recoveryApprovals(rogueOwner)).to.equal(1);
+
+      await hre.network.provider.send("evm_increaseTime", [delay]);
+      await account.executeRecovery();
+      expect(hre.ethers.toBeHex(await account.owner(), 32)).to.equal(newOwner);
+    });
+
+    it("Should let a guardian move its approval to another owner", async function () {
+      const firstOwner = `0x${getPublicKey(generateSecretKey())}`;
+      await account.connect(addressGuardian).approveRecovery(firstOwner);
+      await account.connect(addressGuardian).approveRecovery(newOwner);
+
+      expect(await account.recoveryApprovals(firstOwner)).to.equal(0);
+      expect(await account.recoveryApprovals(newOwner)).to.equal(1);
+    });
+
+    it("Should reject an approval for a different owner than the scheduled one", async function () {
+      await account.connect(addressGuardian).approveRecovery(newOwner);
+      const signature = await signRecovery(await account.recoveryHash(newOwner));
+      await account.approveRecoveryWithSignature(npubGuardian, newOwner, signature);
+
+      const otherOwner = `0x${getPublicKey(generateSecretKey())}`;
+      await expect(account.connect(addressGuardian).approveRecovery(otherOwner))
+        .to.be.revertedWithCustomError(account, "RecoveryMismatch")
+        .withArgs(newOwner);
+    });
+
+    it("Should reject an npub guardian signature over the wrong hash", async function () {
+      const signature = await signRecovery(hre.ethers.keccak256(newOwner));
+
+      await expect(
+        account.approveRecoveryWithSignature(npubGuardian, newOwner, signature),
+      ).to.be.revertedWithCustomError(account, "NotGuardian");
+    });
+
+    it("Should let the owner cancel a recovery and invalidate its approvals", async function () {
+      const signature = await signRecovery(await account.recoveryHash(newOwner));
+      await account.approveRecoveryWithSignature(npubGuardian, newOwner, signature);
+
+      await expect(account.connect(accountSigner).cancelRecovery())
+        .to.emit(account, "RecoveryCancelled")
+        .withArgs(newOwner);
+
+      // The signature was bound to the previous recovery nonce
+      await expect(
+        account.approveRecoveryWithSignature(npubGuardian, newOwner, signature),
+      ).to.be.revertedWithCustomError(account, "NotGuardian");
+      expect(hre.ethers.toBeHex(await account.owner(), 32)).to.equal(ownerKey);
+    });
+  });
+
+  describe("Owner Rotation", function () {
+    const ownerKey = `0x${getPublicKey(generateSecretKey())}`;
+    const newOwner = `0x${getPublicKey(generateSecretKey())}`;
+    let account: NpubAccount;
+    let accountSigner: any;
+    let salt = 200;
+
+    beforeEach(async () => {
+      salt += 1;
+      await (await npubAccountFactory.createAccount(ownerKey, salt)).wait();
+      const addr = await npubAccountFactory.getFunction("getAddress")(ownerKey, salt);
+      account = (await hre.ethers.getContractAt("NpubAccount", addr)) as unknown as NpubAccount;
+
+      await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [addr] });
+      await hre.network.provider.request({ method: "hardhat_setBalance", params: [addr, "0xde0b6b3a7640000"] });
+      accountSigner = await hre.ethers.getSigner(addr);
+    });
+
+    it("Should rotate the owner and keep the account address", async function () {
+      await expect(account.connect(accountSigner).rotateOwner(newOwner))
+        .to.emit(account, "OwnerChanged")
+        .withArgs(ownerKey, newOwner);
+
+      expect(hre.ethers.toBeHex(await account.owner(), 32)).to.equal(newOwner);
+      expect(await account.getAddress()).to.equal(await accountSigner.getAddress());
+    });
+
+    it("Should restrict rotation to the owner", async function () {
+      await expect(account.rotateOwner(newOwner)).to.be.revertedWithCustomError(account, "UnauthorizedCaller");
+    });
+
+    it("Should reject a zero or unchanged owner", async function () {
+      await expect(account.connect(accountSigner).rotateOwner(0)).to.be.revertedWithCustomError(
+        account,
+        "InvalidOwner",
+      );
+      await expect(account.connect(accountSigner).rotateOwner(ownerKey)).to.be.revertedWithCustomError(
+        account,
+        "InvalidOwner",
+      );
+    });
+  });
+
+  // Stub signature used for gas estimation: the generator's x as R and s = 1, in range but invalid
+  const STUB_SIGNATURE = `0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798${"00".repeat(31)}01`;
+  const STUB_GAS_TOLERANCE = 1_000n;
+
+  describe("Typed UserOperation Signatures", function () {
+    const ownerSecretKey = generateSecretKey();
+    const ownerKey = `0x${getPublicKey(ownerSecretKey)}`;
+    const target = "0x000000000000000000000000000000000000dead";
+    const userOpHash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("taggedUserOp"));
+    let account: NpubAccount;
+    let entryPointSigner: any;
+    let salt = 250;
+
+    const buildUserOp = (callData: string, signature: string) => ({
+      sender: account.target as string,
+      nonce: 0,
+      initCode: "0x",
+      callData,
+      accountGasLimits: hre.ethers.ZeroHash,
+      preVerificationGas: 0,
+      gasFees: hre.ethers.ZeroHash,
+      paymasterAndData: "0x",
+      signature,
+    });
+
+    const buildTags = async (calls: [string, bigint][]) => [
+      ["v", "1"],
+      ["chain", (await hre.ethers.provider.getNetwork()).chainId.toString()],
+      ["entrypoint", (await entryPoint.getAddress()).toLowerCase()],
+      ["sender", (account.target as string).toLowerCase()],
+      ...calls.flatMap(([to, value]) => [
+        ["target", to],
+        ["value", value.toString()],
+      ]),
+    ];
+
+    const signTagged = (tags: string[][], secretKey = ownerSecretKey) =>
+      hre.ethers.concat([
+        "0x01",
+        `0x${finalizeEvent({ kind: 96024, created_at: 0, tags, content: userOpHash.slice(2) }, secretKey).sig}`,
+      ]);
+
+    const executeCall = (to: string, value: bigint) =>
+      account.interface.encodeFunctionData("execute", [to, value, "0x"]);
+
+    const validate = (callData: string, signature: string) =>
+      account.connect(entryPointSigner).validateUserOp.staticCall(buildUserOp(callData, signature), userOpHash, 0);
+
+    before(async () => {
+      const entryPointAddress = await entryPoint.getAddress();
+      await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [entryPointAddress] });
+      await hre.network.provider.request({
+        method: "hardhat_setBalance",
+        params: [entryPointAddress, "0xde0b6b3a7640000"],
+      });
+      entryPointSigner = await hre.ethers.getSigner(entryPointAddress);
+    });
+
+    beforeEach(async () => {
+      salt += 1;
+      await (await npubAccountFactory.createAccount(ownerKey, salt)).wait();
+      const addr = await npubAccountFactory.getFunction("getAddress")(ownerKey, salt);
+      account = (await hre.ethers.getContractAt("NpubAccount", addr)) as unknown as NpubAccount;
+    });
+
+    it("Should serialize the operation context as Nostr tags", async function () {
+      const value = hre.ethers.parseEther("0.5");
+      const tags = await account.userOperationTags(buildUserOp(executeCall(target, value), "0x"));
+      expect(hre.ethers.toUtf8String(tags)).to.equal(JSON.stringify(await buildTags([[target, value]])));
+    });
+
+    it("Should accept an owner signature over the tagged event", async function () {
+      const value = hre.ethers.parseEther("0.5");
+      const signature = signTagged(await buildTags([[target, value]]));
+      expect(await validate(executeCall(target, value), signature)).to.equal(0n);
+    });
+
+    it("Should tag every call of a batch", async function () {
+      const other = "0x000000000000000000000000000000000000beef";
+      const callData = account.interface.encodeFunctionData("executeBatch", [
+        [
+          { target, value: 1n, data: "0x" },
+          { target: other, value: 2n, data: "0x" },
+        ],
+      ]);
+      const signature = signTagged(
+        await buildTags([
+          [target, 1n],
+          [other, 2n],
+        ]),
+      );
+      expect(await validate(callData, signature)).to.equal(0n);
+    });
+
+    it("Should reject tags that do not match the operation", async function () {
+      const signature = signTagged(await buildTags([[target, hre.ethers.parseEther("0.1")]]));
+      expect(await validate(executeCall(target, hre.ethers.parseEther("0.5")), signature)).to.equal(1n);
+    });
+
+    it("Should reject a tagged signature from another key", async function () {
+      const value = hre.ethers.parseEther("0.5");
+      const signature = signTagged(await buildTags([[target, value]]), generateSecretKey());
+      expect(await validate(executeCall(target, value), signature)).to.equal(1n);
+    });
+
+    it("Should accept a raw BIP340 signature over the operation hash", async function () {
+      const signature = hre.ethers.concat(["0x02", schnorr.sign(userOpHash.slice(2), ownerSecretKey)]);
+      expect(await validate(executeCall(target, 0n), signature)).to.equal(0n);
+    });
+
+    it("Should reject a raw signature over another hash", async function () {
+      const otherHash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("otherUserOp"));
+      const signature = hre.ethers.concat(["0x02", schnorr.sign(otherHash.slice(2), ownerSecretKey)]);
+      expect(await validate(executeCall(target, 0n), signature)).to.equal(1n);
+    });
+
+    it("Should accept the untagged event with an explicit signature type", async function () {
+      const event = finalizeEvent(
+        { kind: 96024, created_at: 0, tags: [], content: userOpHash.slice(2) },
+        ownerSecretKey,
+      );
+      expect(await validate(executeCall(target, 0n), hre.ethers.concat(["0x00", `0x${event.sig}`]))).to.equal(0n);
+    });
+
+    it("Should spend the same validation gas on stub and real signatures", async function () {
+      const value = hre.ethers.parseEther("0.5");
+      const callData = executeCall(target, value);
+      const estimate = (signature: string) =>
+        account.connect(entryPointSigner).validateUserOp.estimateGas(buildUserOp(callData, signature), userOpHash, 0);
+
+      const rawGas = await estimate(hre.ethers.concat(["0x02", schnorr.sign(userOpHash.slice(2), ownerSecretKey)]));
+      expect(await validate(callData, hre.ethers.concat(["0x02", STUB_SIGNATURE]))).to.equal(1n);
+      expect(await estimate(hre.ethers.concat(["0x02", STUB_SIGNATURE]))).to.be.closeTo(rawGas, STUB_GAS_TOLERANCE);
+
+      const taggedGas = await estimate(signTagged(await buildTags([[target, value]])));
+      expect(await validate(callData, hre.ethers.concat(["0x01", STUB_SIGNATURE]))).to.equal(1n);
+      expect(await estimate(hre.ethers.concat(["0x01", STUB_SIGNATURE]))).to.be.closeTo(taggedGas, STUB_GAS_TOLERANCE);
+    });
+
+    it("Should estimate a counterfactual account's deployment and validation with the stub", async function () {
+      // Bundlers simulate the initCode deployment and validation together, the wallet adds a 25% margin
+      const deploymentMarginBps = 2_500n;
+      const counterfactualSalt = salt + 10_000;
+      const sender = await npubAccountFactory.getFunction("getAddress")(ownerKey, counterfactualSalt);
+      const initCode = hre.ethers.concat([
+        npubAccountFactory.target as string,
+        npubAccountFactory.interface.encodeFunctionData("createAccount", [ownerKey, counterfactualSalt]),
+      ]);
+      expect(await hre.ethers.provider.getCode(sender)).to.equal("0x");
+
+      const deploymentGas = await npubAccountFactory.createAccount.estimateGas(ownerKey, counterfactualSalt);
+      await (await npubAccountFactory.createAccount(ownerKey, counterfactualSalt)).wait();
+      const counterfactual = (await hre.ethers.getContractAt("NpubAccount", sender)) as unknown as NpubAccount;
+
+      const callData = executeCall(target, 0n);
+      const userOp = (signature: string) => ({ ...buildUserOp(callData, signature), sender, initCode });
+      const stubSignature = hre.ethers.concat(["0x02", STUB_SIGNATURE]);
+      const realSignature = hre.ethers.concat(["0x02", schnorr.sign(userOpHash.slice(2), ownerSecretKey)]);
+      const estimate = async (signature: string) =>
+        deploymentGas +
+        (await counterfactual.connect(entryPointSigner).validateUserOp.estimateGas(userOp(signature), userOpHash, 0));
+
+      expect(
+        await counterfactual.connect(entryPointSigner).validateUserOp.staticCall(userOp(stubSignature), userOpHash, 0),
+      ).to.equal(1n);
+      expect(
+        await counterfactual.connect(entryPointSigner).validateUserOp.staticCall(userOp(realSignature), userOpHash, 0),
+      ).to.equal(0n);
+
+      const stubGas = await estimate(stubSignature);
+      expect(await estimate(realSignature)).to.be.closeTo(stubGas, STUB_GAS_TOLERANCE);
+      expect(await estimate(realSignature)).to.be.lessThan((stubGas * (10_000n + deploymentMarginBps)) / 10_000n);
+    });
+
+    it("Should reject unknown signature types", async function () {
+      const signature = hre.ethers.concat(["0x03", schnorr.sign(userOpHash.slice(2), ownerSecretKey)]);
+      expect(await validate(executeCall(target, 0n), signature)).to.equal(1n);
+    });
+  });
+
+  describe("Session Keys", function () {
+    const ownerSecretKey = generateSecretKey();
+    const ownerKey = `0x${getPublicKey(ownerSecretKey)}`;
+    const sessionSecretKey = generateSecretKey();
+    const sessionKey = `0x${getPublicKey(sessionSecretKey)}`;
+    const target = "0x000000000000000000000000000000000000dEaD";
+    const transferSelector = "0xa9059cbb";
+    const userOpHash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("sessionUserOp"));
+    const delegationType = "tuple(uint256,address[],bytes4[],uint256,uint48,uint48)";
+    let account: NpubAccount;
+    let accountSigner: any;
+    let entryPointSigner: any;
+    let salt = 300;
+
+    const signHash = (hash: string, secretKey: Uint8Array) =>
+      `0x${finalizeEvent({ kind: 96024, created_at: 0, tags: [], content: hash.slice(2) }, secretKey).sig}`;
+
+    const buildDelegation = (overrides: Record<string, unknown> = {}) => ({
+      sessionKey,
+      targets: [target],
+      selectors: [transferSelector],
+      valueLimit: hre.ethers.parseEther("1"),
+      validAfter: 1000,
+      validUntil: 2_000_000_000,
+      ...overrides,
+    });
+
+    const encodeSessionSignature = async (
+      delegation: ReturnType<typeof buildDelegation>,
+      { delegator = ownerSecretKey, signer = sessionSecretKey } = {},
+    ) => {
+      const delegationHash = await account.sessionDelegationHash(delegation as any);
+      return hre.ethers.AbiCoder.defaultAbiCoder().encode(
+        [delegationType, "bytes", "bytes"],
+        [
+          [
+            delegation.sessionKey,
+            delegation.targets,
+            delegation.selectors,
+            delegation.valueLimit,
+            delegation.validAfter,
+            delegation.validUntil,
+          ],
+          signHash(delegationHash, delegator),
+          signHash(userOpHash, signer),
+        ],
+      );
+    };
+
+    const buildUserOp = (callData: string, signature: string) => ({
+      sender: account.target as string,
+      nonce: 0,
+      initCode: "0x",
+      callData,
+      accountGasLimits: hre.ethers.ZeroHash,
+      preVerificationGas: 0,
+      gasFees: hre.ethers.ZeroHash,
+      paymasterAndData: "0x",
+      signature,
+    });
+
+    const executeCall = (to: string, value: bigint, data: string) =>
+      account.interface.encodeFunctionData("execute", [to, value, data]);
+
+    const transferData = `${transferSelector}${"00".repeat(64)}`;
+
+    const validate = async (callData: string, signature: string) =>
+      account.connect(entryPointSigner).validateUserOp.staticCall(buildUserOp(callData, signature), userOpHash, 0);
+
+    // validUntil in bits 160-207, validAfter in bits 208-255
+    const packValidity = (validUntil: number, validAfter: number) =>
+      (BigInt(validUntil) << 160n) | (BigInt(validAfter) << 208n);
+
+    before(async () => {
+      const entryPointAddress = await entryPoint.getAddress();
+      await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [entryPointAddress] });
+      await hre.network.provider.request({
+        method: "hardhat_setBalance",
+        params: [entryPointAddress, "0xde0b6b3a7640000"],
+      });
+      entryPointSigner = await hre.ethers.getSigner(entryPointAddress);
+    });
+
+    beforeEach(async () => {
+      salt += 1;
+      await (await npubAccountFactory.createAccount(ownerKey, salt)).wait();
+      const addr = await npubAccountFactory.getFunction("getAddress")(ownerKey, salt);
+      account = (await hre.ethers.getContractAt("NpubAccount", addr)) as unknown as NpubAccount;
+
+      await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [addr] });
+      await hre.network.provider.request({ method: "hardhat_setBalance", params: [addr, "0xde0b6b3a7640000"] });
+      accountSigner = await hre.ethers.getSigner(addr);
+    });
+
+    it("Should accept an allowed call signed by the session key", async function () {
+      const delegation = buildDelegation();
+      const signature = await encodeSessionSignature(delegation);
+
+      expect(await validate(executeCall(target, 0n, transferData), signature)).to.equal(
+        packValidity(delegation.validUntil, delegation.validAfter),
+      );
+    });
+
+    it("Should reject a call to a target outside the delegation", async function () {
+      const signature = await encodeSessionSignature(buildDelegation());
+
+      expect(await validate(executeCall(otherAccount.address, 0n, transferData), signature)).to.equal(1);
+    });
+
+    it("Should reject a selector outside the delegation", async function () {
+      const signature = await encodeSessionSignature(buildDelegation());
+
+      expect(await validate(executeCall(target, 0n, "0x095ea7b3"), signature)).to.equal(1);
+    });
+
+    it("Should never allow calls to the account itself", async function () {
+      const delegation = buildDelegation({ targets: [], selectors: [] });
+      const signature = await encodeSessionSignature(delegation);
+      const rotate = account.interface.encodeFunctionData("rotateOwner", [sessionKey]);
+
+      expect(await validate(executeCall(target, 0n, "0x"), signature)).to.equal(
+        packValidity(delegation.validUntil, delegation.validAfter),
+      );
+      expect(await validate(executeCall(account.target as string, 0n, rotate), signature)).to.equal(1);
+    });
+
+    it("Should check every call of a batch", async function () {
+      const signature = await encodeSessionSignature(buildDelegation());
+      const batch = account.interface.encodeFunctionData("executeBatch", [
+        [
+          { target, value: 0n, data: transferData },
+          { target: otherAccount.address, value: 0n, data: transferData },
+        ],
+      ]);
+
+      expect(await validate(batch, signature)).to.equal(1);
+    });
+
+    it("Should enforce the value limit across operations", async function () {
+      const signature = await encodeSessionSignature(buildDelegation({ selectors: [] }));
+      const halfEther = hre.ethers.parseEther("0.6");
+
+      await account
+        .connect(entryPointSigner)
+        .validateUserOp(buildUserOp(executeCall(target, halfEther, "0x"), signature), userOpHash, 0);
+
+      expect(
+        await account.sessionValueSpent(await account.sessionDelegationHash(buildDelegation({ selectors: [] }))),
+      ).to.equal(halfEther);
+      expect(await validate(executeCall(target, halfEther, "0x"), signature)).to.equal(1);
+    });
+
+    it("Should reject a delegation revoked by the owner", async function () {
+      const delegation = buildDelegation();
+      const signature = await encodeSessionSignature(delegation);
+      const delegationHash = await account.sessionDelegationHash(delegation);
+
+      await expect(account.connect(accountSigner).revokeSession(delegationHash))
+        .to.emit(account, "SessionRevoked")
+        .withArgs(delegationHash);
+      expect(await validate(executeCall(target, 0n, transferData), signature)).to.equal(1);
+    });
+
+    it("Should restrict revocation to the owner", async function () {
+      await expect(account.revokeSession(hre.ethers.ZeroHash)).to.be.revertedWithCustomError(
+        account,
+        "UnauthorizedCaller",
+      );
+    });
+
+    it("Should reject a delegation not signed by the owner", async function () {
+      const signature = await encodeSessionSignature(buildDelegation(), { delegator: sessionSecretKey });
+
+      expect(await validate(executeCall(target, 0n, transferData), signature)).to.equal(1);
+    });
+
+    it("Should spend the same validation gas on a stub session signature", async function () {
+      const delegation = buildDelegation();
+      const callData = executeCall(target, 0n, transferData);
+      const delegationHash = await account.sessionDelegationHash(delegation as any);
+      const stubSignature = hre.ethers.AbiCoder.defaultAbiCoder().encode(
+        [delegationType, "bytes", "bytes"],
+        [Object.values(delegation), signHash(delegationHash, ownerSecretKey), STUB_SIGNATURE],
+      );
+      const estimate = (signature: string) =>
+        account.connect(entryPointSigner).validateUserOp.estimateGas(buildUserOp(callData, signature), userOpHash, 0);
+
+      expect(await validate(callData, stubSignature)).to.equal(1);
+      expect(await estimate(stubSignature)).to.be.closeTo(
+        await estimate(await encodeSessionSignature(delegation)),
+        STUB_GAS_TOLERANCE,
+      );
+    });
+
+    it("Should reject an operation not signed by the session key", async function () {
+      const signature = await encodeSessionSignature(buildDelegation(), { signer: generateSecretKey() });
+
+      expect(await validate(executeCall(target, 0n, transferData), signature)).to.equal(1);
+    });
+
+    it("Should reject a session signature that doesn't decode", async function () {
+      const callData = executeCall(target, 0n, transferData);
+      const signature = await encodeSessionSignature(buildDelegation());
+      // The delegation's offset points past the end of the signature
+      const badOffset = `0x${"ff".repeat(32)}${signature.slice(66)}`;
+
+      expect(await validate(callData, `0x${"11".repeat(100)}`)).to.equal(1);
+      expect(await validate(callData, signature.slice(0, -64))).to.equal(1);
+      expect(await validate(callData, badOffset)).to.equal(1);
+    });
+  });
+
+  describe("Spending Limits", function () {
+    const ownerSecretKey = generateSecretKey();
+    const ownerKey = `0x${getPublicKey(ownerSecretKey)}`;
+    const recipient = "0x000000000000000000000000000000000000beef";
+    const token = "0x000000000000000000000000000000000000cafe";
+    const nativeToken = hre.ethers.ZeroAddress;
+    const delay = 2 * 24 * 60 * 60;
+    let account: NpubAccount;
+    let accountSigner: any;
+    let entryPointSigner: any;
+    let salt = 400;
+
+    const ether = (value: string) => hre.ethers.parseEther(value);
+    const transferData = (amount: bigint) =>
+      new hre.ethers.Interface(["function transfer(address,uint256)"]).encodeFunctionData("transfer", [
+        recipient,
+        amount,
+      ]);
+
+    before(async () => {
+      const entryPointAddress = await entryPoint.getAddress();
+      await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [entryPointAddress] });
+      await hre.network.provider.request({
+        method: "hardhat_setBalance",
+        params: [entryPointAddress, "0xde0b6b3a7640000"],
+      });
+      entryPointSigner = await hre.ethers.getSigner(entryPointAddress);
+    });
+
+    beforeEach(async () => {
+      salt += 1;
+      await (await npubAccountFactory.createAccount(ownerKey, salt)).wait();
+      const addr = await npubAccountFactory.getFunction("getAddress")(ownerKey, salt);
+      account = (await hre.ethers.getContractAt("NpubAccount", addr)) as unknown as NpubAccount;
+
+      await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [addr] });
+      await hre.network.provider.request({ method: "hardhat_setBalance", params: [addr, "0x56bc75e2d63100000"] });
+      accountSigner = await hre.ethers.getSigner(addr);
+
+      await account.connect(accountSigner).setSpendingLimit(nativeToken, ether("1"), ether("3"));
+      await account.connect(accountSigner).setSpendingDelay(delay);
+    });
+
+    it("Should allow spending within the daily limit and track the remaining allowance", async function () {
+      await account.connect(entryPointSigner).execute(recipient, ether("0.4"), "0x");
+
+      const [daily, weekly] = await account.remainingAllowance(nativeToken);
+      expect(daily).to.equal(ether("0.6"));
+      expect(weekly).to.equal(ether("2.6"));
+    });
+
+    it("Should reject a transfer above the daily limit", async function () {
+      await account.connect(entryPointSigner).execute(recipient, ether("0.8"), "0x");
+
+      await expect(account.connect(entryPointSigner).execute(recipient, ether("0.5"), "0x"))
+        .to.be.revertedWithCustomError(account, "SpendingLimitExceeded")
+        .withArgs(nativeToken, ether("0.5"), ether("0.2"));
+    });
+
+    it("Should reset the daily allowance but keep the weekly one", async function () {
+      // Start right after a week boundary so the next days stay in the same week
+      const { timestamp } = (await hre.ethers.provider.getBlock("latest"))!;
+      const week = 7 * 24 * 60 * 60;
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [Math.ceil(timestamp / week) * week + 60]);
+
+      for (let i = 0; i < 3; i++) {
+        await account.connect(entryPointSigner).execute(recipient, ether("1"), "0x");
+        await hre.network.provider.send("evm_increaseTime", [24 * 60 * 60]);
+      }
+
+      await expect(
+        account.connect(entryPointSigner).execute(recipient, ether("0.1"), "0x"),
+      ).to.be.revertedWithCustomError(account, "SpendingLimitExceeded");
+    });
+
+    it("Should count ERC-20 transfers and every call of a batch", async function () {
+      await account.connect(accountSigner).setSpendingLimit(token, 100, 0);
+
+      await expect(
+        account.connect(entryPointSigner).executeBatch([
+          { target: token, value: 0, data: transferData(60n) },
+          { target: token, value: 0, data: transferData(60n) },
+        ]),
+      ).to.be.revertedWithCustomError(account, "SpendingLimitExceeded");
+
+      await account.connect(entryPointSigner).execute(token, 0, transferData(60n));
+      const [daily, weekly] = await account.remainingAllowance(token);
+      expect(daily).to.equal(40);
+      expect(weekly).to.equal(hre.ethers.MaxUint256);
+    });
+
+    it("Should only allow tightening the limits immediately", async function () {
+      await expect(account.connect(accountSigner).setSpendingLimit(nativeToken, ether("0.5"), ether("3")))
+        .to.emit(account, "SpendingLimitSet")
+        .withArgs(nativeToken, ether("0.5"), ether("3"));
+
+      await expect(
+        account.connect(accountSigner).setSpendingLimit(nativeToken, ether("2"), ether("3")),
+      ).to.be.revertedWithCustomError(account, "SpendingPolicyTimelocked");
+      await expect(
+        account.connect(accountSigner).setSpendingLimit(nativeToken, ether("0.5"), 0),
+      ).to.be.revertedWithCustomError(account, "SpendingPolicyTimelocked");
+      await expect(account.connect(accountSigner).setSpendingDelay(0)).to.be.revertedWithCustomError(
+        account,
+        "SpendingPolicyTimelocked",
+      );
+    });
+
+    it("Should floor the allowance at zero after tightening below the amount spent", async function () {
+      await account.connect(entryPointSigner).execute(recipient, ether("0.8"), "0x");
+      await account.connect(accountSigner).setSpendingLimit(nativeToken, ether("0.5"), ether("0.6"));
+
+      const [daily, weekly] = await account.remainingAllowance(nativeToken);
+      expect(daily).to.equal(0n);
+      expect(weekly).to.equal(0n);
+      await expect(account.connect(entryPointSigner).execute(recipient, 1n, "0x"))
+        .to.be.revertedWithCustomError(account, "SpendingLimitExceeded")
+        .withArgs(nativeToken, 1n, 0n);
+    });
+
+    it("Should execute a scheduled call above the limit after the timelock", async function () {
+      const nonce = await account.scheduledCallNonce();
+      await expect(account.connect(accountSigner).scheduleCall(recipient, ether("5"), "0x")).to.emit(
+        account,
+        "CallScheduled",
+      );
+
+      await expect(
+        account.connect(entryPointSigner).executeScheduledCall(recipient, ether("5"), "0x", nonce),
+      ).to.be.revertedWithCustomError(account, "ScheduledCallTimelockActive");
+
+      await hre.network.provider.send("evm_increaseTime", [delay]);
+      await expect(
+        account.connect(entryPointSigner).executeScheduledCall(recipient, ether("5"), "0x", nonce),
+      ).to.changeEtherBalance(recipient, ether("5"));
+
+      // A scheduled call runs once
+      await expect(
+        account.connect(entryPointSigner).executeScheduledCall(recipient, ether("5"), "0x", nonce),
+      ).to.be.revertedWithCustomError(account, "UnknownScheduledCall");
+    });
+
+    it("Should loosen the limits through a scheduled call", async function () {
+      const data = account.interface.encodeFunctionData("setSpendingLimit", [nativeToken, 0, 0]);
+      const nonce = await account.scheduledCallNonce();
+      await account.connect(accountSigner).scheduleCall(account.target, 0, data);
+
+      await hre.network.provider.send("evm_increaseTime", [delay]);
+      await account.connect(entryPointSigner).executeScheduledCall(account.target, 0, data, nonce);
+
+      const [daily] = await account.remainingAllowance(nativeToken);
+      expect(daily).to.equal(hre.ethers.MaxUint256);
+    });
+
+    it("Should only upgrade through a scheduled call", async function () {
+      const implementation = await (
+        await hre.ethers.getContractFactory("NpubAccount")
+      ).deploy(await entryPoint.getAddress());
+      const implementationAddress = await implementation.getAddress();
+      const data = account.interface.encodeFunctionData("upgradeToAndCall", [implementationAddress, "0x"]);
+
+      await expect(account.connect(entryPointSigner).execute(account.target, 0, data)).to.be.revertedWithCustomError(
+        account,
+        "SpendingPolicyTimelocked",
+      );
+
+      const nonce = await account.scheduledCallNonce();
+      await account.connect(accountSigner).scheduleCall(account.target, 0, data);
+      await hre.network.provider.send("evm_increaseTime", [delay]);
+      await expect(account.connect(entryPointSigner).executeScheduledCall(account.target, 0, data, nonce))
+        .to.emit(account, "Upgraded")
+        .withArgs(implementationAddress);
+    });
+
+    describe("ERC-1271 Signatures", function () {
+      const coder = hre.ethers.AbiCoder.defaultAbiCoder();
+      const permitTypes = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      const mailTypes = { Mail: [{ name: "contents", type: "string" }] };
+
+      const signOwner = async (hash: string) => {
+        const content = (await account.replaySafeHash(hash)).slice(2);
+        return `0x${finalizeEvent({ kind: 96024, created_at: 0, tags: [], content }, ownerSecretKey).sig}`;
+      };
+
+      // Signs typed data with the message attached, as required while limits are set
+      const signTypedData = async (
+        domain: Record<string, unknown>,
+        types: Record<string, { name: string; type: string }[]>,
+        value: Record<string, unknown>,
+      ) => {
+        const hash = hre.ethers.TypedDataEncoder.hash(domain, types, value);
+        const encoder = hre.ethers.TypedDataEncoder.from(types);
+        const signature = coder.encode(
+          ["bytes", "bytes32", "bytes"],
+          [
+            await signOwner(hash),
+            hre.ethers.TypedDataEncoder.hashDomain(domain),
+            encoder.encodeData(encoder.primaryType, value),
+          ],
+        );
+        return { hash, signature };
+      };
+
+      it("Should refuse token permits while limits are set", async function () {
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        const permit = { owner: account.target, spender: recipient, value: ether("100"), nonce: 0, deadline: 1 };
+        const { hash, signature } = await signTypedData(
+          { name: "USD Coin", version: "2", chainId, verifyingContract: token },
+          permitTypes,
+          permit,
+        );
+        expect(await account.isValidSignature(hash, signature)).to.equal("0xffffffff");
+
+        const permit2 = await signTypedData(
+          { name: "Permit2", chainId, verifyingContract: "0x000000000022D473030F116dDEE9F6B43aC78BA3" },
+          mailTypes,
+          { contents: "any Permit2 message moves tokens" },
+        );
+        expect(await account.isValidSignature(permit2.hash, permit2.signature)).to.equal("0xffffffff");
+      });
+
+      it("Should accept other messages that come with their contents while limits are set", async function () {
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        const mail = await signTypedData({ name: "Mail", version: "1", chainId, verifyingContract: token }, mailTypes, {
+          contents: "Hello",
+        });
+        expect(await account.isValidSignature(mail.hash, mail.signature)).to.equal("0x1626ba7e");
+
+        const message = "Sign in to ethstr";
+        const hash = hre.ethers.hashMessage(message);
+        const ownerSignature = await signOwner(hash);
+        const personalSignature = coder.encode(
+          ["bytes", "bytes32", "bytes"],
+          [ownerSignature, hre.ethers.ZeroHash, hre.ethers.toUtf8Bytes(message)],
+        );
+        expect(await account.isValidSignature(hash, personalSignature)).to.equal("0x1626ba7e");
+
+        // Without the message the account can't tell a permit apart
+        expect(await account.isValidSignature(hash, ownerSignature)).to.equal("0xffffffff");
+        // Nor with contents that are not the signed message
+        const otherMessage = coder.encode(
+          ["bytes", "bytes32", "bytes"],
+          [ownerSignature, hre.ethers.ZeroHash, hre.ethers.toUtf8Bytes("Something else")],
+        );
+        expect(await account.isValidSignature(hash, otherMessage)).to.equal("0xffffffff");
+      });
+
+      it("Should accept plain signatures once no limit is set", async function () {
+        const data = account.interface.encodeFunctionData("setSpendingLimit", [nativeToken, 0, 0]);
+        const nonce = await account.scheduledCallNonce();
+        await account.connect(accountSigner).scheduleCall(account.target, 0, data);
+        await hre.network.provider.send("evm_increaseTime", [delay]);
+        await account.connect(entryPointSigner).executeScheduledCall(account.target, 0, data, nonce);
+        expect(await account.limitedTokenCount()).to.equal(0n);
+
+        const hash = hre.ethers.hashMessage("Sign in to ethstr");
+        expect(await account.isValidSignature(hash, await signOwner(hash))).to.equal("0x1626ba7e");
+      });
+    });
+
+    it("Should let the owner cancel a scheduled call", async function () {
+      const nonce = await account.scheduledCallNonce();
+      await account.connect(accountSigner).scheduleCall(recipient, ether("5"), "0x");
+      const id = await account.scheduledCallId(recipient, ether("5"), "0x", nonce);
+
+      await expect(account.connect(accountSigner).cancelScheduledCall(id))
+        .to.emit(account, "ScheduledCallCancelled")
+        .withArgs(id);
+
+      await hre.network.provider.send("evm_increaseTime", [delay]);
+      await expect(
+        account.connect(entryPointSigner).executeScheduledCall(recipient, ether("5"), "0x", nonce),
+      ).to.be.revertedWithCustomError(account, "UnknownScheduledCall");
+    });
+  });
+
+  describe("Storage Layout", function () {
+    // Deployed proxies keep their storage through upgrades, so the slots must not move between versions
+    // Slot 0 is ReentrancyGuard's status, which proxies only write on their first guarded call
+    it("Should keep the owner in slot 1, right after the reentrancy guard", async function () {
+      const ownerKey = `0x${getPublicKey(generateSecretKey())}`;
+      await (await npubAccountFactory.createAccount(ownerKey, 0)).wait();
+      const addr = await npubAccountFactory.getFunction("getAddress")(ownerKey, 0);
+      const account = (await hre.ethers.getContractAt("NpubAccount", addr)) as unknown as NpubAccount;
+
+      expect(await hre.ethers.provider.getStorage(addr, 1)).to.equal(ownerKey);
+      expect(await account.owner()).to.equal(BigInt(ownerKey));
+    });
+
+    it("Should derive the EIP-712 domain without storage", async function () {
+      const ownerKey = `0x${getPublicKey(generateSecretKey())}`;
+      await (await npubAccountFactory.createAccount(ownerKey, 0)).wait();
+      const addr = await npubAccountFactory.getFunction("getAddress")(ownerKey, 0);
+      const account = (await hre.ethers.getContractAt("NpubAccount", addr)) as unknown as NpubAccount;
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const hash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("domain"));
+
+      const domain = await account.eip712Domain();
+      expect(domain.name).to.equal("NpubAccount");
+      expect(domain.version).to.equal("1");
+      expect(domain.verifyingContract).to.equal(addr);
+      expect(await account.replaySafeHash(hash)).to.equal(
+        hre.ethers.TypedDataEncoder.hash(
+          { name: "NpubAccount", version: "1", chainId, verifyingContract: addr },
+          { NpubMessage: [{ name: "hash", type: "bytes32" }] },
+          { hash },
+        ),
+      );
+    });
+  });
+
   describe("Upgrade Functionality", function () {
     it("Should have upgrade authorization", async function () {
       // Test that the contract has upgrade functionality
@@ -0,0 +1,188 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
+import { NpubMultisigAccount, NpubMultisigAccountFactory } from "../typechain-types";
+
+describe("NpubMultisigAccount", function () {
+  let factory: NpubMultisigAccountFactory;
+  let account: NpubMultisigAccount;
+  let entryPointAddress: string;
+  let entryPointSigner: any;
+
+  // Three Nostr keys sorted by public key, the order signatures must be concatenated in
+  const keys = [generateSecretKey(), generateSecretKey(), generateSecretKey()]
+    .map(sk => ({ sk, pubkey: `0x${getPublicKey(sk)}` }))
+    .sort((a, b) => (BigInt(a.pubkey) < BigInt(b.pubkey) ? -1 : 1));
+  const owners = keys.map(k => k.pubkey);
+
+  // Each owner signs `hash` as the content of a kind-96024 event, entries are pubkey || sig
+  const signEntry = (hash: string, key: (typeof keys)[number]) =>
+    key.pubkey.slice(2) + finalizeEvent({ kind: 96024, created_at: 0, tags: [], content: hash.slice(2) }, key.sk).sig;
+  const multisign = (hash: string, signers: typeof keys) => `0x${signers.map(k => signEntry(hash, k)).join("")}`;
+
+  const buildUserOp = (sender: string, signature: string) => ({
+    sender,
+    nonce: 0,
+    initCode: "0x",
+    callData: "0x",
+    accountGasLimits: hre.ethers.ZeroHash,
+    preVerificationGas: 0,
+    gasFees: hre.ethers.ZeroHash,
+    paymasterAndData: "0x",
+    signature,
+  });
+
+  before(async () => {
+    const MockEntryPoint = await hre.ethers.getContractFactory("MockEntryPoint");
+    const mock = await MockEntryPoint.deploy();
+    await mock.waitForDeployment();
+    entryPointAddress = await mock.getAddress();
+
+    const FactoryFactory = await hre.ethers.getContractFactory("NpubMultisigAccountFactory");
+    factory = (await FactoryFactory.deploy(entryPointAddress)) as NpubMultisigAccountFactory;
+    await factory.waitForDeployment();
+
+    await (await factory.createAccount(owners, 2, 0)).wait();
+    const addr = await factory.getFunction("getAddress")(owners, 2, 0);
+    account = (await hre.ethers.getContractAt("NpubMultisigAccount", addr)) as unknown as NpubMultisigAccount;
+
+    // The account only accepts validation and execution calls from its EntryPoint
+    await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [entryPointAddress] });
+    await hre.network.provider.request({
+      method: "hardhat_setBalance",
+      params: [entryPointAddress, "0xde0b6b3a7640000"],
+    });
+    entryPointSigner = await hre.ethers.getSigner(entryPointAddress);
+  });
+
+  describe("Deployment and Initialization", function () {
+    it("Should initialize with owners and threshold", async function () {
+      expect((await account.getOwners()).map(o => hre.ethers.toBeHex(o, 32))).to.deep.equal(owners);
+      expect(await account.threshold()).to.equal(2);
+      for (const owner of owners) {
+        expect(await account.isOwner(owner)).to.equal(true);
+      }
+    });
+
+    it("Should revert when the threshold exceeds the number of owners", async function () {
+      await expect(factory.createAccount(owners, 4, 1)).to.be.revertedWithCustomError(factory, "AccountCreationFailed");
+    });
+
+    it("Should revert when an owner is listed twice", async function () {
+      await expect(factory.createAccount([owners[0], owners[0]], 1, 1)).to.be.revertedWithCustomError(
+        factory,
+        "AccountCreationFailed",
+      );
+    });
+  });
+
+  describe("UserOperation Validation", function () {
+    const userOpHash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("userOp"));
+
+    const validate = (signature: string) =>
+      account
+        .connect(entryPointSigner)
+        .validateUserOp.staticCall(buildUserOp(account.target as string, signature), userOpHash, 0);
+
+    it("Should accept signatures from threshold owners", async function () {
+      expect(await validate(multisign(userOpHash, [keys[0], keys[2]]))).to.equal(0);
+    });
+
+    it("Should accept signatures from all owners", async function () {
+      expect(await validate(multisign(userOpHash, keys))).to.equal(0);
+    });
+
+    it("Should reject fewer signatures than the threshold", async function () {
+      expect(await validate(multisign(userOpHash, [keys[1]]))).to.equal(1);
+    });
+
+    it("Should reject signatures that are not sorted by public key", async function () {
+      expect(await validate(multisign(userOpHash, [keys[2], keys[0]]))).to.equal(1);
+    });
+
+    it("Should reject the same owner signing twice", async function () {
+      expect(await validate(multisign(userOpHash, [keys[1], keys[1]]))).to.equal(1);
+    });
+
+    it("Should reject a signature from a non-owner", async function () {
+      const sk = generateSecretKey();
+      const outsider = { sk, pubkey: `0x${getPublicKey(sk)}` };
+      const signers = [keys[0], outsider].sort((a, b) => (BigInt(a.pubkey) < BigInt(b.pubkey) ? -1 : 1));
+
+      expect(await validate(multisign(userOpHash, signers))).to.equal(1);
+    });
+
+    it("Should reject signatures with a truncated entry", async function () {
+      expect(await validate(multisign(userOpHash, keys).slice(0, -2))).to.equal(1);
+    });
+
+    it("Should spend the same validation gas on stub and real signatures", async function () {
+      // The generator's x as R and s = 1: in range, so verification runs to the end and fails
+      const stubEntry = (key: (typeof keys)[number]) =>
+        key.pubkey.slice(2) + `79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798${"00".repeat(31)}01`;
+      const stubSignature = `0x${[keys[0], keys[1]].map(stubEntry).join("")}`;
+      const estimate = (signature: string) =>
+        account
+          .connect(entryPointSigner)
+          .validateUserOp.estimateGas(buildUserOp(account.target as string, signature), userOpHash, 0);
+
+      expect(await validate(stubSignature)).to.equal(1);
+      expect(await estimate(stubSignature)).to.be.closeTo(
+        await estimate(multisign(userOpHash, [keys[0], keys[1]])),
+        1_000n,
+      );
+    });
+  });
+
+  describe("ERC-1271 Signatures", function () {
+    it("Should return the magic value when the threshold is met", async function () {
+      const hash = hre.ethers.hashMessage("Treasury payout");
+      const signature = multisign(await account.replaySafeHash(hash), [keys[1], keys[2]]);
+
+      expect(await account.isValidSignature(hash, signature)).to.equal("0x1626ba7e");
+    });
+
+    it("Should reject a single owner signature", async function () {
+      const hash = hre.ethers.hashMessage("Treasury payout");
+      const signature = multisign(await account.replaySafeHash(hash), [keys[1]]);
+
+      expect(await account.isValidSignature(hash, signature)).to.equal("0xffffffff");
+    });
+  });
+
+  describe("Owner Management", function () {
+    it("Should restrict owner management to the account itself", async function () {
+      await expect(account.changeThreshold(1)).to.be.revertedWithCustomError(account, "UnauthorizedCaller");
+    });
+
+    it("Should add an owner and change the threshold through execute", async function () {
+      const newOwner = `0x${getPublicKey(generateSecretKey())}`;
+      const data = account.interface.encodeFunctionData("addOwner", [newOwner, 3]);
+
+      await expect(account.connect(entryPointSigner).execute(account.target, 0, data))
+        .to.emit(account, "OwnerAdded")
+        .withArgs(newOwner)
+        .and.to.emit(account, "ThresholdChanged")
+        .withArgs(3);
+      expect(await account.isOwner(newOwner)).to.equal(true);
+    });
+
+    it("Should remove an owner through execute", async function () {
+      const data = account.interface.encodeFunctionData("removeOwner", [owners[0], 2]);
+
+      await expect(account.connect(entryPointSigner).execute(account.target, 0, data))
+        .to.emit(account, "OwnerRemoved")
+        .withArgs(owners[0]);
+      expect(await account.isOwner(owners[0])).to.equal(false);
+      expect(await account.getOwners()).to.have.length(3);
+    });
+
+    it("Should revert when the new threshold is larger than the owner count", async function () {
+      const data = account.interface.encodeFunctionData("changeThreshold", [5]);
+
+      await expect(account.connect(entryPointSigner).execute(account.target, 0, data))
+        .to.be.revertedWithCustomError(account, "InvalidThreshold")
+        .withArgs(5, 3);
+    });
+  });
+});
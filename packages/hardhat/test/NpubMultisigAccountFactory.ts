@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { NpubMultisigAccountFactory } from "../typechain-types";
+
+describe("NpubMultisigAccountFactory", function () {
+  let factory: NpubMultisigAccountFactory;
+  let entryPointAddress: string;
+
+  const owners = [
+    "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
+    "0x79BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798",
+  ];
+  const ownersHash = hre.ethers.keccak256(hre.ethers.AbiCoder.defaultAbiCoder().encode(["uint256[]"], [owners]));
+
+  before(async () => {
+    const MockEntryPoint = await hre.ethers.getContractFactory("MockEntryPoint");
+    const mock = await MockEntryPoint.deploy();
+    await mock.waitForDeployment();
+    entryPointAddress = await mock.getAddress();
+
+    const FactoryFactory = await hre.ethers.getContractFactory("NpubMultisigAccountFactory");
+    factory = (await FactoryFactory.deploy(entryPointAddress)) as NpubMultisigAccountFactory;
+    await factory.waitForDeployment();
+  });
+
+  describe("Deployment", function () {
+    it("Should deploy an implementation wired to the EntryPoint", async function () {
+      const implementation = await hre.ethers.getContractAt(
+        "NpubMultisigAccount",
+        await factory.accountImplementation(),
+      );
+      expect(await implementation.entryPoint()).to.equal(entryPointAddress);
+    });
+  });
+
+  describe("createAccount", function () {
+    it("Should deploy the account at the counterfactual address", async function () {
+      const expected = await factory.getFunction("getAddress")(owners, 2, 0);
+
+      await expect(factory.createAccount(owners, 2, 0))
+        .to.emit(factory, "MultisigAccountCreated")
+        .withArgs(expected, ownersHash, 2, 0, true);
+      expect(await hre.ethers.provider.getCode(expected)).to.not.equal("0x");
+    });
+
+    it("Should return the existing account on a second call", async function () {
+      const expected = await factory.getFunction("getAddress")(owners, 2, 0);
+
+      await expect(factory.createAccount(owners, 2, 0))
+        .to.emit(factory, "MultisigAccountCreated")
+        .withArgs(expected, ownersHash, 2, 0, false);
+    });
+  });
+
+  describe("getAddress", function () {
+    it("Should depend on the owners, threshold and salt", async function () {
+      const getAccountAddress = factory.getFunction("getAddress");
+      const base = await getAccountAddress(owners, 2, 0);
+
+      expect(await getAccountAddress(owners, 1, 0)).to.not.equal(base);
+      expect(await getAccountAddress(owners, 2, 1)).to.not.equal(base);
+      expect(await getAccountAddress([owners[1], owners[0]], 2, 0)).to.not.equal(base);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
+import { MockERC20, MockPriceOracle, NpubAccount, NpubAccountFactory, NpubTokenPaymaster } from "../typechain-types";
+
+describe("NpubTokenPaymaster", function () {
+  let paymaster: NpubTokenPaymaster;
+  let usdc: MockERC20;
+  let oracle: MockPriceOracle;
+  let paymasterAddress: string;
+  let usdcAddress: string;
+  let entryPointAddress: string;
+  let entryPointSigner: any;
+  let sender: any;
+
+  // 3000 USDC per ETH with 8 oracle decimals, i.e. 3000e6 USDC base units per ETH
+  const ETH_PRICE = 3000n * 10n ** 8n;
+  const MARKUP = 10_500;
+  const MAX_PRICE_AGE = 3600;
+  const maxCost = hre.ethers.parseEther("0.001");
+  const userOpHash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("tokenUserOp"));
+  const coder = hre.ethers.AbiCoder.defaultAbiCoder();
+
+  // 0.001 ETH * 3000 USDC * 1.05
+  const maxTokenCost = 3_150_000n;
+
+  const buildUserOp = (
+    token: string,
+    acceptedTokenCost: bigint,
+    from = sender.address,
+    permit?: [bigint, bigint, string],
+  ) => ({
+    sender: from,
+    nonce: 0,
+    initCode: "0x",
+    callData: "0x",
+    accountGasLimits: hre.ethers.ZeroHash,
+    preVerificationGas: 0,
+    gasFees: hre.ethers.ZeroHash,
+    paymasterAndData: hre.ethers.concat([
+      paymasterAddress,
+      hre.ethers.toBeHex(100_000, 16),
+      hre.ethers.toBeHex(50_000, 16),
+      permit
+        ? coder.encode(["address", "uint256", "tuple(uint256,uint256,bytes)"], [token, acceptedTokenCost, permit])
+        : coder.encode(["address", "uint256"], [token, acceptedTokenCost]),
+    ]),
+    signature: "0x",
+  });
+
+  const validate = (userOp: ReturnType<typeof buildUserOp>) =>
+    paymaster.connect(entryPointSigner).validatePaymasterUserOp(userOp, userOpHash, maxCost);
+
+  const validateStatic = (userOp: ReturnType<typeof buildUserOp>) =>
+    paymaster.connect(entryPointSigner).validatePaymasterUserOp.staticCall(userOp, userOpHash, maxCost);
+
+  beforeEach(async () => {
+    [, sender] = await hre.ethers.getSigners();
+
+    const MockEntryPoint = await hre.ethers.getContractFactory("MockEntryPoint");
+    const mock = await MockEntryPoint.deploy();
+    await mock.waitForDeployment();
+    entryPointAddress = await mock.getAddress();
+
+    usdc = (await (await hre.ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6)) as MockERC20;
+    usdcAddress = await usdc.getAddress();
+    oracle = (await (await hre.ethers.getContractFactory("MockPriceOracle")).deploy(8, ETH_PRICE)) as MockPriceOracle;
+
+    const PaymasterFactory = await hre.ethers.getContractFactory("NpubTokenPaymaster");
+    paymaster = (await PaymasterFactory.deploy(entryPointAddress)) as NpubTokenPaymaster;
+    await paymaster.waitForDeployment();
+    paymasterAddress = await paymaster.getAddress();
+    await (await paymaster.setToken(usdcAddress, await oracle.getAddress(), MARKUP, MAX_PRICE_AGE)).wait();
+
+    await (await usdc.mint(sender.address, 100_000_000n)).wait();
+
+    // The paymaster only accepts validation and postOp calls from its EntryPoint
+    await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [entryPointAddress] });
+    await hre.network.provider.request({
+      method: "hardhat_setBalance",
+      params: [entryPointAddress, "0xde0b6b3a7640000"],
+    });
+    entryPointSigner = await hre.ethers.getSigner(entryPointAddress);
+  });
+
+  describe("Token Configuration", function () {
+    it("Should cache the oracle price in token units per ETH", async function () {
+      const config = await paymaster.tokens(usdcAddress);
+      expect(config.enabled).to.equal(true);
+      expect(config.price).to.equal(3000n * 10n ** 6n);
+      expect(await paymaster.quoteTokenCost(usdcAddress, maxCost)).to.equal(maxTokenCost);
+    });
+
+    it("Should restrict token configuration to the owner", async function () {
+      await expect(
+        paymaster.connect(sender).setToken(usdcAddress, await oracle.getAddress(), MARKUP, MAX_PRICE_AGE),
+      ).to.be.revertedWithCustomError(paymaster, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should reject a markup below the plain price", async function () {
+      await expect(paymaster.setToken(usdcAddress, await oracle.getAddress(), 9_000, MAX_PRICE_AGE))
+        .to.be.revertedWithCustomError(paymaster, "InvalidMarkup")
+        .withArgs(9_000);
+    });
+
+    it("Should use an owner-set price for tokens without an oracle", async function () {
+      await (await paymaster.setToken(usdcAddress, hre.ethers.ZeroAddress, MARKUP, 0)).wait();
+      await expect(validate(buildUserOp(usdcAddress, maxTokenCost)))
+        .to.be.revertedWithCustomError(paymaster, "InvalidPrice")
+        .withArgs(usdcAddress);
+
+      await (await paymaster.setPrice(usdcAddress, 2000n * 10n ** 6n)).wait();
+      expect(await paymaster.quoteTokenCost(usdcAddress, maxCost)).to.equal(2_100_000n);
+
+      // Owner-set prices do not expire
+      await (await usdc.connect(sender).approve(paymasterAddress, maxTokenCost)).wait();
+      const [, validationData] = await validateStatic(buildUserOp(usdcAddress, maxTokenCost));
+      expect(validationData).to.equal(0n);
+    });
+  });
+
+  describe("Gas Payment", function () {
+    it("Should collect the maximum cost up front and refund the unused part", async function () {
+      await (await usdc.connect(sender).approve(paymasterAddress, maxTokenCost)).wait();
+      const userOp = buildUserOp(usdcAddress, maxTokenCost);
+
+      const [context] = await validateStatic(userOp);
+      await validate(userOp);
+      expect(await usdc.balanceOf(paymasterAddress)).to.equal(maxTokenCost);
+
+      // 0.0005 ETH of gas plus the postOp overhead at 1 gwei
+      const actualGasCost = hre.ethers.parseEther("0.0005");
+      const feePerGas = hre.ethers.parseUnits("1", "gwei");
+      const charged = await paymaster.quoteTokenCost(usdcAddress, actualGasCost + 45_000n * feePerGas);
+
+      await expect(paymaster.connect(entryPointSigner).postOp(0, context, actualGasCost, feePerGas))
+        .to.emit(paymaster, "UserOperationCharged")
+        .withArgs(sender.address, usdcAddress, charged, actualGasCost);
+      expect(await usdc.balanceOf(paymasterAddress)).to.equal(charged);
+      expect(await usdc.balanceOf(sender.address)).to.equal(100_000_000n - charged);
+    });
+
+    it("Should reject senders that have not approved the maximum cost", async function () {
+      await (await usdc.connect(sender).approve(paymasterAddress, maxTokenCost - 1n)).wait();
+      await expect(validate(buildUserOp(usdcAddress, maxTokenCost)))
+        .to.be.revertedWithCustomError(paymaster, "InsufficientTokenAllowance")
+        .withArgs(usdcAddress, maxTokenCost - 1n, maxTokenCost);
+    });
+
+    it("Should still be paid when execution moves the sender's tokens away", async function () {
+      const [, , , recipient] = await hre.ethers.getSigners();
+      await (await usdc.connect(sender).approve(paymasterAddress, maxTokenCost)).wait();
+      const userOp = buildUserOp(usdcAddress, maxTokenCost);
+      const [context] = await validateStatic(userOp);
+      await validate(userOp);
+
+      // The operation's own calls empty the account and revoke the approval
+      await (await usdc.connect(sender).transfer(recipient.address, await usdc.balanceOf(sender.address))).wait();
+      await (await usdc.connect(sender).approve(paymasterAddress, 0)).wait();
+
+      const actualGasCost = hre.ethers.parseEther("0.0005");
+      await (await paymaster.connect(entryPointSigner).postOp(0, context, actualGasCost, 0)).wait();
+      const charged = await paymaster.quoteTokenCost(usdcAddress, actualGasCost);
+      expect(await usdc.balanceOf(paymasterAddress)).to.equal(charged);
+      expect(await usdc.balanceOf(sender.address)).to.equal(maxTokenCost - charged);
+    });
+
+    it("Should redeem a permit from an account holding only the token for its first operation", async function () {
+      const ownerSecretKey = generateSecretKey();
+      const owner = `0x${getPublicKey(ownerSecretKey)}`;
+      const factory = (await (
+        await hre.ethers.getContractFactory("NpubAccountFactory")
+      ).deploy(entryPointAddress)) as NpubAccountFactory;
+      await (await factory.createAccount(owner, 0)).wait();
+      const account = (await hre.ethers.getContractAt(
+        "NpubAccount",
+        await factory.getFunction("getAddress")(owner, 0),
+      )) as unknown as NpubAccount;
+      const accountAddress = await account.getAddress();
+      await (await usdc.mint(accountAddress, 10_000_000n)).wait();
+      expect(await hre.ethers.provider.getBalance(accountAddress)).to.equal(0n);
+
+      // The owner signs the permit through the account's ERC-1271, as a kind-96024 Nostr event
+      // Approves more than the operation costs, so the next operations need no permit
+      const permitValue = 2n * maxTokenCost;
+      const deadline = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp + 600);
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const permitHash = hre.ethers.TypedDataEncoder.hash(
+        { name: "USD Coin", version: "1", chainId, verifyingContract: usdcAddress },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        { owner: accountAddress, spender: paymasterAddress, value: permitValue, nonce: 0, deadline },
+      );
+      const content = (await account.replaySafeHash(permitHash)).slice(2);
+      const permitSignature = `0x${finalizeEvent({ kind: 96024, created_at: 0, tags: [], content }, ownerSecretKey).sig}`;
+
+      const userOp = buildUserOp(usdcAddress, maxTokenCost, accountAddress, [permitValue, deadline, permitSignature]);
+      const [, validationData] = await validateStatic(userOp);
+      // The permit deadline comes before the price expires
+      expect(validationData).to.equal(deadline << 160n);
+
+      await validate(userOp);
+      expect(await usdc.balanceOf(paymasterAddress)).to.equal(maxTokenCost);
+      expect(await usdc.balanceOf(accountAddress)).to.equal(10_000_000n - maxTokenCost);
+      expect(await usdc.allowance(accountAddress, paymasterAddress)).to.equal(permitValue - maxTokenCost);
+    });
+
+    it("Should reject senders whose permit does not redeem", async function () {
+      const deadline = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp + 600);
+      const permitSignature = hre.ethers.hexlify(hre.ethers.randomBytes(65));
+      await expect(
+        validate(buildUserOp(usdcAddress, maxTokenCost, sender.address, [maxTokenCost, deadline, permitSignature])),
+      )
+        .to.be.revertedWithCustomError(paymaster, "InsufficientTokenAllowance")
+        .withArgs(usdcAddress, 0n, maxTokenCost);
+    });
+
+    it("Should reject senders that cannot pay the maximum cost", async function () {
+      const [, , poorSender] = await hre.ethers.getSigners();
+      await expect(validate(buildUserOp(usdcAddress, maxTokenCost, poorSender.address)))
+        .to.be.revertedWithCustomError(paymaster, "InsufficientTokenBalance")
+        .withArgs(usdcAddress, 0n, maxTokenCost);
+    });
+
+    it("Should reject operations costing more than the sender accepted", async function () {
+      await expect(validate(buildUserOp(usdcAddress, maxTokenCost - 1n)))
+        .to.be.revertedWithCustomError(paymaster, "TokenCostTooHigh")
+        .withArgs(maxTokenCost, maxTokenCost - 1n);
+    });
+
+    it("Should reject tokens that are not whitelisted", async function () {
+      const other = await (await hre.ethers.getContractFactory("MockERC20")).deploy("Other", "OTH", 18);
+      await expect(validate(buildUserOp(await other.getAddress(), maxTokenCost)))
+        .to.be.revertedWithCustomError(paymaster, "UnsupportedToken")
+        .withArgs(await other.getAddress());
+    });
+
+    it("Should only accept the operation while the cached price is fresh", async function () {
+      await (await usdc.connect(sender).approve(paymasterAddress, maxTokenCost)).wait();
+      const { priceUpdatedAt } = await paymaster.tokens(usdcAddress);
+      const [, validationData] = await validateStatic(buildUserOp(usdcAddress, maxTokenCost));
+      expect(validationData).to.equal((priceUpdatedAt + BigInt(MAX_PRICE_AGE)) << 160n);
+    });
+
+    it("Should refresh the cached price after charging", async function () {
+      await (await usdc.connect(sender).approve(paymasterAddress, maxTokenCost)).wait();
+      const userOp = buildUserOp(usdcAddress, maxTokenCost);
+      const [context] = await validateStatic(userOp);
+      await validate(userOp);
+
+      await (await oracle.setAnswer(3500n * 10n ** 8n)).wait();
+      await expect(paymaster.connect(entryPointSigner).postOp(0, context, hre.ethers.parseEther("0.0005"), 0))
+        .to.emit(paymaster, "PriceUpdated")
+        .withArgs(usdcAddress, 3500n * 10n ** 6n);
+    });
+  });
+});
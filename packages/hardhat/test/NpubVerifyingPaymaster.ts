@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
+import { NpubVerifyingPaymaster } from "../typechain-types";
+
+describe("NpubVerifyingPaymaster", function () {
+  let paymaster: NpubVerifyingPaymaster;
+  let paymasterAddress: string;
+  let entryPointSigner: any;
+
+  const sponsorKey = generateSecretKey();
+  const sponsor = `0x${getPublicKey(sponsorKey)}`;
+  const sender = "0x00000000000000000000000000000000000a11ce";
+  const otherSender = "0x0000000000000000000000000000000000000b0b";
+  const maxCost = hre.ethers.parseEther("0.01");
+  const userOpHash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("sponsoredUserOp"));
+
+  const voucherType =
+    "tuple(uint256 sponsor,uint256 budget,address[] senders,uint48 validAfter,uint48 validUntil,uint256 salt)";
+  let salt = 0;
+
+  const newVoucher = (overrides: Record<string, unknown> = {}) => ({
+    sponsor,
+    budget: hre.ethers.parseEther("0.05"),
+    senders: [sender],
+    validAfter: 0,
+    validUntil: 0,
+    salt: ++salt,
+    ...overrides,
+  });
+
+  // The sponsor signs the voucher hash as the content of a kind-96024 event
+  const signVoucher = async (voucher: ReturnType<typeof newVoucher>, secretKey = sponsorKey) => {
+    const hash = await paymaster.voucherHash(voucher);
+    return `0x${finalizeEvent({ kind: 96024, created_at: 0, tags: [], content: hash.slice(2) }, secretKey).sig}`;
+  };
+
+  const buildUserOp = (voucher: ReturnType<typeof newVoucher>, signature: string, from = sender) => ({
+    sender: from,
+    nonce: 0,
+    initCode: "0x",
+    callData: "0x",
+    accountGasLimits: hre.ethers.ZeroHash,
+    preVerificationGas: 0,
+    gasFees: hre.ethers.ZeroHash,
+    paymasterAndData: hre.ethers.concat([
+      paymasterAddress,
+      hre.ethers.toBeHex(100_000, 16),
+      hre.ethers.toBeHex(50_000, 16),
+      hre.ethers.AbiCoder.defaultAbiCoder().encode([voucherType, "bytes"], [voucher, signature]),
+    ]),
+    signature: "0x",
+  });
+
+  const validate = (userOp: ReturnType<typeof buildUserOp>) =>
+    paymaster.connect(entryPointSigner).validatePaymasterUserOp(userOp, userOpHash, maxCost);
+
+  before(async () => {
+    const MockEntryPoint = await hre.ethers.getContractFactory("MockEntryPoint");
+    const mock = await MockEntryPoint.deploy();
+    await mock.waitForDeployment();
+    const entryPointAddress = await mock.getAddress();
+
+    const PaymasterFactory = await hre.ethers.getContractFactory("NpubVerifyingPaymaster");
+    paymaster = (await PaymasterFactory.deploy(entryPointAddress, sponsor)) as NpubVerifyingPaymaster;
+    await paymaster.waitForDeployment();
+    paymasterAddress = await paymaster.getAddress();
+
+    // The paymaster only accepts validation and postOp calls from its EntryPoint
+    await hre.network.provider.request({ method: "hardhat_impersonateAccount", params: [entryPointAddress] });
+    await hre.network.provider.request({
+      method: "hardhat_setBalance",
+      params: [entryPointAddress, "0xde0b6b3a7640000"],
+    });
+    entryPointSigner = await hre.ethers.getSigner(entryPointAddress);
+  });
+
+  it("Should register the initial sponsor and restrict sponsor management to the owner", async function () {
+    const [, stranger] = await hre.ethers.getSigners();
+    expect(await paymaster.sponsors(sponsor)).to.equal(true);
+    await expect(paymaster.connect(stranger).setSponsor(sponsor, false)).to.be.revertedWithCustomError(
+      paymaster,
+      "OwnableUnauthorizedAccount",
+    );
+  });
+
+  it("Should only accept validation calls from the EntryPoint", async function () {
+    const voucher = newVoucher();
+    const userOp = buildUserOp(voucher, await signVoucher(voucher));
+    await expect(paymaster.validatePaymasterUserOp(userOp, userOpHash, maxCost)).to.be.revertedWith(
+      "Sender not EntryPoint",
+    );
+  });
+
+  it("Should sponsor an operation and charge its actual cost to the voucher", async function () {
+    const voucher = newVoucher();
+    const userOp = buildUserOp(voucher, await signVoucher(voucher));
+    const hash = await paymaster.voucherHash(voucher);
+
+    const [context, validationData] = await paymaster
+      .connect(entryPointSigner)
+      .validatePaymasterUserOp.staticCall(userOp, userOpHash, maxCost);
+    expect(validationData).to.equal(0n);
+
+    await validate(userOp);
+    // The maximum cost stays reserved until postOp settles it
+    expect(await paymaster.voucherSpent(hash)).to.equal(maxCost);
+
+    const actualGasCost = hre.ethers.parseEther("0.002");
+    await expect(paymaster.connect(entryPointSigner).postOp(0, context, actualGasCost, 0))
+      .to.emit(paymaster, "UserOperationSponsored")
+      .withArgs(hash, hre.ethers.getAddress(sender), actualGasCost);
+
+    expect(await paymaster.voucherSpent(hash)).to.equal(actualGasCost);
+    expect(await paymaster.remainingBudget(voucher)).to.equal(voucher.budget - actualGasCost);
+  });
+
+  it("Should report an invalid sponsor signature as a signature failure", async function () {
+    const voucher = newVoucher();
+    const userOp = buildUserOp(voucher, await signVoucher(voucher, generateSecretKey()));
+
+    const [, validationData] = await paymaster
+      .connect(entryPointSigner)
+      .validatePaymasterUserOp.staticCall(userOp, userOpHash, maxCost);
+    expect(validationData & 1n).to.equal(1n);
+  });
+
+  it("Should pack the validity window of the voucher", async function () {
+    const voucher = newVoucher({ validAfter: 1_000, validUntil: 2_000 });
+    const userOp = buildUserOp(voucher, await signVoucher(voucher));
+
+    const [, validationData] = await paymaster
+      .connect(entryPointSigner)
+      .validatePaymasterUserOp.staticCall(userOp, userOpHash, maxCost);
+    expect(validationData).to.equal((1_000n << 208n) | (2_000n << 160n));
+  });
+
+  it("Should reject vouchers of unknown sponsors", async function () {
+    const strangerKey = generateSecretKey();
+    const voucher = newVoucher({ sponsor: `0x${getPublicKey(strangerKey)}` });
+    const userOp = buildUserOp(voucher, await signVoucher(voucher, strangerKey));
+
+    await expect(validate(userOp)).to.be.revertedWithCustomError(paymaster, "UnknownSponsor");
+  });
+
+  it("Should reject senders the voucher does not cover", async function () {
+    const voucher = newVoucher();
+    const userOp = buildUserOp(voucher, await signVoucher(voucher), otherSender);
+
+    await expect(validate(userOp))
+      .to.be.revertedWithCustomError(paymaster, "SenderNotSponsored")
+      .withArgs(hre.ethers.getAddress(otherSender));
+  });
+
+  it("Should accept any sender for a voucher without senders", async function () {
+    const voucher = newVoucher({ senders: [] });
+    const userOp = buildUserOp(voucher, await signVoucher(voucher), otherSender);
+
+    const [, validationData] = await paymaster
+      .connect(entryPointSigner)
+      .validatePaymasterUserOp.staticCall(userOp, userOpHash, maxCost);
+    expect(validationData).to.equal(0n);
+  });
+
+  it("Should reject operations the remaining budget cannot cover", async function () {
+    const voucher = newVoucher({ budget: maxCost + maxCost / 2n });
+    const userOp = buildUserOp(voucher, await signVoucher(voucher));
+    const hash = await paymaster.voucherHash(voucher);
+
+    await validate(userOp);
+    await expect(validate(userOp))
+      .to.be.revertedWithCustomError(paymaster, "VoucherBudgetExceeded")
+      .withArgs(hash, maxCost, maxCost / 2n);
+  });
+
+  it("Should reject vouchers of a removed sponsor", async function () {
+    const voucher = newVoucher();
+    const userOp = buildUserOp(voucher, await signVoucher(voucher));
+
+    await (await paymaster.setSponsor(sponsor, false)).wait();
+    await expect(validate(userOp)).to.be.revertedWithCustomError(paymaster, "UnknownSponsor");
+    await (await paymaster.setSponsor(sponsor, true)).wait();
+  });
+});
@@ -7,6 +7,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ npub
     const { npub } = await params;
     const { searchParams } = new URL(req.url);
     const chainId = searchParams.get("chainId");
+    const index = searchParams.get("index");
 
     // Validate npub parameter
     if (!npub || npub.trim() === "") {
@@ -23,8 +24,14 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ npub
       return NextResponse.json({ error: "Invalid chainId parameter. Must be a positive integer." }, { status: 400 });
     }
 
+    // Optional account index (factory salt), the npub's first account when omitted
+    const accountIndex = index === null ? 0 : Number(index);
+    if (index?.trim() === "" || !Number.isSafeInteger(accountIndex) || accountIndex < 0) {
+      return NextResponse.json({ error: "Invalid index parameter. Must be a non-negative integer." }, { status: 400 });
+    }
+
     // Get EVM address using the server service
-    const address = await nostrServiceServer.getEthAddress(npub, targetChainId);
+    const address = await nostrServiceServer.getEthAddress(npub, targetChainId, accountIndex);
 
     if (!address) {
       return NextResponse.json({ error: "Failed to resolve EVM address" }, { status: 404 });
@@ -37,7 +44,12 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ npub
     // Handle specific NostrServiceError instances
     if (err instanceof NostrServiceError) {
       const statusCode =
-        err.code === "INVALID_INPUT" || err.code === "INVALID_NPUB" || err.code === "INVALID_CHAIN_ID" ? 400 : 500;
+        err.code === "INVALID_INPUT" ||
+        err.code === "INVALID_NPUB" ||
+        err.code === "INVALID_CHAIN_ID" ||
+        err.code === "INVALID_INDEX"
+          ? 400
+          : 500;
 
       return NextResponse.json({ error: err.message, code: err.code }, { status: statusCode });
     }
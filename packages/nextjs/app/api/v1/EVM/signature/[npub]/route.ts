@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hashMessage } from "viem";
+import { nostrServiceServer } from "~~/services/nostrService.server";
+import { NostrServiceError } from "~~/services/nostrService.types";
+
+type VerifySignatureBody = {
+  message?: string;
+  hash?: `0x${string}`;
+  signature?: `0x${string}`;
+};
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ npub: string }> }) {
+  try {
+    const { npub } = await params;
+    const { searchParams } = new URL(req.url);
+    const chainId = searchParams.get("chainId");
+    const index = searchParams.get("index");
+
+    // Validate npub parameter
+    if (!npub || npub.trim() === "") {
+      return NextResponse.json({ error: "Missing or empty npub parameter" }, { status: 400 });
+    }
+
+    // Validate chainId parameter
+    if (!chainId || chainId.trim() === "") {
+      return NextResponse.json({ error: "Missing chainId parameter" }, { status: 400 });
+    }
+
+    const targetChainId = parseInt(chainId, 10);
+    if (isNaN(targetChainId) || targetChainId <= 0) {
+      return NextResponse.json({ error: "Invalid chainId parameter. Must be a positive integer." }, { status: 400 });
+    }
+
+    // Optional account index (factory salt), the npub's first account when omitted
+    const accountIndex = index === null ? 0 : Number(index);
+    if (index?.trim() === "" || !Number.isSafeInteger(accountIndex) || accountIndex < 0) {
+      return NextResponse.json({ error: "Invalid index parameter. Must be a non-negative integer." }, { status: 400 });
+    }
+
+    let body: VerifySignatureBody;
+    try {
+      body = (await req.json()) as VerifySignatureBody;
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
+
+    // Either a plain message (hashed with EIP-191) or a precomputed hash, e.g. an EIP-712 digest
+    if ((body.message === undefined) === (body.hash === undefined)) {
+      return NextResponse.json({ error: "Provide exactly one of message or hash" }, { status: 400 });
+    }
+
+    if (!body.signature) {
+      return NextResponse.json({ error: "Missing signature" }, { status: 400 });
+    }
+
+    const hash = body.hash ?? hashMessage(body.message as string);
+
+    // Accepts ERC-1271 signatures and ERC-6492 envelopes from undeployed accounts
+    const valid = await nostrServiceServer.verifySignature(npub, targetChainId, hash, body.signature, accountIndex);
+
+    return NextResponse.json({ valid });
+  } catch (err) {
+    console.error("API Error:", err);
+
+    // Handle specific NostrServiceError instances
+    if (err instanceof NostrServiceError) {
+      const statusCode =
+        err.code === "INVALID_INPUT" ||
+        err.code === "INVALID_NPUB" ||
+        err.code === "INVALID_CHAIN_ID" ||
+        err.code === "INVALID_INDEX" ||
+        err.code === "INVALID_HASH" ||
+        err.code === "INVALID_SIGNATURE"
+          ? 400
+          : 500;
+
+      return NextResponse.json({ error: err.message, code: err.code }, { status: statusCode });
+    }
+
+    // Handle generic errors
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NostrServiceError } from "~~/services/nostrService.types";
+import { paymasterServiceServer } from "~~/services/paymasterService.server";
+import { type VoucherRequest, serializeVoucher } from "~~/services/paymasterVoucher";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const chainId = searchParams.get("chainId");
+
+    // Validate chainId parameter
+    if (!chainId || chainId.trim() === "") {
+      return NextResponse.json({ error: "Missing chainId parameter" }, { status: 400 });
+    }
+
+    const targetChainId = parseInt(chainId, 10);
+    if (isNaN(targetChainId) || targetChainId <= 0) {
+      return NextResponse.json({ error: "Invalid chainId parameter. Must be a positive integer." }, { status: 400 });
+    }
+
+    let body: Partial<VoucherRequest>;
+    try {
+      body = (await req.json()) as Partial<VoucherRequest>;
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
+
+    if (!body.npub || body.index === undefined || body.issuedAt === undefined || !body.signature) {
+      return NextResponse.json({ error: "Missing npub, index, issuedAt or signature" }, { status: 400 });
+    }
+
+    const voucher = await paymasterServiceServer.issueVoucher(targetChainId, body as VoucherRequest);
+
+    return NextResponse.json(serializeVoucher(voucher));
+  } catch (err) {
+    console.error("API Error:", err);
+
+    // Handle specific NostrServiceError instances
+    if (err instanceof NostrServiceError) {
+      const statusCode =
+        err.code === "SPONSORSHIP_UNAVAILABLE"
+          ? 503
+          : err.code === "INVALID_SIGNATURE" || err.code === "REQUEST_EXPIRED"
+            ? 401
+            : err.code === "INVALID_CHAIN_ID" || err.code === "INVALID_NPUB" || err.code === "INVALID_INDEX"
+              ? 400
+              : 500;
+
+      return NextResponse.json({ error: err.message, code: err.code }, { status: statusCode });
+    }
+
+    // Handle generic errors
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Address, type Hex, formatEther } from "viem";
+import { AddressInput, EtherInput } from "~~/components/scaffold-eth";
+import { useAppChainConfig } from "~~/hooks/useAppChainConfig";
+import { type CosignRequest, multisigCosignService } from "~~/services/multisigCosignService";
+import { decodeNpub } from "~~/services/nostrCore";
+import { toNostrMultisigSmartAccount } from "~~/services/nostrMultisigSmartAccount";
+import { decodeAccountCalls } from "~~/services/nostrSmartAccount";
+import { transactionService } from "~~/services/sendTransactionService";
+import { useGlobalState } from "~~/services/store/store";
+
+// Accepts one npub or 64-char hex public key per line
+const parseOwners = (input: string): Hex[] | null => {
+  const lines = input
+    .split(/[\s,]+/)
+    .map(line => line.trim())
+    .filter(Boolean);
+  const owners = lines.map(line => (line.startsWith("npub") ? decodeNpub(line) : line.replace(/^0x/, "")));
+  if (owners.some(owner => !owner || !/^[0-9a-fA-F]{64}$/.test(owner))) return null;
+  return owners.map(owner => `0x${owner!.toLowerCase()}` as Hex);
+};
+
+type DecodedCall = Awaited<ReturnType<typeof decodeAccountCalls>>[number];
+
+/**
+ * What a co-sign request asks to sign: the calls of its UserOperation, or the message of an ERC-1271 signature.
+ */
+const CosignRequestDetails = ({ request }: { request: CosignRequest }) => {
+  const [calls, setCalls] = useState<DecodedCall[] | null>(null);
+  const callData = request.userOperation?.callData;
+
+  useEffect(() => {
+    if (!callData) return;
+    decodeAccountCalls(callData)
+      .then(setCalls)
+      .catch(() => setCalls(null));
+  }, [callData]);
+
+  if (request.userOperation) {
+    if (!calls) return <p className="text-warning">Call data could not be decoded</p>;
+    return (
+      <ul className="font-mono text-xs space-y-1">
+        {calls.map((call, i) => (
+          <li key={i} className="break-all">
+            {call.to} · {formatEther(call.value)} ETH{call.data !== "0x" && ` · data ${call.data.slice(0, 10)}…`}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  if (request.message) {
+    const text =
+      request.message.type === "typedData"
+        ? JSON.stringify(request.message.typedData, (_, value) =>
+            typeof value === "bigint" ? value.toString() : value,
+          )
+        : typeof request.message.message === "string"
+          ? request.message.message
+          : request.message.message.raw;
+    return <pre className="text-xs whitespace-pre-wrap break-all max-h-40 overflow-auto">{text}</pre>;
+  }
+  return <p className="text-error">Only a hash, nothing to review</p>;
+};
+
+const MultisigPage = () => {
+  const cfg = useAppChainConfig();
+  const network = useGlobalState(state => state.targetNetwork);
+  const publicClient = useGlobalState(state => state.publicClient);
+  const nPubkey = useGlobalState(state => state.nPubkey);
+  const [ownersInput, setOwnersInput] = useState("");
+  const [threshold, setThreshold] = useState(2);
+  const [accountAddress, setAccountAddress] = useState<string | null>(null);
+  const [to, setTo] = useState<Address | string>("");
+  const [amountEth, setAmountEth] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [requests, setRequests] = useState<CosignRequest[]>([]);
+
+  const owners = useMemo(() => parseOwners(ownersInput), [ownersInput]);
+  const pubkey = useMemo(() => (nPubkey.startsWith("npub") ? decodeNpub(nPubkey) : nPubkey), [nPubkey]);
+
+  const buildAccount = useCallback(async () => {
+    if (!owners || !publicClient) throw new Error("Enter valid owners and connect first");
+    if (!cfg.multisigFactoryAddress) throw new Error(`No multisig factory deployed on ${network.name}`);
+
+    return toNostrMultisigSmartAccount({
+      client: publicClient,
+      owners,
+      threshold,
+      factoryAddress: cfg.multisigFactoryAddress,
+      entryPoint: { address: cfg.entryPointAddress, version: cfg.entryPointVersion },
+      collectSignatures: multisigCosignService.createSignatureCollector({
+        owners,
+        threshold,
+        chainId: network.id,
+        entryPointAddress: cfg.entryPointAddress,
+        entryPointVersion: cfg.entryPointVersion,
+      }),
+    });
+  }, [owners, threshold, publicClient, cfg, network]);
+
+  // Co-signer inbox: requests from other owners addressed to the connected key
+  useEffect(() => {
+    if (!pubkey) return;
+    return multisigCosignService.subscribeToRequests(pubkey, request => {
+      setRequests(current => (current.some(r => r.id === request.id) ? current : [request, ...current]));
+    });
+  }, [pubkey]);
+
+  const handleLoad = useCallback(async () => {
+    try {
+      const account = await buildAccount();
+      setAccountAddress(await account.getAddress());
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  }, [buildAccount]);
+
+  const handleSend = useCallback(async () => {
+    if (!to || !amountEth) return;
+    setStatus("Waiting for co-signers…");
+    try {
+      const account = await buildAccount();
+      const wei = transactionService.parseAmountToWei(amountEth);
+      const hash = await transactionService.sendTransaction(to as string, wei, 0n, account);
+      setStatus(`Included in ${hash}`);
+    } catch (err) {
+      console.error(err);
+      setStatus((err as Error).message || "Failed to send");
+    }
+  }, [to, amountEth, buildAccount]);
+
+  const handleApprove = useCallback(async (request: CosignRequest) => {
+    try {
+      await multisigCosignService.approveRequest(request);
+      setRequests(current => current.filter(r => r.id !== request.id));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  }, []);
+
+  return (
+    <div className="px-4 py-6 max-w-3xl">
+      <h1 className="text-2xl font-semibold mb-4">Multisig</h1>
+
+      <div className="card bg-base-100 shadow mb-6">
+        <div className="card-body gap-4">
+          <h2 className="card-title">Account</h2>
+          <label className="form-control">
+            <span className="label-text mb-1">Owners (one npub or hex key per line)</span>
+            <textarea
+              className="textarea textarea-bordered font-mono text-xs"
+              rows={4}
+              value={ownersInput}
+              onChange={e => setOwnersInput(e.target.value)}
+            />
+          </label>
+          <label className="form-control w-40">
+            <span className="label-text mb-1">Threshold</span>
+            <input
+              type="number"
+              min={1}
+              max={owners?.length ?? 1}
+              className="input input-bordered"
+              value={threshold}
+              onChange={e => setThreshold(Number(e.target.value))}
+            />
+          </label>
+          {ownersInput && !owners && <p className="text-error text-sm">Invalid owner key</p>}
+          <div className="flex items-center gap-4">
+            <button type="button" className="btn btn-primary btn-sm" onClick={handleLoad} disabled={!owners}>
+              Load account
+            </button>
+            {accountAddress && <span className="font-mono text-sm break-all">{accountAddress}</span>}
+          </div>
+        </div>
+      </div>
+
+      <div className="card bg-base-100 shadow mb-6">
+        <div className="card-body gap-4">
+          <h2 className="card-title">Send</h2>
+          <AddressInput name="to" placeholder="0x… or alice.eth" value={to} onChange={setTo} />
+          <EtherInput name="amount" placeholder="0.01" value={amountEth} onChange={setAmountEth} />
+          <button
+            type="button"
+            className="btn btn-primary btn-sm w-fit"
+            onClick={handleSend}
+            disabled={!owners || !to || !amountEth}
+          >
+            Request signatures and send
+          </button>
+          {status && <p className="text-sm break-all">{status}</p>}
+        </div>
+      </div>
+
+      <div className="card bg-base-100 shadow">
+        <div className="card-body gap-4">
+          <h2 className="card-title">Co-sign Requests</h2>
+          {!pubkey && <p className="text-sm opacity-70">Connect your Nostr wallet to receive requests.</p>}
+          {pubkey && requests.length === 0 && <p className="text-sm opacity-70">No pending requests.</p>}
+          {requests.map(request => (
+            <div key={request.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-base-200">
+              <div className="min-w-0 text-sm space-y-1">
+                <p className="font-mono truncate">{request.account}</p>
+                <p className="opacity-70">
+                  Chain {request.chainId}
+                  {request.userOperation && ` · nonce ${request.userOperation.nonce.toString()}`}
+                  {request.userOperation?.maxFeePerGas !== undefined &&
+                    ` · max fee ${formatEther(request.userOperation.maxFeePerGas)} ETH/gas`}
+                  {request.message && " · message signature"}
+                </p>
+                <CosignRequestDetails request={request} />
+              </div>
+              <button
+                type="button"
+                className="btn btn-secondary btn-xs"
+                onClick={() => handleApprove(request)}
+                disabled={!request.userOperation && !request.message}
+              >
+                Sign
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MultisigPage;
@@ -36,12 +36,24 @@ const NetworkPage: React.FC = () => {
                 <span className="font-mono break-all">{cfg.factoryAddress}</span>
               </div>
             )}
+            {cfg.multisigFactoryAddress && (
+              <div className="flex items-center justify-between">
+                <span className="opacity-70">Multisig Factory</span>
+                <span className="font-mono break-all">{cfg.multisigFactoryAddress}</span>
+              </div>
+            )}
             {cfg.entryPointAddress && (
               <div className="flex items-center justify-between">
                 <span className="opacity-70">EntryPoint</span>
                 <span className="font-mono break-all">{cfg.entryPointAddress}</span>
               </div>
             )}
+            {cfg.entryPointVersion && (
+              <div className="flex items-center justify-between">
+                <span className="opacity-70">EntryPoint Version</span>
+                <span className="font-mono">v{cfg.entryPointVersion}</span>
+              </div>
+            )}
             {network.blockExplorers?.default?.url && (
               <div className="flex items-center justify-between">
                 <span className="opacity-70">Explorer</span>
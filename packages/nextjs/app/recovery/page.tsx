@@ -0,0 +1,313 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { type Address, type Hex, isAddress } from "viem";
+import { useAccount, useWriteContract } from "wagmi";
+import { AddressInput, RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
+import { decodeNpub } from "~~/services/nostrCore";
+import { npubAccountsService } from "~~/services/npubAccountsService";
+import { type RecoveryState, npubAccountRecoveryAbi, recoveryService } from "~~/services/recoveryService";
+import { useGlobalState } from "~~/services/store/store";
+
+// Accepts an npub or a 64-char hex public key
+const parsePubkey = (input: string): Hex | null => {
+  const value = input.trim();
+  const key = value.startsWith("npub") ? decodeNpub(value) : value.replace(/^0x/, "");
+  if (!key || !/^[0-9a-fA-F]{64}$/.test(key)) return null;
+  return `0x${key.toLowerCase()}`;
+};
+
+const parseList = (input: string) =>
+  input
+    .split(/[\s,]+/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+const formatTimestamp = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleString();
+
+const RecoveryPage = () => {
+  const walletAddress = useGlobalState(state => state.walletAddress);
+  const nPubkey = useGlobalState(state => state.nPubkey);
+  const { address: evmAddress } = useAccount();
+  const { writeContractAsync } = useWriteContract();
+
+  const [state, setState] = useState<RecoveryState | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Guardian configuration of the connected account
+  const [addressGuardiansInput, setAddressGuardiansInput] = useState("");
+  const [npubGuardiansInput, setNpubGuardiansInput] = useState("");
+  const [threshold, setThreshold] = useState(1);
+  const [delayHours, setDelayHours] = useState(48);
+
+  // Recovery of someone else's account
+  const [targetAccount, setTargetAccount] = useState<Address | string>("");
+  const [newOwnerInput, setNewOwnerInput] = useState("");
+  const [targetState, setTargetState] = useState<RecoveryState | null>(null);
+
+  const addressGuardians = useMemo(() => parseList(addressGuardiansInput), [addressGuardiansInput]);
+  const npubGuardians = useMemo(() => parseList(npubGuardiansInput).map(parsePubkey), [npubGuardiansInput]);
+  const guardiansValid = addressGuardians.every(guardian => isAddress(guardian)) && !npubGuardians.includes(null);
+  const guardianCount = addressGuardians.length + npubGuardians.length;
+  const newOwner = useMemo(() => parsePubkey(newOwnerInput), [newOwnerInput]);
+  const pubkey = useMemo(() => (nPubkey ? parsePubkey(nPubkey) : null), [nPubkey]);
+
+  const refresh = useCallback(async () => {
+    if (!walletAddress) return;
+    try {
+      setState(await recoveryService.getRecoveryState(walletAddress as Address));
+    } catch (err) {
+      console.error("Failed to load recovery state:", err);
+    }
+  }, [walletAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = useCallback(async (label: string, action: () => Promise<unknown>) => {
+    setStatus(`${label}…`);
+    try {
+      await action();
+      setStatus(`${label} done`);
+    } catch (err) {
+      console.error(err);
+      setStatus((err as Error).message || `${label} failed`);
+    }
+  }, []);
+
+  const handleSetGuardians = () =>
+    run("Updating guardians", async () => {
+      await recoveryService.setGuardians({
+        addressGuardians: addressGuardians as Address[],
+        npubGuardians: npubGuardians as Hex[],
+        threshold,
+        delaySeconds: delayHours * 60 * 60,
+      });
+      await refresh();
+    });
+
+  const handleCancel = () =>
+    run("Cancelling recovery", async () => {
+      await recoveryService.cancelRecovery();
+      await refresh();
+    });
+
+  const handleLoadTarget = () =>
+    run("Loading account", async () => {
+      const loaded = await recoveryService.getRecoveryState(targetAccount as Address);
+      if (!loaded) throw new Error("Account is not deployed on this network");
+      setTargetState(loaded);
+    });
+
+  const handleApproveWithNpub = () =>
+    run("Approving recovery", async () => {
+      if (!pubkey || !newOwner) return;
+      await recoveryService.approveAsNpubGuardian(targetAccount as Address, pubkey, newOwner);
+      setTargetState(await recoveryService.getRecoveryState(targetAccount as Address));
+    });
+
+  const handleApproveWithAddress = () =>
+    run("Approving recovery", async () => {
+      if (!newOwner) return;
+      await writeContractAsync({
+        address: targetAccount as Address,
+        abi: npubAccountRecoveryAbi,
+        functionName: "approveRecovery",
+        args: [BigInt(newOwner)],
+      });
+      setTargetState(await recoveryService.getRecoveryState(targetAccount as Address));
+    });
+
+  const handleExecute = () =>
+    run("Executing recovery", async () => {
+      const recoveredOwner = targetState?.pending?.newOwner;
+      await recoveryService.executeRecovery(targetAccount as Address);
+      setTargetState(await recoveryService.getRecoveryState(targetAccount as Address));
+
+      // Executed by the new owner: switch the session over to the recovered account
+      if (recoveredOwner && recoveredOwner === pubkey) {
+        await npubAccountsService.switchTo(npubAccountsService.addTakenOverAccount(pubkey, targetAccount as Address));
+      }
+    });
+
+  const isNpubGuardian = !!pubkey && !!targetState?.npubGuardians.includes(pubkey);
+  const isAddressGuardian =
+    !!evmAddress && !!targetState?.addressGuardians.some(g => g.toLowerCase() === evmAddress.toLowerCase());
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const canExecute = !!targetState?.pending && targetState.pending.executableAt !== 0n;
+
+  return (
+    <div className="px-4 py-6 max-w-3xl">
+      <h1 className="text-2xl font-semibold mb-4">Social Recovery</h1>
+
+      <div className="card bg-base-100 shadow mb-6">
+        <div className="card-body gap-4">
+          <h2 className="card-title">Your Guardians</h2>
+          {!walletAddress && <p className="text-sm opacity-70">Connect your Nostr wallet to configure guardians.</p>}
+          {walletAddress && !state && (
+            <p className="text-sm opacity-70">Guardians can be set once your first transaction deploys the account.</p>
+          )}
+          {state && (
+            <div className="text-sm space-y-1">
+              <p>
+                {state.addressGuardians.length + state.npubGuardians.length} guardian(s), {state.threshold.toString()}{" "}
+                approval(s) required, {(Number(state.delay) / 3600).toString()}h timelock
+              </p>
+              {state.addressGuardians.map(guardian => (
+                <p key={guardian} className="font-mono break-all">
+                  {guardian}
+                </p>
+              ))}
+              {state.npubGuardians.map(guardian => (
+                <p key={guardian} className="font-mono break-all">
+                  {guardian}
+                </p>
+              ))}
+            </div>
+          )}
+          <label className="form-control">
+            <span className="label-text mb-1">EVM guardians (one address per line)</span>
+            <textarea
+              className="textarea textarea-bordered font-mono text-xs"
+              rows={2}
+              value={addressGuardiansInput}
+              onChange={e => setAddressGuardiansInput(e.target.value)}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text mb-1">Nostr guardians (one npub or hex key per line)</span>
+            <textarea
+              className="textarea textarea-bordered font-mono text-xs"
+              rows={2}
+              value={npubGuardiansInput}
+              onChange={e => setNpubGuardiansInput(e.target.value)}
+            />
+          </label>
+          <div className="flex gap-4">
+            <label className="form-control w-40">
+              <span className="label-text mb-1">Threshold</span>
+              <input
+                type="number"
+                min={1}
+                max={Math.max(guardianCount, 1)}
+                className="input input-bordered"
+                value={threshold}
+                onChange={e => setThreshold(Number(e.target.value))}
+              />
+            </label>
+            <label className="form-control w-40">
+              <span className="label-text mb-1">Timelock (hours)</span>
+              <input
+                type="number"
+                min={0}
+                className="input input-bordered"
+                value={delayHours}
+                onChange={e => setDelayHours(Number(e.target.value))}
+              />
+            </label>
+          </div>
+          {!guardiansValid && <p className="text-error text-sm">Invalid guardian</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="btn btn-primary btn-sm"
+              onClick={handleSetGuardians}
+              disabled={!walletAddress || !guardiansValid || threshold > guardianCount}
+            >
+              Save guardians
+            </button>
+            {state?.pending && (
+              <button type="button" className="btn btn-error btn-sm" onClick={handleCancel}>
+                Cancel recovery to {state.pending.newOwner.slice(0, 10)}…
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="card bg-base-100 shadow mb-6">
+        <div className="card-body gap-4">
+          <h2 className="card-title">Recover an Account</h2>
+          <AddressInput
+            name="account"
+            placeholder="Account to recover"
+            value={targetAccount}
+            onChange={setTargetAccount}
+          />
+          <label className="form-control">
+            <span className="label-text mb-1">New owner (npub or hex key)</span>
+            <input
+              className="input input-bordered font-mono text-xs"
+              value={newOwnerInput}
+              onChange={e => setNewOwnerInput(e.target.value)}
+            />
+          </label>
+          {newOwnerInput && !newOwner && <p className="text-error text-sm">Invalid public key</p>}
+          <button
+            type="button"
+            className="btn btn-secondary btn-sm w-fit"
+            onClick={handleLoadTarget}
+            disabled={!isAddress(targetAccount)}
+          >
+            Load account
+          </button>
+          {targetState && (
+            <div className="text-sm space-y-1">
+              {targetState.pending ? (
+                <>
+                  <p className="break-all">
+                    {targetState.pending.executableAt !== 0n ? "Scheduled recovery to" : "Latest proposal:"}{" "}
+                    <span className="font-mono">{targetState.pending.newOwner}</span>
+                  </p>
+                  <p>
+                    {targetState.pending.approvals.toString()} of {targetState.threshold.toString()} approvals
+                    {targetState.pending.executableAt !== 0n &&
+                      ` · executable ${formatTimestamp(targetState.pending.executableAt)}`}
+                  </p>
+                </>
+              ) : (
+                <p>No recovery in progress</p>
+              )}
+            </div>
+          )}
+          {targetState && (
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                className="btn btn-primary btn-sm"
+                onClick={handleApproveWithNpub}
+                disabled={!isNpubGuardian || !newOwner || !walletAddress}
+              >
+                Approve with Nostr key
+              </button>
+              {evmAddress ? (
+                <button
+                  type="button"
+                  className="btn btn-primary btn-sm"
+                  onClick={handleApproveWithAddress}
+                  disabled={!isAddressGuardian || !newOwner}
+                >
+                  Approve with EVM wallet
+                </button>
+              ) : (
+                <RainbowKitCustomConnectButton />
+              )}
+              <button
+                type="button"
+                className="btn btn-accent btn-sm"
+                onClick={handleExecute}
+                disabled={!canExecute || targetState.pending!.executableAt > now || !walletAddress}
+              >
+                Execute recovery
+              </button>
+            </div>
+          )}
+          {status && <p className="text-sm break-all">{status}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryPage;
@@ -0,0 +1,209 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Address, type Hex, formatEther, isAddress, isHex, parseEther, toFunctionSelector } from "viem";
+import { AddressInput, EtherInput } from "~~/components/scaffold-eth";
+import { type AccountSession, sessionKeyService } from "~~/services/sessionKeyService";
+import { useGlobalState } from "~~/services/store/store";
+
+const parseList = (input: string) =>
+  input
+    .split(/[\n,]+/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+// Accepts a 4-byte selector or a function signature such as transfer(address,uint256)
+const parseSelector = (input: string): Hex | null => {
+  if (isHex(input) && input.length === 10) return input.toLowerCase() as Hex;
+  try {
+    return toFunctionSelector(input);
+  } catch {
+    return null;
+  }
+};
+
+const SessionsPage = () => {
+  const walletAddress = useGlobalState(state => state.walletAddress);
+  const [targetsInput, setTargetsInput] = useState("");
+  const [selectorsInput, setSelectorsInput] = useState("");
+  const [valueLimitEth, setValueLimitEth] = useState("0");
+  const [validForHours, setValidForHours] = useState(24);
+  const [session, setSession] = useState<AccountSession | null>(null);
+  const [sessionState, setSessionState] = useState<{ revoked: boolean; valueSpent: bigint } | null>(null);
+  const [to, setTo] = useState<Address | string>("");
+  const [amountEth, setAmountEth] = useState("");
+  const [data, setData] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+
+  const targets = useMemo(() => parseList(targetsInput), [targetsInput]);
+  const selectors = useMemo(() => parseList(selectorsInput).map(parseSelector), [selectorsInput]);
+  const isValid = targets.every(target => isAddress(target)) && !selectors.includes(null);
+
+  const refresh = useCallback(async () => {
+    if (!session) return;
+    try {
+      setSessionState(await sessionKeyService.getSessionState(session));
+    } catch (err) {
+      console.error("Failed to load session state:", err);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = useCallback(async (label: string, action: () => Promise<unknown>) => {
+    setStatus(`${label}…`);
+    try {
+      const result = await action();
+      setStatus(typeof result === "string" ? `${label} done: ${result}` : `${label} done`);
+    } catch (err) {
+      console.error(err);
+      setStatus((err as Error).message || `${label} failed`);
+    }
+  }, []);
+
+  const handleCreate = () =>
+    run("Approving session key", async () => {
+      const created = await sessionKeyService.createSession({
+        targets: targets as Address[],
+        selectors: selectors as Hex[],
+        valueLimit: parseEther(valueLimitEth || "0"),
+        validForSeconds: validForHours * 60 * 60,
+      });
+      setSession(created);
+    });
+
+  const handleSend = () =>
+    run("Sending with session key", async () => {
+      if (!session) return;
+      const hash = await sessionKeyService.sendCalls(session, [
+        {
+          to: to as Address,
+          value: amountEth ? parseEther(amountEth) : 0n,
+          data: (data || "0x") as Hex,
+        },
+      ]);
+      await refresh();
+      return hash;
+    });
+
+  const handleRevoke = () =>
+    run("Revoking session key", async () => {
+      if (!session) return;
+      await sessionKeyService.revokeSession(session);
+      await refresh();
+    });
+
+  const expired = !!session && session.delegation.validUntil * 1000 < Date.now();
+
+  return (
+    <div className="px-4 py-6 max-w-3xl">
+      <h1 className="text-2xl font-semibold mb-4">Session Keys</h1>
+      <p className="text-sm opacity-70 mb-6">
+        Approve a temporary key once with your Nostr extension. Transactions within its limits are then signed in the
+        browser without further prompts.
+      </p>
+
+      <div className="card bg-base-100 shadow mb-6">
+        <div className="card-body gap-4">
+          <h2 className="card-title">New Session</h2>
+          <label className="form-control">
+            <span className="label-text mb-1">Allowed contracts (one per line, empty for any)</span>
+            <textarea
+              className="textarea textarea-bordered font-mono text-xs"
+              rows={2}
+              value={targetsInput}
+              onChange={e => setTargetsInput(e.target.value)}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text mb-1">
+              Allowed functions (selector or signature per line, empty for any, 0x00000000 for transfers)
+            </span>
+            <textarea
+              className="textarea textarea-bordered font-mono text-xs"
+              rows={2}
+              value={selectorsInput}
+              onChange={e => setSelectorsInput(e.target.value)}
+            />
+          </label>
+          <div className="flex gap-4">
+            <label className="form-control w-48">
+              <span className="label-text mb-1">Total value limit (ETH)</span>
+              <EtherInput name="valueLimit" placeholder="0" value={valueLimitEth} onChange={setValueLimitEth} />
+            </label>
+            <label className="form-control w-40">
+              <span className="label-text mb-1">Valid for (hours)</span>
+              <input
+                type="number"
+                min={1}
+                className="input input-bordered"
+                value={validForHours}
+                onChange={e => setValidForHours(Number(e.target.value))}
+              />
+            </label>
+          </div>
+          {!isValid && <p className="text-error text-sm">Invalid contract address or function</p>}
+          <button
+            type="button"
+            className="btn btn-primary btn-sm w-fit"
+            onClick={handleCreate}
+            disabled={!walletAddress || !isValid || validForHours <= 0}
+          >
+            Approve session key
+          </button>
+        </div>
+      </div>
+
+      {session && (
+        <div className="card bg-base-100 shadow">
+          <div className="card-body gap-4">
+            <h2 className="card-title">Active Session</h2>
+            <div className="text-sm space-y-1">
+              <p className="font-mono break-all">{session.delegation.sessionKey}</p>
+              <p>
+                Expires {new Date(session.delegation.validUntil * 1000).toLocaleString()}
+                {expired && " (expired)"}
+              </p>
+              <p>
+                Spent {formatEther(sessionState?.valueSpent ?? 0n)} of {formatEther(session.delegation.valueLimit)} ETH
+              </p>
+              {sessionState?.revoked && <p className="text-error">Revoked</p>}
+            </div>
+            <AddressInput name="to" placeholder="0x… or alice.eth" value={to} onChange={setTo} />
+            <EtherInput name="amount" placeholder="0" value={amountEth} onChange={setAmountEth} />
+            <input
+              className="input input-bordered font-mono text-xs"
+              placeholder="Call data (0x…)"
+              value={data}
+              onChange={e => setData(e.target.value.trim())}
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                className="btn btn-primary btn-sm"
+                onClick={handleSend}
+                disabled={!to || expired || sessionState?.revoked || (!!data && !isHex(data))}
+              >
+                Send with session key
+              </button>
+              <button
+                type="button"
+                className="btn btn-error btn-sm"
+                onClick={handleRevoke}
+                disabled={sessionState?.revoked}
+              >
+                Revoke
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {status && <p className="text-sm break-all mt-4">{status}</p>}
+    </div>
+  );
+};
+
+export default SessionsPage;
@@ -0,0 +1,402 @@
+"use client";
+
+import { useState } from "react";
+import {
+  type Address,
+  type Hex,
+  decodeFunctionData,
+  encodeFunctionData,
+  erc20Abi,
+  formatEther,
+  formatUnits,
+  isAddress,
+  isHex,
+  parseEther,
+  parseUnits,
+} from "viem";
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { AddressInput, EtherInput } from "~~/components/scaffold-eth";
+import { useSelectedNetwork } from "~~/hooks/scaffold-eth/useSelectedNetwork";
+import { feeStrategyService } from "~~/services/feeStrategyService";
+import { decodeAccountCalls } from "~~/services/nostrSmartAccount";
+import {
+  type PreparedUserOperation,
+  type TransactionCall,
+  transactionService,
+} from "~~/services/sendTransactionService";
+import { NATIVE_TOKEN, spendingLimitService } from "~~/services/spendingLimitService";
+import { getPublicClient, useGlobalState } from "~~/services/store/store";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
+
+type RowKind = "eth" | "erc20" | "calldata";
+
+type BatchRow = {
+  id: number;
+  kind: RowKind;
+  to: string;
+  // ETH for "eth" and "calldata" rows, token units for "erc20" rows
+  amount: string;
+  token: string;
+  data: string;
+};
+
+type TokenInfo = { symbol: string; decimals: number };
+
+/** A built call together with what the user entered for it */
+type ReviewedRow = {
+  call: TransactionCall;
+  summary: string;
+  // Decoded from the UserOperation call data, not from the form
+  decoded: string;
+};
+
+type BatchReview = {
+  prepared: PreparedUserOperation;
+  rows: ReviewedRow[];
+  maxGasCost: bigint;
+  // Spending policy violations, the batch would revert on-chain
+  limitReasons: string[];
+};
+
+type BatchBuilderProps = {
+  nonceKey: bigint | null;
+  onSent: () => Promise<void>;
+};
+
+let nextRowId = 0;
+const newRow = (kind: RowKind = "eth"): BatchRow => ({
+  id: nextRowId++,
+  kind,
+  to: "",
+  amount: "",
+  token: "",
+  data: "",
+});
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const isRowValid = (row: BatchRow) => {
+  if (!isAddress(row.to)) return false;
+  switch (row.kind) {
+    case "eth":
+      return !!row.amount;
+    case "erc20":
+      return isAddress(row.token) && !!row.amount;
+    case "calldata":
+      return isHex(row.data);
+  }
+};
+
+const readTokenInfo = async (token: Address): Promise<TokenInfo> => {
+  const publicClient = getPublicClient();
+  const [symbol, decimals] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: "symbol" }),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: "decimals" }),
+  ]);
+  return { symbol, decimals };
+};
+
+const buildCall = (row: BatchRow, tokens: Map<string, TokenInfo>): { call: TransactionCall; summary: string } => {
+  const to = row.to as Address;
+  switch (row.kind) {
+    case "eth": {
+      const value = parseEther(row.amount);
+      return { call: { to, value, data: "0x" }, summary: `Send ${formatEther(value)} ETH to ${shortAddress(to)}` };
+    }
+    case "erc20": {
+      const token = tokens.get(row.token.toLowerCase())!;
+      const amount = parseUnits(row.amount, token.decimals);
+      return {
+        call: {
+          to: row.token as Address,
+          value: 0n,
+          data: encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [to, amount] }),
+        },
+        summary: `Send ${formatUnits(amount, token.decimals)} ${token.symbol} to ${shortAddress(to)}`,
+      };
+    }
+    case "calldata": {
+      const value = row.amount ? parseEther(row.amount) : 0n;
+      return {
+        call: { to, value, data: row.data as Hex },
+        summary: `Call ${shortAddress(to)}${value > 0n ? ` with ${formatEther(value)} ETH` : ""}`,
+      };
+    }
+  }
+};
+
+const describeDecodedCall = (call: { to: string; value: bigint; data: Hex }, tokens: Map<string, TokenInfo>) => {
+  const value = call.value > 0n ? `, value ${formatEther(call.value)} ETH` : "";
+  if (call.data === "0x") return `${call.to}${value}`;
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: call.data });
+    const token = tokens.get(call.to.toLowerCase());
+    const formatted = args.map(arg =>
+      typeof arg === "bigint" && token ? `${formatUnits(arg, token.decimals)} ${token.symbol}` : String(arg),
+    );
+    return `${call.to}.${functionName}(${formatted.join(", ")})${value}`;
+  } catch {
+    return `${call.to}.${call.data.slice(0, 10)}(${(call.data.length - 10) / 2} bytes)${value}`;
+  }
+};
+
+/**
+ * Builds several ETH, ERC-20 and arbitrary calls into a single UserOperation, reviewed before signing.
+ */
+export const BatchBuilder = ({ nonceKey, onSent }: BatchBuilderProps) => {
+  const walletAddress = useGlobalState(state => state.walletAddress);
+  const nativeCurrencyPrice = useGlobalState(state => state.nativeCurrency.price);
+  const network = useSelectedNetwork();
+  const [rows, setRows] = useState<BatchRow[]>(() => [newRow()]);
+  const [review, setReview] = useState<BatchReview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+
+  const updateRow = (id: number, patch: Partial<BatchRow>) => {
+    setReview(null);
+    setRows(current => current.map(row => (row.id === id ? { ...row, ...patch } : row)));
+  };
+
+  const removeRow = (id: number) => {
+    setReview(null);
+    setRows(current => current.filter(row => row.id !== id));
+  };
+
+  const addRow = () => {
+    setReview(null);
+    setRows(current => [...current, newRow()]);
+  };
+
+  const handleReview = async () => {
+    if (nonceKey === null) return;
+    setBusy(true);
+    setStatus(null);
+    setTxHash(null);
+    try {
+      const tokenAddresses = [
+        ...new Set(rows.filter(row => row.kind === "erc20").map(row => row.token.toLowerCase())),
+      ] as Address[];
+      const tokens = new Map<string, TokenInfo>(
+        await Promise.all(tokenAddresses.map(async token => [token, await readTokenInfo(token)] as const)),
+      );
+
+      const built = rows.map(row => buildCall(row, tokens));
+      const prepared = await transactionService.prepareCalls(
+        built.map(({ call }) => call),
+        nonceKey,
+      );
+      const decoded = await decodeAccountCalls(prepared.userOperation.callData);
+
+      // Same totals the account charges against its limits: ETH value plus ERC-20 transfers
+      const limitReasons: string[] = [];
+      const ethTotal = built.reduce((total, { call }) => total + (call.value ?? 0n), 0n);
+      const ethAllowance = await spendingLimitService.getAllowance(walletAddress as Address);
+      const ethReason = spendingLimitService.checkSpend(ethAllowance, ethTotal, NATIVE_TOKEN);
+      if (ethReason) limitReasons.push(ethReason);
+      for (const token of tokenAddresses) {
+        const total = rows
+          .filter(row => row.kind === "erc20" && row.token.toLowerCase() === token)
+          .reduce((sum, row) => sum + parseUnits(row.amount, tokens.get(token)!.decimals), 0n);
+        const reason = spendingLimitService.checkSpend(
+          await spendingLimitService.getAllowance(walletAddress as Address, token),
+          total,
+          token,
+        );
+        if (reason) limitReasons.push(reason);
+      }
+
+      setReview({
+        prepared,
+        rows: built.map((row, i) => ({
+          ...row,
+          decoded: decoded[i] ? describeDecodedCall(decoded[i], tokens) : "Missing from the operation",
+        })),
+        maxGasCost: transactionService.getMaxGasCost(prepared),
+        limitReasons,
+      });
+    } catch (err) {
+      console.error(err);
+      setStatus(spendingLimitService.explainError(err) ?? ((err as Error).message || "Failed to prepare the batch"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!review) return;
+    setBusy(true);
+    setStatus(null);
+    try {
+      const hash = await transactionService.submitUserOperation(review.prepared);
+      setTxHash(hash);
+      setReview(null);
+      setRows([newRow()]);
+      await onSent();
+    } catch (err) {
+      console.error(err);
+      setStatus(spendingLimitService.explainError(err) ?? ((err as Error).message || "Failed to send the batch"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canReview = !busy && nonceKey !== null && rows.length > 0 && rows.every(isRowValid);
+  const op = review?.prepared.userOperation;
+
+  return (
+    <div className="mt-8 bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 p-8">
+      <h2 className="text-2xl font-light text-slate-900 dark:text-slate-100 mb-2">Batch Transactions</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+        Combine transfers and contract calls into one operation. They are executed in order and revert together.
+      </p>
+
+      <div className="space-y-4">
+        {rows.map((row, index) => (
+          <div key={row.id} className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-300">#{index + 1}</span>
+              <div className="flex items-center gap-2">
+                <select
+                  className="select select-bordered select-sm"
+                  value={row.kind}
+                  onChange={e => updateRow(row.id, { kind: e.target.value as RowKind })}
+                >
+                  <option value="eth">ETH</option>
+                  <option value="erc20">ERC-20</option>
+                  <option value="calldata">Call data</option>
+                </select>
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-sm btn-square"
+                  title="Remove"
+                  onClick={() => removeRow(row.id)}
+                  disabled={rows.length === 1}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+            {row.kind === "erc20" && (
+              <AddressInput
+                name={`token-${row.id}`}
+                placeholder="Token address"
+                value={row.token}
+                onChange={token => updateRow(row.id, { token })}
+              />
+            )}
+            <AddressInput
+              name={`to-${row.id}`}
+              placeholder={row.kind === "calldata" ? "Contract address" : "Recipient"}
+              value={row.to}
+              onChange={to => updateRow(row.id, { to })}
+            />
+            {row.kind === "erc20" ? (
+              <input
+                className="input input-bordered w-full"
+                placeholder="Amount in tokens"
+                value={row.amount}
+                onChange={e => updateRow(row.id, { amount: e.target.value.trim() })}
+              />
+            ) : (
+              <EtherInput
+                name={`amount-${row.id}`}
+                placeholder={row.kind === "calldata" ? "Value (optional)" : "0"}
+                value={row.amount}
+                onChange={amount => updateRow(row.id, { amount })}
+              />
+            )}
+            {row.kind === "calldata" && (
+              <input
+                className="input input-bordered w-full font-mono text-xs"
+                placeholder="Call data (0x…)"
+                value={row.data}
+                onChange={e => updateRow(row.id, { data: e.target.value.trim() })}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        <button type="button" className="btn btn-ghost btn-sm" onClick={addRow} disabled={busy}>
+          <PlusIcon className="h-4 w-4" />
+          Add call
+        </button>
+        <button type="button" className="btn btn-primary btn-sm" onClick={handleReview} disabled={!canReview}>
+          {busy && !review ? "Preparing..." : "Review batch"}
+        </button>
+      </div>
+
+      {review && op && (
+        <div className="mt-6 space-y-4">
+          <div>
+            <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Breakdown</p>
+            <ol className="space-y-2">
+              {review.rows.map((row, index) => (
+                <li key={index} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-sm">
+                  <p>
+                    {index + 1}. {row.summary}
+                  </p>
+                  <p className="font-mono text-xs text-slate-500 dark:text-slate-400 break-all">{row.decoded}</p>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-slate-500 dark:text-slate-400">Call gas</p>
+              <p className="font-medium">{op.callGasLimit.toString()}</p>
+            </div>
+            <div>
+              <p className="text-slate-500 dark:text-slate-400">Verification gas</p>
+              <p className="font-medium">{op.verificationGasLimit.toString()}</p>
+            </div>
+            <div>
+              <p className="text-slate-500 dark:text-slate-400">Pre-verification gas</p>
+              <p className="font-medium">{op.preVerificationGas.toString()}</p>
+            </div>
+            <div>
+              <p className="text-slate-500 dark:text-slate-400">Max gas cost</p>
+              <p className="font-medium">
+                {feeStrategyService.formatCost(review.maxGasCost, nativeCurrencyPrice)}
+                {review.prepared.sponsored && " (sponsored)"}
+                {review.prepared.gasToken && ` (paid in ${review.prepared.gasToken.symbol})`}
+              </p>
+            </div>
+          </div>
+
+          {review.limitReasons.length > 0 && (
+            <div className="alert alert-warning text-sm">
+              <div>
+                {review.limitReasons.map(reason => (
+                  <p key={reason}>{reason}</p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={handleSend}
+            disabled={busy || review.limitReasons.length > 0}
+          >
+            {busy ? "Sending..." : `Sign & send ${review.rows.length} call${review.rows.length === 1 ? "" : "s"}`}
+          </button>
+        </div>
+      )}
+
+      {txHash && (
+        <p className="mt-4 text-sm break-all">
+          Batch included in{" "}
+          <a className="link" href={getBlockExplorerTxLink(network.id, txHash)} target="_blank" rel="noreferrer">
+            {txHash}
+          </a>
+        </p>
+      )}
+      {status && <p className="mt-4 text-sm break-all">{status}</p>}
+    </div>
+  );
+};
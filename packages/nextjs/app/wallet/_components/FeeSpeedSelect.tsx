@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatGwei } from "viem";
+import { useSelectedNetwork } from "~~/hooks/scaffold-eth/useSelectedNetwork";
+import scaffoldConfig from "~~/scaffold.config";
+import {
+  FEE_SPEEDS,
+  type FeeSpeed,
+  TRANSFER_GAS_ESTIMATE,
+  type UserOperationFees,
+  feeStrategyService,
+} from "~~/services/feeStrategyService";
+import { useGlobalState } from "~~/services/store/store";
+
+const SPEED_LABELS: Record<FeeSpeed, string> = { slow: "Slow", normal: "Normal", fast: "Fast" };
+
+/**
+ * Fee preset picker showing the current max fee of each preset and what a transfer costs with it.
+ */
+export const FeeSpeedSelect = () => {
+  const network = useSelectedNetwork();
+  const feeSpeed = useGlobalState(state => state.feeSpeed);
+  const setFeeSpeed = useGlobalState(state => state.setFeeSpeed);
+  const nativeCurrencyPrice = useGlobalState(state => state.nativeCurrency.price);
+  const [fees, setFees] = useState<Record<FeeSpeed, UserOperationFees> | null>(null);
+
+  // Refreshed while the page is open, a response for the previous network is ignored
+  useEffect(() => {
+    let cancelled = false;
+    const loadFees = () =>
+      feeStrategyService
+        .getAllFees(network.id)
+        .then(presets => {
+          if (!cancelled) setFees(presets);
+        })
+        .catch(err => {
+          console.error("Failed to load fee presets:", err);
+          if (!cancelled) setFees(null);
+        });
+
+    loadFees();
+    const timer = setInterval(loadFees, scaffoldConfig.pollingInterval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [network.id]);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Network Fee</label>
+      <div className="grid grid-cols-3 gap-2">
+        {FEE_SPEEDS.map(speed => (
+          <button
+            key={speed}
+            type="button"
+            className={`btn btn-sm h-auto py-2 flex-col gap-0 ${feeSpeed === speed ? "btn-primary" : "btn-outline"}`}
+            onClick={() => setFeeSpeed(speed)}
+            aria-pressed={feeSpeed === speed}
+          >
+            <span>{SPEED_LABELS[speed]}</span>
+            {fees && (
+              <span className="text-xs font-normal">
+                {Number(formatGwei(fees[speed].maxFeePerGas)).toFixed(3)} gwei
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      {fees && (
+        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+          A transfer costs up to{" "}
+          {feeStrategyService.formatCost(TRANSFER_GAS_ESTIMATE * fees[feeSpeed].maxFeePerGas, nativeCurrencyPrice)}.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Address } from "viem";
+import { useNpubAccounts } from "~~/hooks/useNpubAccounts";
+import { npubAccountsService } from "~~/services/npubAccountsService";
+import { useGlobalState } from "~~/services/store/store";
+
+// Offered when naming a new account, any other label works too
+const LABEL_SUGGESTIONS = ["Savings", "Spending", "Trading", "Donations"];
+
+/**
+ * Accounts of the connected npub with their addresses on the selected network. Each can be labelled,
+ * selected, and new ones are added at the next unused index.
+ */
+export const NpubAccounts = () => {
+  const { pubkey, accounts, accountIndex } = useNpubAccounts();
+  const targetNetwork = useGlobalState(state => state.targetNetwork);
+  const walletAddress = useGlobalState(state => state.walletAddress);
+  const [addresses, setAddresses] = useState<Record<number, Address>>({});
+  const [editing, setEditing] = useState<number | null>(null);
+  const [editLabel, setEditLabel] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Derived again when the network or the selected account changes, walletAddress follows both
+  useEffect(() => {
+    if (!pubkey || !walletAddress) return;
+    let cancelled = false;
+    Promise.all(
+      accounts.map(
+        async (account): Promise<[number, Address]> => [
+          account.index,
+          await npubAccountsService.getAddress(pubkey, account.index),
+        ],
+      ),
+    )
+      .then(entries => {
+        if (!cancelled) setAddresses(Object.fromEntries(entries));
+      })
+      .catch(err => console.error("Failed to derive account addresses:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [pubkey, accounts, walletAddress, targetNetwork.id]);
+
+  if (!pubkey) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setStatus((err as Error).message || "Failed to switch account");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveLabel = (index: number) => {
+    npubAccountsService.rename(pubkey, index, editLabel);
+    setEditing(null);
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const index = npubAccountsService.create(pubkey, newLabel);
+      setNewLabel("");
+      await npubAccountsService.switchTo(index);
+    });
+
+  return (
+    <div className="mb-8 bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 p-8">
+      <h2 className="text-2xl font-light text-slate-900 dark:text-slate-100 mb-2">Accounts</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+        Your npub controls a separate smart account at every index, e.g. one for savings and one for spending. New
+        accounts are deployed with their first transaction.
+      </p>
+
+      <ul className="space-y-2 mb-6">
+        {accounts.map(account => (
+          <li
+            key={account.index}
+            className={`flex items-center gap-3 p-3 rounded-lg border ${
+              account.index === accountIndex
+                ? "border-blue-400 bg-blue-50 dark:bg-blue-900/20"
+                : "border-slate-200 dark:border-slate-700"
+            }`}
+          >
+            <span className="badge badge-ghost font-mono">#{account.index}</span>
+            <div className="flex-1 min-w-0">
+              {editing === account.index ? (
+                <input
+                  type="text"
+                  className="input input-bordered input-sm w-full"
+                  aria-label="Account label"
+                  value={editLabel}
+                  onChange={e => setEditLabel(e.target.value)}
+                  onKeyDown={e => e.key === "Enter" && handleSaveLabel(account.index)}
+                  autoFocus
+                />
+              ) : (
+                <p className="font-medium text-slate-900 dark:text-slate-100">{account.label}</p>
+              )}
+              <p className="font-mono text-xs text-slate-500 dark:text-slate-400 truncate">
+                {addresses[account.index] ?? "Deriving address…"}
+              </p>
+            </div>
+            {editing === account.index ? (
+              <button type="button" className="btn btn-xs btn-ghost" onClick={() => handleSaveLabel(account.index)}>
+                Save
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="btn btn-xs btn-ghost"
+                onClick={() => {
+                  setEditing(account.index);
+                  setEditLabel(account.label);
+                }}
+              >
+                Rename
+              </button>
+            )}
+            {account.index === accountIndex ? (
+              <span className="badge badge-info">In use</span>
+            ) : (
+              <button
+                type="button"
+                className="btn btn-xs btn-outline"
+                onClick={() => run(() => npubAccountsService.switchTo(account.index))}
+                disabled={busy}
+              >
+                Use
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className="input input-bordered input-sm flex-1"
+          placeholder="Label, e.g. Savings"
+          aria-label="New account label"
+          list="npub-account-labels"
+          value={newLabel}
+          onChange={e => setNewLabel(e.target.value)}
+          disabled={busy}
+        />
+        <datalist id="npub-account-labels">
+          {LABEL_SUGGESTIONS.map(label => (
+            <option key={label} value={label} />
+          ))}
+        </datalist>
+        <button type="button" className="btn btn-sm btn-primary" onClick={handleCreate} disabled={busy}>
+          {busy ? "Switching…" : "New account"}
+        </button>
+      </div>
+      {status && <p className="mt-2 text-sm text-error">{status}</p>}
+    </div>
+  );
+};
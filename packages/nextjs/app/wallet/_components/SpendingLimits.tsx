@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther, parseEther } from "viem";
+import { EtherInput } from "~~/components/scaffold-eth";
+import {
+  NATIVE_TOKEN,
+  type ScheduledCall,
+  type SpendingAllowance,
+  spendingLimitService,
+} from "~~/services/spendingLimitService";
+
+type SpendingLimitsProps = {
+  allowance: SpendingAllowance | null;
+  scheduledCalls: ScheduledCall[];
+  onChanged: () => Promise<void>;
+  onScheduled: (scheduled: ScheduledCall) => void;
+  onScheduledDone: (scheduled: ScheduledCall) => void;
+};
+
+const formatCap = (limit: bigint, remaining?: bigint) =>
+  limit === 0n || remaining === undefined ? "No limit" : `${formatEther(remaining)} of ${formatEther(limit)} ETH left`;
+
+/**
+ * ETH spending limits of the connected account and the calls waiting for the spending timelock.
+ */
+export const SpendingLimits = ({
+  allowance,
+  scheduledCalls,
+  onChanged,
+  onScheduled,
+  onScheduledDone,
+}: SpendingLimitsProps) => {
+  const [dailyEth, setDailyEth] = useState("");
+  const [weeklyEth, setWeeklyEth] = useState("");
+  const [delayHours, setDelayHours] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      setStatus(await action());
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setStatus(spendingLimitService.explainError(err) ?? ((err as Error).message || "Update failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const describeScheduled = (scheduled: ScheduledCall | null, what: string) => {
+    if (!scheduled) return `${what} updated`;
+    onScheduled(scheduled);
+    return `${what} loosened: scheduled until ${new Date(Number(scheduled.executableAt) * 1000).toLocaleString()}`;
+  };
+
+  const handleSaveLimits = () =>
+    run(async () => {
+      const scheduled = await spendingLimitService.setSpendingLimit(
+        NATIVE_TOKEN,
+        parseEther(dailyEth || "0"),
+        parseEther(weeklyEth || "0"),
+        allowance,
+      );
+      return describeScheduled(scheduled, "Limits");
+    });
+
+  const handleSaveDelay = () =>
+    run(async () => {
+      const delay = BigInt(Math.round(Number(delayHours) * 60 * 60));
+      return describeScheduled(await spendingLimitService.setSpendingDelay(delay, allowance), "Timelock");
+    });
+
+  const handleExecute = (scheduled: ScheduledCall) =>
+    run(async () => {
+      const hash = await spendingLimitService.executeScheduledCall(scheduled);
+      onScheduledDone(scheduled);
+      return `Scheduled call executed in ${hash}`;
+    });
+
+  const handleCancel = (scheduled: ScheduledCall) =>
+    run(async () => {
+      await spendingLimitService.cancelScheduledCall(scheduled);
+      onScheduledDone(scheduled);
+      return "Scheduled call cancelled";
+    });
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  return (
+    <div className="mt-8 bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 p-8">
+      <h2 className="text-2xl font-light text-slate-900 dark:text-slate-100 mb-2">Spending Limits</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+        Transfers above the limits must be scheduled and wait for the timelock, so a single malicious signature cannot
+        drain the account. Lowering a limit applies at once, raising it and upgrading the account are scheduled too.
+        While a limit is set, the account refuses token permits, so apps have to ask for an approval transaction.
+      </p>
+
+      {allowance ? (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6 text-sm">
+          <div>
+            <p className="text-slate-500 dark:text-slate-400">Today</p>
+            <p className="font-medium">{formatCap(allowance.dailyLimit, allowance.remainingDaily)}</p>
+          </div>
+          <div>
+            <p className="text-slate-500 dark:text-slate-400">This week</p>
+            <p className="font-medium">{formatCap(allowance.weeklyLimit, allowance.remainingWeekly)}</p>
+          </div>
+          <div>
+            <p className="text-slate-500 dark:text-slate-400">Timelock</p>
+            <p className="font-medium">{(Number(allowance.delay) / 3600).toString()} hours</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+          Limits can be set once your first transaction deploys the account.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="form-control w-48">
+          <span className="label-text mb-1">Daily limit (ETH, 0 for none)</span>
+          <EtherInput name="dailyLimit" placeholder="0" value={dailyEth} onChange={setDailyEth} />
+        </label>
+        <label className="form-control w-48">
+          <span className="label-text mb-1">Weekly limit (ETH, 0 for none)</span>
+          <EtherInput name="weeklyLimit" placeholder="0" value={weeklyEth} onChange={setWeeklyEth} />
+        </label>
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={handleSaveLimits}
+          disabled={busy || !allowance || (!dailyEth && !weeklyEth)}
+        >
+          Save limits
+        </button>
+      </div>
+      <div className="flex flex-wrap items-end gap-4 mt-4">
+        <label className="form-control w-48">
+          <span className="label-text mb-1">Timelock (hours)</span>
+          <input
+            type="number"
+            min={0}
+            className="input input-bordered"
+            value={delayHours}
+            onChange={e => setDelayHours(e.target.value)}
+          />
+        </label>
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={handleSaveDelay}
+          disabled={busy || !allowance || delayHours === ""}
+        >
+          Save timelock
+        </button>
+      </div>
+
+      {scheduledCalls.length > 0 && (
+        <div className="mt-6">
+          <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Scheduled</p>
+          <ul className="space-y-2">
+            {scheduledCalls.map(scheduled => (
+              <li
+                key={scheduled.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50"
+              >
+                <div className="min-w-0 text-sm">
+                  <p className="truncate">
+                    {formatEther(scheduled.value ?? 0n)} ETH to {scheduled.to.slice(0, 6)}...{scheduled.to.slice(-4)}
+                    {scheduled.data && scheduled.data !== "0x" && " with call data"}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Executable {new Date(Number(scheduled.executableAt) * 1000).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    className="btn btn-primary btn-xs"
+                    onClick={() => handleExecute(scheduled)}
+                    disabled={busy || scheduled.executableAt > now}
+                  >
+                    Execute
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs"
+                    onClick={() => handleCancel(scheduled)}
+                    disabled={busy}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {status && <p className="mt-4 text-sm break-all">{status}</p>}
+    </div>
+  );
+};
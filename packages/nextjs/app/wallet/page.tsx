@@ -1,22 +1,73 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Address } from "viem";
+import { BatchBuilder } from "./_components/BatchBuilder";
+import { FeeSpeedSelect } from "./_components/FeeSpeedSelect";
+import { NpubAccounts } from "./_components/NpubAccounts";
+import { SpendingLimits } from "./_components/SpendingLimits";
+import { Address, type Hex, formatEther } from "viem";
 import { AddressInput, EtherInput } from "~~/components/scaffold-eth";
 import { useSelectedNetwork } from "~~/hooks/scaffold-eth/useSelectedNetwork";
 import { connectService } from "~~/services/connectToNetworkService";
+import { decodeNpub, encodeNpub } from "~~/services/nostrCore";
+import { decodeNonce } from "~~/services/nostrSmartAccount";
+import { npubAccountsService } from "~~/services/npubAccountsService";
+import { ownerRotationService } from "~~/services/ownerRotationService";
 import { transactionService } from "~~/services/sendTransactionService";
+import { type ScheduledCall, type SpendingAllowance, spendingLimitService } from "~~/services/spendingLimitService";
 import { useGlobalState } from "~~/services/store/store";
+import { type GasToken, tokenPaymasterService } from "~~/services/tokenPaymasterService";
+import type { UserOpStatus } from "~~/services/userOpTrackerService";
 import { getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
 
+const USER_OP_STATUS_LABELS: Record<UserOpStatus, string> = {
+  signed: "Signed",
+  published: "Published to relays",
+  seen: "Seen by bundler",
+  included: "Included",
+  success: "Succeeded",
+  reverted: "Reverted",
+  dropped: "Dropped",
+  replaced: "Replaced",
+};
+
+// Operations whose nonce is still unused, so a re-signed one can take their place
+const REPLACEABLE_STATUSES: UserOpStatus[] = ["signed", "published", "seen", "dropped"];
+
+const USER_OP_STATUS_BADGES: Record<UserOpStatus, string> = {
+  signed: "badge-ghost",
+  published: "badge-ghost",
+  seen: "badge-info",
+  included: "badge-info",
+  success: "badge-success",
+  reverted: "badge-error",
+  dropped: "badge-warning",
+  replaced: "badge-ghost",
+};
+
 const WalletPage = () => {
   const network = useSelectedNetwork();
   const walletAddress = useGlobalState(state => state.walletAddress);
   const nPubkey = useGlobalState(state => state.nPubkey);
   const [to, setTo] = useState<Address | string>("");
   const [amountEth, setAmountEth] = useState<string>("");
+  const [nonceKeyInput, setNonceKeyInput] = useState<string>("0");
   const [txHash, setTxHash] = useState<string | null>(null);
-  const [sending, setSending] = useState(false);
+  const [sendingLanes, setSendingLanes] = useState<string[]>([]);
+  const pendingUserOps = useGlobalState(state => state.pendingUserOps);
+  const [newOwnerInput, setNewOwnerInput] = useState<string>("");
+  const [rotating, setRotating] = useState(false);
+  // Key the account was handed over to and the index it is listed under for that key, the session must be
+  // reconnected with it
+  const [rotatedTo, setRotatedTo] = useState<{ pubkey: string; index: number } | null>(null);
+  const [allowance, setAllowance] = useState<SpendingAllowance | null>(null);
+  const [scheduledCalls, setScheduledCalls] = useState<ScheduledCall[]>([]);
+  // Why the last send was refused by the spending policy
+  const [limitReason, setLimitReason] = useState<string | null>(null);
+  // Token the network's token paymaster accepts for gas, null when it has none
+  const [gasToken, setGasToken] = useState<GasToken | null>(null);
+  const payGasInToken = useGlobalState(state => state.payGasInToken);
+  const setPayGasInToken = useGlobalState(state => state.setPayGasInToken);
 
   const isAAInitialized = transactionService.isNetworkSupported();
 
@@ -28,35 +79,144 @@ const WalletPage = () => {
     }
   }, [nPubkey, isAAInitialized]);
 
+  const nonceKey = useMemo(() => (/^\d+$/.test(nonceKeyInput) ? BigInt(nonceKeyInput) : null), [nonceKeyInput]);
+  // Only the selected lane is busy while its operation is prepared and signed, other lanes stay usable
+  const sending = nonceKey !== null && sendingLanes.includes(nonceKey.toString());
+  const pendingLanes = useMemo(
+    () => [...transactionService.getPendingUserOpsByLane(pendingUserOps).entries()],
+    [pendingUserOps],
+  );
+
+  const refreshAllowance = useCallback(async () => {
+    if (!walletAddress) return;
+    try {
+      setAllowance(await spendingLimitService.getAllowance(walletAddress as Address));
+    } catch (err) {
+      console.error("Failed to load spending limits:", err);
+    }
+  }, [walletAddress]);
+
+  useEffect(() => {
+    refreshAllowance();
+  }, [refreshAllowance]);
+
+  useEffect(() => {
+    if (!isAAInitialized) return;
+    tokenPaymasterService
+      .getGasToken(network.id)
+      .then(setGasToken)
+      .catch(err => {
+        console.error("Failed to load the gas token:", err);
+        setGasToken(null);
+      });
+  }, [isAAInitialized, network.id]);
+
   const handleSend = useCallback(async () => {
-    if (!to || !amountEth) return;
-    setSending(true);
+    if (!to || !amountEth || nonceKey === null) return;
+    const wei = transactionService.parseAmountToWei(amountEth);
+    // Refuse early instead of paying for an operation the account will revert
+    const reason = spendingLimitService.checkSpend(allowance, wei);
+    setLimitReason(reason);
+    if (reason) return;
+
+    const lane = nonceKey.toString();
+    setSendingLanes(lanes => [...lanes, lane]);
     setTxHash(null);
     try {
-      const wei = transactionService.parseAmountToWei(amountEth);
-      const hash = await transactionService.sendTransaction(to as string, wei);
+      const hash = await transactionService.sendTransaction(to as string, wei, nonceKey);
       setTxHash(hash);
     } catch (err) {
       console.error(err);
-      alert((err as Error).message || "Failed to send");
+      const policyReason = spendingLimitService.explainError(err);
+      if (policyReason) {
+        setLimitReason(policyReason);
+      } else {
+        alert((err as Error).message || "Failed to send");
+      }
     } finally {
-      setSending(false);
+      setSendingLanes(lanes => lanes.filter(l => l !== lane));
+      refreshAllowance();
+    }
+  }, [to, amountEth, nonceKey, allowance, refreshAllowance]);
+
+  const handleReplace = useCallback(async (userOpHash: Hex, mode: "speedUp" | "cancel") => {
+    try {
+      await transactionService.replaceUserOperation(userOpHash, mode);
+    } catch (err) {
+      console.error(err);
+      alert((err as Error).message || "Failed to replace the operation");
+    }
+  }, []);
+
+  const handleSchedule = useCallback(async () => {
+    if (!to || !amountEth) return;
+    try {
+      const scheduled = await spendingLimitService.scheduleCall({
+        to: to as Address,
+        value: transactionService.parseAmountToWei(amountEth),
+      });
+      setScheduledCalls(calls => [...calls, scheduled]);
+      setLimitReason(null);
+    } catch (err) {
+      console.error(err);
+      alert((err as Error).message || "Failed to schedule");
     }
   }, [to, amountEth]);
 
+  const newOwner = useMemo(() => {
+    const value = newOwnerInput.trim();
+    const key = value.startsWith("npub") ? decodeNpub(value) : value.replace(/^0x/, "");
+    return key && /^[0-9a-fA-F]{64}$/.test(key) ? key.toLowerCase() : null;
+  }, [newOwnerInput]);
+
+  const handleRotate = useCallback(async () => {
+    if (!newOwner) return;
+    if (!confirm("Only the new key will be able to sign for this account afterwards. Continue?")) return;
+    setRotating(true);
+    try {
+      await ownerRotationService.rotateOwner(`0x${newOwner}`);
+      const index = npubAccountsService.addTakenOverAccount(newOwner, walletAddress as Address);
+      setRotatedTo({ pubkey: newOwner, index });
+      setNewOwnerInput("");
+    } catch (err) {
+      console.error(err);
+      alert((err as Error).message || "Failed to rotate owner");
+    } finally {
+      setRotating(false);
+    }
+  }, [newOwner, walletAddress]);
+
+  const handleReconnect = useCallback(async () => {
+    try {
+      const session = await connectService.connect();
+      if (session && rotatedTo && decodeNpub(session.nPubkey) !== rotatedTo.pubkey) {
+        alert("Your Nostr extension is still using another key, switch to the new key and try again");
+        return;
+      }
+      if (session && rotatedTo) {
+        await npubAccountsService.switchTo(rotatedTo.index);
+      }
+      setRotatedTo(null);
+    } catch (err) {
+      console.error(err);
+      alert((err as Error).message || "Failed to reconnect");
+    }
+  }, [rotatedTo]);
+
   const explorerLink = useMemo(() => (txHash ? getBlockExplorerTxLink(network.id, txHash) : ""), [txHash, network.id]);
   const isDisabled = useMemo(
-    () => !isAAInitialized || sending || !to || !amountEth,
-    [isAAInitialized, sending, to, amountEth],
+    () => !isAAInitialized || sending || !to || !amountEth || nonceKey === null,
+    [isAAInitialized, sending, to, amountEth, nonceKey],
   );
   const disabledTitle = useMemo(() => {
     if (!isAAInitialized) return "Connect Nostr wallet first";
-    if (sending) return "Transaction in progress";
+    if (nonceKey === null) return "Enter a valid nonce lane";
+    if (sending) return "Transaction in progress on this lane";
     if (!to && !amountEth) return "Enter recipient and amount";
     if (!to) return "Enter recipient";
     if (!amountEth) return "Enter amount";
     return "";
-  }, [isAAInitialized, sending, to, amountEth]);
+  }, [isAAInitialized, sending, to, amountEth, nonceKey]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
@@ -127,6 +287,8 @@ const WalletPage = () => {
           )}
         </div>
 
+        {walletAddress && <NpubAccounts />}
+
         {/* Main Transaction Card */}
         <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
           <div className="p-8">
@@ -153,6 +315,38 @@ const WalletPage = () => {
                 </div>
               </div>
 
+              {/* Nonce Lane Input */}
+              <div className="relative">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Nonce Lane</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  name="nonceKey"
+                  className="input input-bordered w-full sm:w-48 font-mono"
+                  value={nonceKeyInput}
+                  onChange={e => setNonceKeyInput(e.target.value.trim())}
+                />
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                  Operations on different lanes are executed independently, so a stuck one only blocks its own lane.
+                </p>
+              </div>
+
+              {/* Fee Preset */}
+              <FeeSpeedSelect />
+
+              {/* Gas Token Toggle */}
+              {gasToken && (
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={payGasInToken}
+                    onChange={e => setPayGasInToken(e.target.checked)}
+                  />
+                  Pay gas in {gasToken.symbol}
+                </label>
+              )}
+
               {/* Send Button */}
               <div className="pt-4">
                 <button
@@ -195,6 +389,19 @@ const WalletPage = () => {
                 </button>
               </div>
 
+              {/* Spending Limit Alert */}
+              {limitReason && (
+                <div className="mt-6 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+                  <h3 className="text-sm font-medium text-amber-800 dark:text-amber-200">Over the spending limit</h3>
+                  <p className="mt-1 text-sm text-amber-700 dark:text-amber-300">{limitReason}</p>
+                  {allowance && (
+                    <button type="button" className="btn btn-warning btn-sm mt-3" onClick={handleSchedule}>
+                      Schedule for {(Number(allowance.delay) / 3600).toString()} hours from now
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Transaction Success Alert */}
               {txHash && (
                 <div className="mt-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
@@ -237,6 +444,136 @@ const WalletPage = () => {
             </div>
           </div>
         </div>
+
+        {/* Pending Operations per Lane */}
+        {pendingLanes.length > 0 && (
+          <div className="mt-8 bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 p-8">
+            <h2 className="text-2xl font-light text-slate-900 dark:text-slate-100 mb-6">Pending Operations</h2>
+            <div className="space-y-6">
+              {pendingLanes.map(([lane, ops]) => (
+                <div key={lane.toString()}>
+                  <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Lane {lane.toString()}</p>
+                  <ul className="space-y-2">
+                    {ops.map(op => (
+                      <li
+                        key={op.userOpHash}
+                        className="flex items-center justify-between gap-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50"
+                      >
+                        <div className="min-w-0">
+                          <p className="font-mono text-xs text-slate-500 dark:text-slate-400 truncate">
+                            #{decodeNonce(op.nonce).sequence.toString()} {op.userOpHash.slice(0, 10)}...
+                            {op.userOpHash.slice(-8)}
+                          </p>
+                          <p className="text-sm text-slate-900 dark:text-slate-100 truncate">
+                            {formatEther(op.value)} ETH to {op.to.slice(0, 6)}...{op.to.slice(-4)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {op.transactionHash && getBlockExplorerTxLink(network.id, op.transactionHash) ? (
+                            <a
+                              className={`badge ${USER_OP_STATUS_BADGES[op.status]} hover:underline`}
+                              href={getBlockExplorerTxLink(network.id, op.transactionHash)}
+                              target="_blank"
+                              rel="noreferrer"
+                            >
+                              {USER_OP_STATUS_LABELS[op.status]}
+                            </a>
+                          ) : (
+                            <span className={`badge ${USER_OP_STATUS_BADGES[op.status]}`}>
+                              {USER_OP_STATUS_LABELS[op.status]}
+                            </span>
+                          )}
+                          {REPLACEABLE_STATUSES.includes(op.status) && (
+                            <>
+                              <button
+                                type="button"
+                                className="btn btn-outline btn-xs"
+                                title="Re-sign this operation with higher fees"
+                                onClick={() => handleReplace(op.userOpHash, "speedUp")}
+                              >
+                                Speed up
+                              </button>
+                              <button
+                                type="button"
+                                className="btn btn-outline btn-xs"
+                                title="Replace this operation with one that does nothing"
+                                onClick={() => handleReplace(op.userOpHash, "cancel")}
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          )}
+                          <button
+                            type="button"
+                            className="btn btn-ghost btn-xs"
+                            title="Stop tracking this operation"
+                            onClick={() => transactionService.dismissPendingUserOp(op.userOpHash)}
+                          >
+                            Dismiss
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isAAInitialized && <BatchBuilder nonceKey={nonceKey} onSent={refreshAllowance} />}
+
+        {walletAddress && (
+          <SpendingLimits
+            allowance={allowance}
+            scheduledCalls={scheduledCalls}
+            onChanged={refreshAllowance}
+            onScheduled={scheduled => setScheduledCalls(calls => [...calls, scheduled])}
+            onScheduledDone={scheduled => setScheduledCalls(calls => calls.filter(c => c.id !== scheduled.id))}
+          />
+        )}
+
+        {/* Owner Rotation */}
+        {walletAddress && (
+          <div className="mt-8 bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 p-8">
+            <h2 className="text-2xl font-light text-slate-900 dark:text-slate-100 mb-2">Rotate Owner Key</h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+              Hand this account over to a new Nostr key, e.g. after a key leak. The address and its assets stay the
+              same, the rotation is signed with your current key.
+            </p>
+            {rotatedTo ? (
+              <div className="space-y-4">
+                <p className="text-sm text-slate-700 dark:text-slate-300 break-all">
+                  The account is now owned by <span className="font-mono">{encodeNpub(rotatedTo.pubkey)}</span>. Switch
+                  your Nostr extension to that key and reconnect.
+                </p>
+                <button type="button" className="btn btn-primary btn-sm" onClick={handleReconnect}>
+                  Reconnect with new key
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <input
+                  type="text"
+                  name="newOwner"
+                  placeholder="npub… or hex public key"
+                  className="input input-bordered w-full font-mono text-sm"
+                  value={newOwnerInput}
+                  onChange={e => setNewOwnerInput(e.target.value)}
+                />
+                {newOwnerInput && !newOwner && <p className="text-error text-sm">Invalid public key</p>}
+                <button
+                  type="button"
+                  className="btn btn-error btn-sm"
+                  onClick={handleRotate}
+                  disabled={!isAAInitialized || !newOwner || rotating}
+                >
+                  {rotating ? "Rotating..." : "Rotate owner"}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
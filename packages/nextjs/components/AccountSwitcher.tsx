@@ -0,0 +1,42 @@
+"use client";
+
+import React, { useState } from "react";
+import { useNpubAccounts } from "~~/hooks/useNpubAccounts";
+import { npubAccountsService } from "~~/services/npubAccountsService";
+
+/**
+ * Picks which of the connected npub's accounts the wallet uses. Accounts are added and labelled in the wallet.
+ */
+export const AccountSwitcher = () => {
+  const { accounts, accountIndex } = useNpubAccounts();
+  const [switching, setSwitching] = useState(false);
+
+  if (accounts.length < 2) return null;
+
+  const handleChange: React.ChangeEventHandler<HTMLSelectElement> = async e => {
+    setSwitching(true);
+    try {
+      await npubAccountsService.switchTo(Number(e.target.value));
+    } catch (err) {
+      console.error("Failed to switch account:", err);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <select
+      className="select select-bordered select-sm bg-base-100 max-w-[140px]"
+      aria-label="Smart account"
+      value={accountIndex}
+      onChange={handleChange}
+      disabled={switching}
+    >
+      {accounts.map(account => (
+        <option key={account.index} value={account.index}>
+          {account.label}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -25,6 +25,18 @@ export const menuLinks: HeaderMenuLink[] = [
     label: "Wallet",
     href: "/wallet",
   },
+  {
+    label: "Multisig",
+    href: "/multisig",
+  },
+  {
+    label: "Recovery",
+    href: "/recovery",
+  },
+  {
+    label: "Sessions",
+    href: "/sessions",
+  },
   {
     label: "Explorer",
     href: "/explorer",
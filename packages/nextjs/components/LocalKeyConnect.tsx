@@ -0,0 +1,202 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CheckCircleIcon, DocumentDuplicateIcon } from "@heroicons/react/24/outline";
+import { useCopyToClipboard } from "~~/hooks/scaffold-eth";
+import { connectService } from "~~/services/connectToNetworkService";
+import { localKeySignerService } from "~~/services/localKeySignerService";
+import { useGlobalState } from "~~/services/store/store";
+
+type Mode = "unlock" | "generate" | "import";
+
+/**
+ * Signs with a Nostr key stored in this browser as a NIP-49 ncryptsec, unlocked with its password each session.
+ * Once connected with it, a reload keeps the session but the key has to be unlocked again before signing.
+ */
+export const LocalKeyConnect = ({ disabled }: { disabled?: boolean }) => {
+  const walletSession = useGlobalState(state => state.walletSession);
+  const [hasStoredKey, setHasStoredKey] = useState(false);
+  const [unlocked, setUnlocked] = useState(false);
+  const [mode, setMode] = useState<Mode>("generate");
+  const [keyInput, setKeyInput] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { copyToClipboard, isCopiedToClipboard } = useCopyToClipboard();
+
+  const connectedWithKey = walletSession?.signerType === "ncryptsec";
+
+  // The server renders without the stored key, storage is only read once hydrated
+  useEffect(() => {
+    const storedKey = localKeySignerService.hasStoredKey();
+    setHasStoredKey(storedKey);
+    setUnlocked(localKeySignerService.isUnlocked());
+    if (storedKey) setMode("unlock");
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (mode !== "unlock" && password !== confirmation) {
+      setError("Passwords don't match");
+      return;
+    }
+    setError(null);
+    setBusy(true);
+    try {
+      if (mode === "unlock") {
+        const pubkey = localKeySignerService.unlock(password);
+        if (connectedWithKey && pubkey !== walletSession.pubkey) {
+          localKeySignerService.lock();
+          throw new Error("The stored key doesn't belong to the connected account");
+        }
+      } else if (mode === "generate") {
+        localKeySignerService.generate(password);
+      } else {
+        localKeySignerService.import(keyInput, password);
+      }
+      setHasStoredKey(true);
+      setUnlocked(true);
+      setPassword("");
+      setConfirmation("");
+      setKeyInput("");
+
+      // A session restored after a reload only needed its key back
+      if (!connectedWithKey) {
+        const result = await connectService.connect("ncryptsec");
+        if (!result) {
+          setError("Failed to initialize smart account");
+        }
+      }
+    } catch (e: any) {
+      console.error("Local key connection failed:", e);
+      setError(e?.message ?? "Failed to use local key");
+    } finally {
+      setBusy(false);
+    }
+  }, [mode, password, confirmation, keyInput, connectedWithKey, walletSession]);
+
+  const handleForget = useCallback(() => {
+    if (!window.confirm("Delete the stored key? It can't be recovered unless you backed up its ncryptsec.")) return;
+    localKeySignerService.forget();
+    setHasStoredKey(false);
+    setUnlocked(false);
+    setMode("generate");
+  }, []);
+
+  if (connectedWithKey && unlocked) return null;
+
+  return (
+    <div className="dropdown dropdown-end">
+      <label
+        tabIndex={0}
+        className={`btn btn-sm ${connectedWithKey ? "btn-warning" : "btn-ghost"} ${disabled ? "btn-disabled" : ""}`}
+      >
+        {busy ? "Connecting…" : connectedWithKey ? "Unlock key" : "Local key"}
+      </label>
+      <div tabIndex={0} className="dropdown-content z-[2] mt-2 w-80 rounded-box bg-base-200 p-3 shadow-center">
+        <div className="flex flex-col gap-2">
+          {!connectedWithKey && (
+            <div role="tablist" className="tabs tabs-boxed tabs-xs">
+              {hasStoredKey && (
+                <button
+                  type="button"
+                  role="tab"
+                  className={`tab ${mode === "unlock" ? "tab-active" : ""}`}
+                  onClick={() => setMode("unlock")}
+                >
+                  Unlock
+                </button>
+              )}
+              <button
+                type="button"
+                role="tab"
+                className={`tab ${mode === "generate" ? "tab-active" : ""}`}
+                onClick={() => setMode("generate")}
+              >
+                Generate
+              </button>
+              <button
+                type="button"
+                role="tab"
+                className={`tab ${mode === "import" ? "tab-active" : ""}`}
+                onClick={() => setMode("import")}
+              >
+                Import
+              </button>
+            </div>
+          )}
+          {mode !== "unlock" && hasStoredKey && (
+            <span className="text-xs text-warning">This replaces the key stored in this browser.</span>
+          )}
+          {mode === "import" && (
+            <input
+              type="password"
+              className="input input-bordered input-sm font-mono"
+              placeholder="nsec, ncryptsec or hex key"
+              aria-label="Nostr secret key"
+              value={keyInput}
+              onChange={e => setKeyInput(e.target.value)}
+              disabled={busy}
+            />
+          )}
+          <input
+            type="password"
+            className="input input-bordered input-sm"
+            placeholder="Password"
+            aria-label="Key password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            onKeyDown={e => e.key === "Enter" && mode === "unlock" && handleSubmit()}
+            disabled={busy}
+          />
+          {mode !== "unlock" && (
+            <input
+              type="password"
+              className="input input-bordered input-sm"
+              placeholder="Confirm password"
+              aria-label="Confirm key password"
+              value={confirmation}
+              onChange={e => setConfirmation(e.target.value)}
+              disabled={busy}
+            />
+          )}
+          <button
+            type="button"
+            className="btn btn-sm btn-secondary"
+            onClick={handleSubmit}
+            disabled={busy || !password || (mode === "import" && !keyInput.trim())}
+          >
+            {mode === "unlock" ? "Unlock" : mode === "generate" ? "Generate key" : "Import key"}
+          </button>
+          {hasStoredKey && (
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                className="btn btn-xs btn-ghost gap-1"
+                onClick={() => copyToClipboard(localKeySignerService.exportNcryptsec() ?? "")}
+                title="Copy the encrypted key to back it up"
+              >
+                {isCopiedToClipboard ? (
+                  <CheckCircleIcon className="h-3 w-3 text-success" />
+                ) : (
+                  <DocumentDuplicateIcon className="h-3 w-3" />
+                )}
+                Copy ncryptsec
+              </button>
+              {!connectedWithKey && (
+                <button type="button" className="btn btn-xs btn-ghost text-error" onClick={handleForget}>
+                  Forget key
+                </button>
+              )}
+            </div>
+          )}
+          {error ? (
+            <span className="text-xs text-error" role="alert">
+              {error}
+            </span>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+};
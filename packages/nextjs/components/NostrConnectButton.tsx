@@ -2,6 +2,9 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { CheckCircleIcon, DocumentDuplicateIcon } from "@heroicons/react/24/outline";
+import { AccountSwitcher } from "~~/components/AccountSwitcher";
+import { LocalKeyConnect } from "~~/components/LocalKeyConnect";
+import { RemoteSignerConnect } from "~~/components/RemoteSignerConnect";
 import { useCopyToClipboard } from "~~/hooks/scaffold-eth";
 import { nostr, useNip07Ready } from "~~/services/connectNostrExtensionService";
 import { connectService } from "~~/services/connectToNetworkService";
@@ -18,6 +21,7 @@ export const NostrConnectButton = () => {
   // Get connection state from global state
   const walletAddress = useGlobalState(state => state.walletAddress);
   const nPubkey = useGlobalState(state => state.nPubkey);
+  const walletSession = useGlobalState(state => state.walletSession);
 
   // Ensure component is mounted before showing dynamic content
   useEffect(() => {
@@ -202,6 +206,7 @@ export const NostrConnectButton = () => {
 
   return (
     <div className="flex items-center gap-3">
+      {isConnected && <AccountSwitcher />}
       <div className="flex flex-col items-end min-w-0" aria-live="polite">
         {npub ? (
           <>
@@ -254,6 +259,20 @@ export const NostrConnectButton = () => {
                 ? "Connect Nostr"
                 : "No Nostr wallet"}
       </button>
+      {!isConnected && <RemoteSignerConnect disabled={connecting || initializingAA} />}
+      {(!isConnected || walletSession?.signerType === "ncryptsec") && (
+        <LocalKeyConnect disabled={connecting || initializingAA} />
+      )}
+      {isConnected && !connecting && !initializingAA && (
+        <button
+          type="button"
+          className="btn btn-sm btn-ghost"
+          aria-label="Disconnect Nostr wallet"
+          onClick={() => connectService.disconnect()}
+        >
+          Disconnect
+        </button>
+      )}
       {error ? (
         <span className="text-xs text-error" role="alert">
           {error}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { CheckCircleIcon, DocumentDuplicateIcon } from "@heroicons/react/24/outline";
+import { useCopyToClipboard } from "~~/hooks/scaffold-eth";
+import { connectService } from "~~/services/connectToNetworkService";
+import { nip46SignerService } from "~~/services/nip46SignerService";
+
+/**
+ * Connects through a NIP-46 remote signer (Amber, nsecBunker, ...), either by pasting its bunker:// URL
+ * or by letting it scan a nostrconnect:// URI.
+ */
+export const RemoteSignerConnect = ({ disabled }: { disabled?: boolean }) => {
+  const [bunkerInput, setBunkerInput] = useState("");
+  const [nostrConnectUri, setNostrConnectUri] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { copyToClipboard, isCopiedToClipboard } = useCopyToClipboard();
+
+  const connect = useCallback(async (pair: () => Promise<unknown>) => {
+    setError(null);
+    setConnecting(true);
+    try {
+      await pair();
+      const result = await connectService.connect("nip46");
+      if (!result) {
+        setError("Failed to initialize smart account");
+      }
+    } catch (e: any) {
+      console.error("Remote signer connection failed:", e);
+      setError(e?.message ?? "Failed to connect to remote signer");
+    } finally {
+      setConnecting(false);
+      setNostrConnectUri(null);
+    }
+  }, []);
+
+  const handleConnectBunker = useCallback(() => {
+    if (!bunkerInput.trim()) return;
+    connect(() => nip46SignerService.connectBunker(bunkerInput));
+  }, [bunkerInput, connect]);
+
+  const handleNostrConnect = useCallback(() => {
+    connect(() => nip46SignerService.connectNostrConnect(setNostrConnectUri));
+  }, [connect]);
+
+  return (
+    <div className="dropdown dropdown-end">
+      <label tabIndex={0} className={`btn btn-sm btn-ghost ${disabled ? "btn-disabled" : ""}`}>
+        {connecting ? "Waiting for signer…" : "Bunker"}
+      </label>
+      <div tabIndex={0} className="dropdown-content z-[2] mt-2 w-80 rounded-box bg-base-200 p-3 shadow-center">
+        <div className="flex flex-col gap-2">
+          <span className="text-xs opacity-70">Paste the bunker:// URL from your remote signer</span>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input input-bordered input-sm flex-1 font-mono"
+              placeholder="bunker://… or name@domain"
+              aria-label="bunker URL"
+              value={bunkerInput}
+              onChange={e => setBunkerInput(e.target.value)}
+              disabled={connecting}
+            />
+            <button
+              type="button"
+              className="btn btn-sm btn-secondary"
+              onClick={handleConnectBunker}
+              disabled={connecting || !bunkerInput.trim()}
+            >
+              Connect
+            </button>
+          </div>
+          <div className="divider my-0 text-xs">or</div>
+          {nostrConnectUri ? (
+            <div className="flex flex-col gap-1">
+              <span className="text-xs opacity-70">Open this nostrconnect:// URI in your signer</span>
+              <div
+                className="flex items-center gap-1 cursor-pointer"
+                onClick={() => copyToClipboard(nostrConnectUri)}
+                title="Click to copy"
+              >
+                <span className="font-mono text-xs break-all line-clamp-3">{nostrConnectUri}</span>
+                {isCopiedToClipboard ? (
+                  <CheckCircleIcon className="h-4 w-4 text-success flex-shrink-0" />
+                ) : (
+                  <DocumentDuplicateIcon className="h-4 w-4 opacity-60 flex-shrink-0" />
+                )}
+              </div>
+            </div>
+          ) : (
+            <button type="button" className="btn btn-sm btn-ghost" onClick={handleNostrConnect} disabled={connecting}>
+              Show nostrconnect:// URI
+            </button>
+          )}
+          {error ? (
+            <span className="text-xs text-error" role="alert">
+              {error}
+            </span>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+};
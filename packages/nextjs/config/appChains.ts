@@ -1,12 +1,30 @@
 import type { Address } from "viem";
 import * as chains from "viem/chains";
 
+// EntryPoint versions the NpubAccount factory can be wired to
+export type AppEntryPointVersion = "0.7" | "0.8";
+
+// Where UserOperation fees come from: the bundler's pimlico_getUserOperationGasPrice or the node's fee history
+export type AppFeeSource = "bundler" | "history";
+
 export type AppChainConfig = {
   bundlerUrl: string;
   rpcUrl: string;
   wsRpcUrl: string;
   entryPointAddress: Address;
+  entryPointVersion: AppEntryPointVersion;
   factoryAddress: Address;
+  // Whether the factory's accounts accept typed owner signatures, older deployments only take the 64-byte
+  // signature of the untagged event
+  typedSignatures: boolean;
+  // NpubMultisigAccountFactory, empty until deployed on the network
+  multisigFactoryAddress: Address;
+  // NpubVerifyingPaymaster, empty until deployed on the network
+  paymasterAddress: Address;
+  // NpubTokenPaymaster and the ERC-20 it accepts for gas, empty until deployed on the network
+  tokenPaymasterAddress: Address;
+  gasTokenAddress: Address;
+  feeSource: AppFeeSource;
   relayerUrl: string;
   blockExplorerUrl: string;
 };
@@ -19,7 +37,14 @@ export const APP_CHAIN_CONFIG: Record<number, AppChainConfig> = {
     rpcUrl: "http://localhost:8545",
     wsRpcUrl: "",
     entryPointAddress: "0x0000000071727De22E5E9d8BAf0edAc6f37da032",
+    entryPointVersion: "0.7",
     factoryAddress: "",
+    typedSignatures: true,
+    multisigFactoryAddress: "",
+    paymasterAddress: "",
+    tokenPaymasterAddress: "",
+    gasTokenAddress: "",
+    feeSource: "history",
     relayerUrl: "",
     blockExplorerUrl: "http://localhost:3000/blockexplorer",
   },
@@ -28,7 +53,15 @@ export const APP_CHAIN_CONFIG: Record<number, AppChainConfig> = {
     rpcUrl: "https://eth-sepolia.public.blastapi.io",
     wsRpcUrl: "wss://eth-sepolia.blastapi.io/5648ecee-3f48-4b1f-b060-824a76b34d94",
     entryPointAddress: "0x0000000071727De22E5E9d8BAf0edAc6f37da032",
+    entryPointVersion: "0.7",
     factoryAddress: "0xbFa5A21ADaA24746194547f44d44fd333729c662",
+    typedSignatures: false,
+    multisigFactoryAddress: "",
+    paymasterAddress: "",
+    tokenPaymasterAddress: "",
+    // USDC
+    gasTokenAddress: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+    feeSource: "bundler",
     relayerUrl: "",
     blockExplorerUrl: "https://sepolia.etherscan.io",
   },
@@ -37,8 +70,17 @@ export const APP_CHAIN_CONFIG: Record<number, AppChainConfig> = {
     bundlerUrl: "https://api.pimlico.io/v2/8453/rpc?apikey=pim_X5CHVGtEhbJLu7Wj4H8fDC",
     rpcUrl: "https://base-mainnet.public.blastapi.io",
     wsRpcUrl: "wss://base-mainnet.blastapi.io/5648ecee-3f48-4b1f-b060-824a76b34d94",
-    entryPointAddress: "0x0000000071727De22E5E9d8BAf0edAc6f37da032",
+    // The Base factory is wired to EntryPoint v0.8
+    entryPointAddress: "0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108",
+    entryPointVersion: "0.8",
     factoryAddress: "0xaCeEF9bf23b41D4898516D2Fdcd7b4BDc22444D7",
+    typedSignatures: false,
+    multisigFactoryAddress: "",
+    paymasterAddress: "",
+    tokenPaymasterAddress: "",
+    // USDC
+    gasTokenAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    feeSource: "bundler",
     relayerUrl: "",
     blockExplorerUrl: "https://basescan.org",
   },
@@ -7,27 +7,32 @@ import { useGlobalState } from "~~/services/store/store";
 
 /**
  * Global hook for managing Nostr connection state across the entire app
- * Handles connection restoration and provides connection status
+ * Handles connection restoration and provides connection status.
+ * The persisted session is rehydrated once mounted, and clients are rebuilt whenever they
+ * don't match the selected network.
  */
 export const useNostrConnection = () => {
   const [mounted, setMounted] = useState(false);
   const walletAddress = useGlobalState(state => state.walletAddress);
   const nPubkey = useGlobalState(state => state.nPubkey);
+  const walletSession = useGlobalState(state => state.walletSession);
   const [isRestoring, setIsRestoring] = useState(false);
   const [restoreError, setRestoreError] = useState<string | null>(null);
 
   // Ensure hook is mounted before returning dynamic values
   useEffect(() => {
     setMounted(true);
+    useGlobalState.persist.rehydrate();
   }, []);
 
-  const isConnected = !!nPubkey;
-  const isAAInitialized = transactionService.isNetworkSupported();
+  const isConnected = !!nPubkey || !!walletSession;
+  // Evaluated on every store change, so switching networks rebuilds the clients for the new one
+  const isAAInitialized = useGlobalState(() => transactionService.isNetworkSupported());
   const needsRestoration = isConnected && !isAAInitialized;
 
   // Restore connection if we have nPubkey but no AA initialization
   useEffect(() => {
-    if (needsRestoration && !isRestoring) {
+    if (needsRestoration && !isRestoring && !restoreError) {
       setIsRestoring(true);
       setRestoreError(null);
 
@@ -44,7 +49,7 @@ export const useNostrConnection = () => {
           setIsRestoring(false);
         });
     }
-  }, [needsRestoration, isRestoring]);
+  }, [needsRestoration, isRestoring, restoreError]);
 
   return {
     // Connection state
@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  NPUB_ACCOUNTS_CHANGED_EVENT,
+  type NpubAccountEntry,
+  npubAccountsService,
+} from "~~/services/npubAccountsService";
+import { useGlobalState } from "~~/services/store/store";
+
+/**
+ * Accounts of the connected npub with their labels, and the index of the one in use.
+ */
+export const useNpubAccounts = () => {
+  const pubkey = useGlobalState(state => state.walletSession?.pubkey);
+  const accountIndex = useGlobalState(state => state.walletSession?.accountIndex ?? 0);
+  const chainId = useGlobalState(state => state.publicClient?.chain.id);
+  const [accounts, setAccounts] = useState<NpubAccountEntry[]>([]);
+
+  useEffect(() => {
+    if (!pubkey) {
+      setAccounts([]);
+      return;
+    }
+
+    const refresh = () => setAccounts(npubAccountsService.list(pubkey));
+    refresh();
+    window.addEventListener(NPUB_ACCOUNTS_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(NPUB_ACCOUNTS_CHANGED_EVENT, refresh);
+  }, [pubkey]);
+
+  // Accounts taken over on another device are only known on-chain, listing them updates the accounts above
+  useEffect(() => {
+    if (!pubkey || !chainId) return;
+    npubAccountsService
+      .syncTakenOverAccounts(pubkey)
+      .catch(err => console.error("Failed to look up taken over accounts:", err));
+  }, [pubkey, chainId]);
+
+  return { pubkey: pubkey ?? null, accounts, accountIndex };
+};
@@ -175,6 +175,11 @@ class NostrExtensionService {
     return s.pubkey;
   }
 
+  /** Whether the extension can sign raw 32-byte digests with `signSchnorrHex32`. */
+  supportsSignSchnorr(): boolean {
+    return this.isAvailable() && typeof window.nostr?.signSchnorr === "function";
+  }
+
   /**
    * Optional: sign a raw 32-byte hex digest using Schnorr, if the wallet supports it.
    * Input must be exactly 64 hex characters (no 0x prefix).
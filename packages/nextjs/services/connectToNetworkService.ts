@@ -1,9 +1,13 @@
 import { toNostrSmartAccount } from "./nostrSmartAccount";
 import { createSmartAccountClient } from "permissionless";
-import { createPublicClient, http, webSocket } from "viem";
+import { createPublicClient, http, rpcSchema, webSocket } from "viem";
 import { getAppChainConfig } from "~~/config/appChains";
+import { clearNip07Session } from "~~/services/connectNostrExtensionService";
+import type { BundlerGasPriceRpcSchema } from "~~/services/feeStrategyService";
 import { nostrService } from "~~/services/nostrService";
-import { useGlobalState } from "~~/services/store/store";
+import { ownerRotationService } from "~~/services/ownerRotationService";
+import { transactionService } from "~~/services/sendTransactionService";
+import { type NostrSignerType, useGlobalState } from "~~/services/store/store";
 
 export interface ConnectService {
   ethPubkey: string;
@@ -11,8 +15,8 @@ export interface ConnectService {
 }
 
 export const connectService = {
-  async connect(): Promise<ConnectService | null> {
-    await nostrService.connect();
+  async connect(signerType?: NostrSignerType): Promise<ConnectService | null> {
+    await nostrService.connect(signerType);
     const pubkey: string | null = nostrService.getPubkey();
     const npub: string | null = nostrService.getNostrNpub();
 
@@ -46,10 +50,30 @@ export const connectService = {
 
     useGlobalState.getState().setPublicClient(publicClient);
 
+    // The same npub reconnecting keeps the account it had selected
+    const session = useGlobalState.getState().walletSession;
+    const accountIndex = session?.pubkey === pubkey ? session.accountIndex : 0;
+
+    // An index given to an account taken over by rotation or recovery keeps using that account's address
+    const rotatedAccountAddress = await ownerRotationService.getRotatedAccountAddress(
+      targetNetwork.id,
+      pubkey,
+      accountIndex,
+    );
+
     const evmAccount = await toNostrSmartAccount({
       client: publicClient,
       owner: `0x${pubkey}`,
+      index: BigInt(accountIndex),
+      address: rotatedAccountAddress ?? undefined,
+      signer: nostrService.getSigner(),
       factoryAddress: appChainConfig.factoryAddress,
+      typedSignatures: appChainConfig.typedSignatures,
+      bundlerTransport: http(appChainConfig.bundlerUrl),
+      entryPoint: {
+        address: appChainConfig.entryPointAddress,
+        version: appChainConfig.entryPointVersion,
+      },
     });
 
     useGlobalState.getState().setEvmAccount(evmAccount);
@@ -59,6 +83,7 @@ export const connectService = {
       account: evmAccount,
       chain: targetNetwork,
       bundlerTransport: http(appChainConfig.bundlerUrl),
+      rpcSchema: rpcSchema<BundlerGasPriceRpcSchema>(),
     });
 
     useGlobalState.getState().setBundlerClient(bundlerClient);
@@ -68,9 +93,32 @@ export const connectService = {
     useGlobalState.getState().setWalletAddress(ethPubKey);
     useGlobalState.getState().setNPubKey(npub);
 
+    useGlobalState.getState().setWalletSession({
+      pubkey,
+      signerType: nostrService.getSignerType(),
+      accountIndex,
+      chainId: targetNetwork.id,
+    });
+
+    // Operations still pending from an earlier visit show up in the wallet again and keep being tracked
+    transactionService.resumePendingUserOps().catch(console.error);
+
     return { ethPubkey: ethPubKey, nPubkey: npub };
   },
 
+  // Forget the connected pubkey, the next visit asks the signer again
+  disconnect(): void {
+    const state = useGlobalState.getState();
+    nostrService.disconnect();
+    clearNip07Session();
+    state.setWalletSession(null);
+    state.setNPubKey("");
+    state.setWalletAddress(null);
+    state.setEvmAccount(null);
+    state.setBundlerClient(null);
+    state.setPublicClient(null);
+  },
+
   // Re-initialize services when network changes
   async reinitializeForNewNetwork(): Promise<ConnectService | null> {
     const pubkey: string | null = nostrService.getPubkey();
@@ -0,0 +1,71 @@
+import type { Address, Chain, Client, Transport } from "viem";
+import { type UserOperation, createBundlerClient, estimateUserOperationGas } from "viem/account-abstraction";
+
+// The stub signature runs the real BIP340 verification, only the signature bytes and the final
+// comparison differ, so validation of a deployed account needs little headroom
+const VERIFICATION_GAS_MARGIN_BPS = 1_000n;
+
+// With initCode, validation also deploys the account. The factory's storage writes and the proxy's
+// code deposit are estimated against the current state, which can change before inclusion
+const DEPLOYMENT_GAS_MARGIN_BPS = 2_500n;
+
+// Execution reads state (balances, spending usage) that other operations may change first
+const CALL_GAS_MARGIN_BPS = 1_000n;
+
+const withMargin = (gas: bigint, marginBps: bigint) => (gas * (10_000n + marginBps)) / 10_000n;
+
+export type NostrUserOperationGas = Pick<
+  UserOperation,
+  | "callGasLimit"
+  | "verificationGasLimit"
+  | "preVerificationGas"
+  | "paymasterVerificationGasLimit"
+  | "paymasterPostOpGasLimit"
+>;
+
+/**
+ * Estimates the gas limits of a Nostr account's UserOperation through the bundler and adds margins on top.
+ * `userOperation` carries the stub signature; when it also carries the factory, i.e. the account is not
+ * deployed yet, verification gets the larger deployment margin. Gas limits a paymaster already fixed
+ * are kept.
+ */
+export const estimateNostrUserOperationGas = async (
+  client: Client<Transport, Chain | undefined>,
+  bundlerTransport: Transport,
+  entryPointAddress: Address,
+  userOperation: UserOperation,
+): Promise<NostrUserOperationGas> => {
+  const bundlerClient = createBundlerClient({ client, transport: bundlerTransport });
+  const estimate = await estimateUserOperationGas(bundlerClient, {
+    ...userOperation,
+    // Some bundlers reject missing gas fields, the estimate replaces them
+    callGasLimit: 0n,
+    verificationGasLimit: 0n,
+    preVerificationGas: 0n,
+    ...(userOperation.paymaster
+      ? {
+          paymasterVerificationGasLimit: userOperation.paymasterVerificationGasLimit ?? 0n,
+          paymasterPostOpGasLimit: userOperation.paymasterPostOpGasLimit ?? 0n,
+        }
+      : {}),
+    entryPointAddress,
+  } as Parameters<typeof estimateUserOperationGas>[1]);
+
+  const deploying = !!userOperation.factory || (!!userOperation.initCode && userOperation.initCode !== "0x");
+
+  return {
+    callGasLimit: withMargin(estimate.callGasLimit, CALL_GAS_MARGIN_BPS),
+    verificationGasLimit: withMargin(
+      estimate.verificationGasLimit,
+      deploying ? DEPLOYMENT_GAS_MARGIN_BPS : VERIFICATION_GAS_MARGIN_BPS,
+    ),
+    preVerificationGas: estimate.preVerificationGas,
+    ...(userOperation.paymaster
+      ? {
+          paymasterVerificationGasLimit:
+            userOperation.paymasterVerificationGasLimit ?? estimate.paymasterVerificationGasLimit,
+          paymasterPostOpGasLimit: userOperation.paymasterPostOpGasLimit ?? estimate.paymasterPostOpGasLimit,
+        }
+      : {}),
+  };
+};
@@ -0,0 +1,123 @@
+"use client";
+
+import { type Hex, formatEther, hexToBigInt } from "viem";
+import { getAppChainConfig } from "~~/config/appChains";
+import { getPublicClient, useGlobalState } from "~~/services/store/store";
+
+export type FeeSpeed = "slow" | "normal" | "fast";
+
+export const FEE_SPEEDS: readonly FeeSpeed[] = ["slow", "normal", "fast"];
+
+export type UserOperationFees = {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+// Blocks of fee history the priority fee percentiles are averaged over
+const FEE_HISTORY_BLOCKS = 10;
+
+// Priority fee percentile of recent blocks per speed
+const PRIORITY_FEE_PERCENTILES: Record<FeeSpeed, number> = { slow: 10, normal: 50, fast: 90 };
+
+// Headroom over the next base fee per speed, in basis points. The base fee rises by at most 12.5% per block,
+// so the slow preset survives one full block and the fast one about six
+const BASE_FEE_MULTIPLIERS_BPS: Record<FeeSpeed, bigint> = { slow: 11_250n, normal: 15_000n, fast: 20_000n };
+
+// Presets returned by pimlico_getUserOperationGasPrice
+type BundlerGasPrice = Record<"slow" | "standard" | "fast", { maxFeePerGas: Hex; maxPriorityFeePerGas: Hex }>;
+
+// Bundler method for the presets, on top of the standard ERC-4337 ones
+export type BundlerGasPriceRpcSchema = [
+  { Method: "pimlico_getUserOperationGasPrice"; Parameters?: undefined; ReturnType: BundlerGasPrice },
+];
+
+const BUNDLER_PRESETS: Record<FeeSpeed, keyof BundlerGasPrice> = { slow: "slow", normal: "standard", fast: "fast" };
+
+// Rough gas of a single ETH transfer from a deployed account, for comparing the presets
+export const TRANSFER_GAS_ESTIMATE = 150_000n;
+
+const average = (values: bigint[]) =>
+  values.length === 0 ? 0n : values.reduce((total, value) => total + value, 0n) / BigInt(values.length);
+
+export const feeStrategyService = {
+  /**
+   * Fees for a UserOperation at `speed`, from the source configured for the network.
+   * Falls back to fee history when the bundler has no gas price method, and to the node's own
+   * estimate on networks without EIP-1559 history.
+   */
+  async getFees(chainId: number, speed: FeeSpeed): Promise<UserOperationFees> {
+    if (getAppChainConfig(chainId).feeSource === "bundler") {
+      try {
+        return await this.getBundlerFees(speed);
+      } catch (error) {
+        console.warn("Bundler gas price unavailable, using fee history:", error);
+      }
+    }
+
+    try {
+      return await this.getHistoryFees(speed);
+    } catch (error) {
+      console.warn("Fee history unavailable, using the node estimate:", error);
+      const { maxFeePerGas, maxPriorityFeePerGas } = await getPublicClient().estimateFeesPerGas();
+      return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+  },
+
+  /**
+   * Fees for every speed, for showing the options side by side.
+   */
+  async getAllFees(chainId: number): Promise<Record<FeeSpeed, UserOperationFees>> {
+    const [slow, normal, fast] = await Promise.all(FEE_SPEEDS.map(speed => this.getFees(chainId, speed)));
+    return { slow, normal, fast };
+  },
+
+  /**
+   * Formats a gas cost in wei as ETH, with its USD value when the ETH price is known.
+   */
+  formatCost(wei: bigint, nativeCurrencyPrice: number): string {
+    const eth = formatEther(wei);
+    if (!nativeCurrencyPrice) return `${eth} ETH`;
+    return `${eth} ETH (~$${(Number(eth) * nativeCurrencyPrice).toFixed(2)})`;
+  },
+
+  /**
+   * Gas price presets of the bundler, which already include what it needs to accept the operation.
+   */
+  async getBundlerFees(speed: FeeSpeed): Promise<UserOperationFees> {
+    const bundlerClient = useGlobalState.getState().bundlerClient;
+    if (!bundlerClient) {
+      throw new Error("Bundler client is not initialized");
+    }
+
+    const prices = await bundlerClient.request({ method: "pimlico_getUserOperationGasPrice" });
+    const preset = prices[BUNDLER_PRESETS[speed]];
+    return {
+      maxFeePerGas: hexToBigInt(preset.maxFeePerGas),
+      maxPriorityFeePerGas: hexToBigInt(preset.maxPriorityFeePerGas),
+    };
+  },
+
+  /**
+   * EIP-1559 fees from recent blocks: the speed's priority fee percentile on top of the next base fee.
+   */
+  async getHistoryFees(speed: FeeSpeed): Promise<UserOperationFees> {
+    const publicClient = getPublicClient();
+    const history = await publicClient.getFeeHistory({
+      blockCount: FEE_HISTORY_BLOCKS,
+      rewardPercentiles: [PRIORITY_FEE_PERCENTILES[speed]],
+      blockTag: "latest",
+    });
+
+    // The last entry is the base fee of the next block
+    const nextBaseFee: bigint | undefined = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+    if (nextBaseFee === undefined) {
+      throw new Error("Network does not report EIP-1559 base fees");
+    }
+
+    const maxPriorityFeePerGas = average((history.reward ?? []).map((rewards: bigint[]) => rewards[0]));
+    return {
+      maxFeePerGas: (nextBaseFee * BASE_FEE_MULTIPLIERS_BPS[speed]) / 10_000n + maxPriorityFeePerGas,
+      maxPriorityFeePerGas,
+    };
+  },
+};
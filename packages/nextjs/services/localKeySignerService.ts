@@ -0,0 +1,118 @@
+"use client";
+
+import { generateSecretKey, getPublicKey, nip19 } from "nostr-tools";
+import { decrypt, encrypt } from "nostr-tools/nip49";
+import { hexToBytes } from "viem";
+import { type NostrSigner, createLocalKeySigner } from "~~/services/nostrSigner";
+
+const STORAGE_KEY = "ethstr.ncryptsec";
+
+// Decrypted key, only kept in memory until the page is closed or the key is locked
+let secretKey: Uint8Array | null = null;
+
+const loadNcryptsec = (): string | null => {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(STORAGE_KEY);
+};
+
+const saveNcryptsec = (ncryptsec: string) => {
+  window.localStorage.setItem(STORAGE_KEY, ncryptsec);
+};
+
+const unlockedSigner = (): NostrSigner => {
+  if (!secretKey) {
+    throw new Error("Local key is locked, unlock it with its password first");
+  }
+  return createLocalKeySigner(secretKey);
+};
+
+// Resolves the key on every call, so accounts built while the key was locked can sign once it is unlocked
+const localKeySigner: NostrSigner = {
+  getPublicKey: () => unlockedSigner().getPublicKey(),
+  signEvent: template => unlockedSigner().signEvent(template),
+};
+
+/**
+ * Decodes an nsec or a 64-char hex secret key, an ncryptsec is decrypted with `password`.
+ */
+const parseSecretKey = (input: string, password: string): Uint8Array => {
+  const value = input.trim();
+  if (nip19.NostrTypeGuard.isNcryptsec(value)) {
+    return decrypt(value, password);
+  }
+  if (nip19.NostrTypeGuard.isNSec(value)) {
+    return nip19.decode(value).data;
+  }
+  if (/^(0x)?[0-9a-fA-F]{64}$/.test(value)) {
+    return hexToBytes(value.startsWith("0x") ? (value as `0x${string}`) : `0x${value}`);
+  }
+  throw new Error("Expected an nsec, ncryptsec or 64-char hex secret key");
+};
+
+/**
+ * Nostr key kept in browser storage as a NIP-49 ncryptsec and unlocked with its password each session,
+ * for local development and for users without an extension or a remote signer.
+ */
+export const localKeySignerService = {
+  hasStoredKey(): boolean {
+    return !!loadNcryptsec();
+  },
+
+  isUnlocked(): boolean {
+    return !!secretKey;
+  },
+
+  /**
+   * Generates a new key, stores it encrypted with `password` and leaves it unlocked. Returns the hex pubkey.
+   */
+  generate(password: string): string {
+    secretKey = generateSecretKey();
+    saveNcryptsec(encrypt(secretKey, password));
+    return getPublicKey(secretKey);
+  },
+
+  /**
+   * Stores an existing key encrypted with `password`, an ncryptsec must already be encrypted with it.
+   * Replaces any previously stored key. Returns the hex pubkey.
+   */
+  import(input: string, password: string): string {
+    secretKey = parseSecretKey(input, password);
+    saveNcryptsec(encrypt(secretKey, password));
+    return getPublicKey(secretKey);
+  },
+
+  /**
+   * Decrypts the stored key for this session. Returns the hex pubkey.
+   */
+  unlock(password: string): string {
+    const ncryptsec = loadNcryptsec();
+    if (!ncryptsec) {
+      throw new Error("No local key stored, generate or import one first");
+    }
+    try {
+      secretKey = decrypt(ncryptsec, password);
+    } catch {
+      throw new Error("Wrong password");
+    }
+    return getPublicKey(secretKey);
+  },
+
+  lock(): void {
+    secretKey = null;
+  },
+
+  // The stored ncryptsec, for backing the key up elsewhere
+  exportNcryptsec(): string | null {
+    return loadNcryptsec();
+  },
+
+  getSigner(): NostrSigner {
+    return localKeySigner;
+  },
+
+  // Locks and deletes the stored key, it is gone unless it was backed up
+  forget(): void {
+    secretKey = null;
+    if (typeof window !== "undefined") window.localStorage.removeItem(STORAGE_KEY);
+  },
+};
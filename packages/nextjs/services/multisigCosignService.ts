@@ -0,0 +1,230 @@
+import {
+  type CollectMultisigSignatures,
+  type MultisigSignatureEntry,
+  type MultisigSignedMessage,
+  getMultisigReplaySafeHash,
+  hashMultisigSignedMessage,
+} from "./nostrMultisigSmartAccount";
+import { signNostrHash } from "./nostrSmartAccount";
+import { type Event, SimplePool, getEventHash, verifyEvent } from "nostr-tools";
+import type { Address, Hex } from "viem";
+import { type EntryPointVersion, type UserOperation, getUserOperationHash } from "viem/account-abstraction";
+import { NOSTR_RELAYS } from "~~/config/appChains";
+import { nostrService } from "~~/services/nostrService";
+import { parseWithBigInt, stringifyWithBigInt } from "~~/utils/stringifyWithBigInt";
+
+// Kind 96124 carries UserOperations to the bundler relay, co-signing uses the next two kinds
+export const COSIGN_REQUEST_KIND = 96125;
+export const COSIGN_RESPONSE_KIND = 96126;
+
+const pool = new SimplePool();
+const relays = [...NOSTR_RELAYS];
+
+export type CosignRequestPayload = {
+  account: Address;
+  chainId: number;
+  entryPointAddress: Address;
+  entryPointVersion: EntryPointVersion;
+  // Hash every owner signs as a kind-96024 event
+  hash: Hex;
+  userOperation?: UserOperation;
+  // Set instead of `userOperation` for ERC-1271 signatures, `hash` is its replay-safe hash
+  message?: MultisigSignedMessage;
+};
+
+export type CosignRequest = CosignRequestPayload & {
+  // Nostr event id of the request, responses reference it with an "e" tag
+  id: string;
+  requester: string;
+  createdAt: number;
+};
+
+// Signing goes through the connected signer, same as the account owner's own signatures
+const signEvent = async (template: { kind: number; tags: string[][]; content: string }): Promise<Event> => {
+  return nostrService.getSigner().signEvent({ ...template, created_at: Math.floor(Date.now() / 1000) });
+};
+
+/**
+ * Checks that `signature` is `pubkey`'s BIP340 signature over the kind-96024 event of `hash`,
+ * i.e. exactly what NostrSignatures verifies on-chain.
+ */
+export const isValidCosignature = (pubkey: string, hash: Hex, signature: Hex): boolean => {
+  const event = {
+    kind: 96024,
+    created_at: 0,
+    tags: [],
+    content: hash.substring(2),
+    pubkey,
+  };
+
+  try {
+    return verifyEvent({ ...event, id: getEventHash(event), sig: signature.substring(2) });
+  } catch {
+    return false;
+  }
+};
+
+const parseRequest = (event: Event): CosignRequest => ({
+  ...(parseWithBigInt(event.content) as CosignRequestPayload),
+  id: event.id,
+  requester: event.pubkey,
+  createdAt: event.created_at,
+});
+
+export const multisigCosignService = {
+  /**
+   * Asks co-signers to sign `payload.hash` over Nostr and resolves once `threshold` valid signatures,
+   * including the requester's own, are collected. Invalid or foreign responses are ignored.
+   */
+  async requestSignatures(
+    payload: CosignRequestPayload,
+    options: { owners: string[]; threshold: number; timeoutMs?: number },
+  ): Promise<MultisigSignatureEntry[]> {
+    const { owners, threshold, timeoutMs = 10 * 60 * 1000 } = options;
+    const normalizedOwners = owners.map(owner => owner.replace(/^0x/, "").toLowerCase());
+
+    const request = await signEvent({
+      kind: COSIGN_REQUEST_KIND,
+      tags: [
+        ...normalizedOwners.map(owner => ["p", owner]),
+        ["account", payload.account],
+        ["chainId", payload.chainId.toString()],
+      ],
+      content: stringifyWithBigInt(payload),
+    });
+
+    const signatures = new Map<string, Hex>();
+
+    const addSignature = (pubkey: string, signature: Hex) => {
+      if (!normalizedOwners.includes(pubkey) || signatures.has(pubkey)) return;
+      if (!isValidCosignature(pubkey, payload.hash, signature)) return;
+      signatures.set(pubkey, signature);
+    };
+
+    // The requester signs first if they are an owner themselves
+    if (normalizedOwners.includes(request.pubkey)) {
+      addSignature(
+        request.pubkey,
+        await signNostrHash(nostrService.getSigner(), payload.hash, [], `0x${request.pubkey}`),
+      );
+    }
+
+    const toEntries = () =>
+      [...signatures.entries()].slice(0, threshold).map(([pubkey, signature]) => ({
+        pubkey: `0x${pubkey}` as Hex,
+        signature,
+      }));
+
+    if (signatures.size >= threshold) {
+      return toEntries();
+    }
+
+    await Promise.any(pool.publish(relays, request));
+
+    return new Promise<MultisigSignatureEntry[]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        subscription.close();
+        reject(new Error(`Collected ${signatures.size} of ${threshold} signatures before the request timed out`));
+      }, timeoutMs);
+
+      const subscription = pool.subscribe(
+        relays,
+        { kinds: [COSIGN_RESPONSE_KIND], "#e": [request.id], authors: normalizedOwners },
+        {
+          onevent(event) {
+            addSignature(event.pubkey, event.content as Hex);
+            if (signatures.size >= threshold) {
+              clearTimeout(timer);
+              subscription.close();
+              resolve(toEntries());
+            }
+          },
+        },
+      );
+    });
+  },
+
+  /**
+   * Builds the `collectSignatures` callback of toNostrMultisigSmartAccount for a given multisig setup.
+   */
+  createSignatureCollector(config: {
+    owners: string[];
+    threshold: number;
+    chainId: number;
+    entryPointAddress: Address;
+    entryPointVersion: EntryPointVersion;
+    timeoutMs?: number;
+  }): CollectMultisigSignatures {
+    const { owners, threshold, timeoutMs, ...target } = config;
+    return ({ hash, account, userOperation, message }) =>
+      this.requestSignatures({ ...target, account, hash, userOperation, message }, { owners, threshold, timeoutMs });
+  },
+
+  /**
+   * Listens for co-sign requests addressed to `pubkey`. Returns a function that stops listening.
+   */
+  subscribeToRequests(pubkey: string, onRequest: (request: CosignRequest) => void): () => void {
+    const subscription = pool.subscribe(
+      relays,
+      { kinds: [COSIGN_REQUEST_KIND], "#p": [pubkey.replace(/^0x/, "").toLowerCase()] },
+      {
+        onevent(event) {
+          try {
+            onRequest(parseRequest(event));
+          } catch (error) {
+            console.error("Ignoring malformed co-sign request:", error);
+          }
+        },
+      },
+    );
+
+    return () => subscription.close();
+  },
+
+  /**
+   * Signs the requested hash with the connected extension and publishes the signature to the requester.
+   * The hash is recomputed first from the UserOperation or message the request carries, so a co-signer never
+   * signs something other than what they reviewed. Requests with neither are refused.
+   */
+  async approveRequest(request: CosignRequest): Promise<void> {
+    if (request.userOperation) {
+      const expectedHash = getUserOperationHash({
+        userOperation: request.userOperation,
+        entryPointAddress: request.entryPointAddress,
+        entryPointVersion: request.entryPointVersion,
+        chainId: request.chainId,
+      });
+      if (expectedHash.toLowerCase() !== request.hash.toLowerCase()) {
+        throw new Error("Co-sign request hash does not match its UserOperation");
+      }
+    } else if (request.message) {
+      const expectedHash = getMultisigReplaySafeHash(
+        hashMultisigSignedMessage(request.message),
+        request.chainId,
+        request.account,
+      );
+      if (expectedHash.toLowerCase() !== request.hash.toLowerCase()) {
+        throw new Error("Co-sign request hash does not match its message");
+      }
+    } else {
+      throw new Error("Co-sign request doesn't say what its hash signs, refusing to sign it blindly");
+    }
+
+    // The signer may have switched identities since the request was received
+    const cosigner = nostrService.getPubkey();
+    if (!cosigner) {
+      throw new Error("Nostr is not connected");
+    }
+    const signature = await signNostrHash(nostrService.getSigner(), request.hash, [], `0x${cosigner}`);
+
+    const response = await signEvent({
+      kind: COSIGN_RESPONSE_KIND,
+      tags: [
+        ["e", request.id],
+        ["p", request.requester],
+      ],
+      content: signature,
+    });
+    await Promise.any(pool.publish(relays, response));
+  },
+};
@@ -0,0 +1,123 @@
+"use client";
+
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import { type BunkerPointer, BunkerSigner, createNostrConnectURI, parseBunkerInput } from "nostr-tools/nip46";
+import { type Hex, bytesToHex, hexToBytes } from "viem";
+import { NOSTR_RELAYS } from "~~/config/appChains";
+import type { NostrSigner } from "~~/services/nostrSigner";
+
+/**
+ * A pairing with a remote signer: the client key this app talks to the bunker with, and where the bunker listens.
+ * Keeping both lets a reload sign again without a new approval in Amber or nsecBunker.
+ */
+type Nip46Pairing = {
+  clientSecretKey: Hex;
+  bunker: BunkerPointer;
+};
+
+const STORAGE_KEY = "ethstr.nip46";
+
+// Permissions asked from the signer: UserOperation hashes, co-signing requests and responses
+const PERMISSIONS = ["get_public_key", "sign_event:96024", "sign_event:96125", "sign_event:96126"];
+
+// How long a nostrconnect:// URI waits for the signer to scan it
+const NOSTR_CONNECT_TIMEOUT_MS = 5 * 60_000;
+
+let bunkerSigner: BunkerSigner | null = null;
+
+const loadPairing = (): Nip46Pairing | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+const savePairing = (pairing: Nip46Pairing) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(pairing));
+};
+
+// Bunkers that ask for an explicit approval hand out a URL the user has to open
+const onauth = (url: string) => {
+  window.open(url, "_blank", "noopener,noreferrer");
+};
+
+const toNostrSigner = (signer: BunkerSigner): NostrSigner => ({
+  getPublicKey: () => signer.getPublicKey(),
+  signEvent: template => signer.signEvent(template),
+});
+
+const pair = (clientSecretKey: Uint8Array, signer: BunkerSigner): NostrSigner => {
+  bunkerSigner = signer;
+  savePairing({ clientSecretKey: bytesToHex(clientSecretKey), bunker: signer.bp });
+  return toNostrSigner(signer);
+};
+
+/**
+ * NIP-46 remote signing over Nostr relays, for keys kept in Amber, nsecBunker and the like.
+ */
+export const nip46SignerService = {
+  /**
+   * Pairs with a signer from a bunker:// URL or a NIP-05 identifier announcing one.
+   */
+  async connectBunker(input: string): Promise<NostrSigner> {
+    const bunker = await parseBunkerInput(input.trim());
+    if (!bunker) {
+      throw new Error("Invalid bunker:// URL or NIP-05 identifier");
+    }
+    if (bunker.relays.length === 0) bunker.relays = [...NOSTR_RELAYS];
+
+    const clientSecretKey = generateSecretKey();
+    const signer = BunkerSigner.fromBunker(clientSecretKey, bunker, { onauth });
+    try {
+      await signer.connect();
+    } catch (error) {
+      await signer.close();
+      throw error;
+    }
+    return pair(clientSecretKey, signer);
+  },
+
+  /**
+   * Creates a nostrconnect:// URI for the signer app to scan, and pairs once it answers.
+   * `onUri` receives the URI to display while the signer is waiting to be pointed at it.
+   */
+  async connectNostrConnect(onUri: (uri: string) => void): Promise<NostrSigner> {
+    const clientSecretKey = generateSecretKey();
+    const uri = createNostrConnectURI({
+      clientPubkey: getPublicKey(clientSecretKey),
+      relays: [...NOSTR_RELAYS],
+      // Proves the answering signer is the one that scanned this URI
+      secret: bytesToHex(crypto.getRandomValues(new Uint8Array(8))).substring(2),
+      perms: PERMISSIONS,
+      name: "ethstr",
+      url: window.location.origin,
+    });
+    onUri(uri);
+
+    const signer = await BunkerSigner.fromURI(clientSecretKey, uri, { onauth }, NOSTR_CONNECT_TIMEOUT_MS);
+    return pair(clientSecretKey, signer);
+  },
+
+  /**
+   * Signer of the current pairing, reopened from storage after a reload.
+   */
+  getSigner(): NostrSigner {
+    if (!bunkerSigner) {
+      const pairing = loadPairing();
+      if (!pairing) {
+        throw new Error("No remote signer paired, connect with a bunker:// or nostrconnect:// URI first");
+      }
+      bunkerSigner = BunkerSigner.fromBunker(hexToBytes(pairing.clientSecretKey), pairing.bunker, { onauth });
+    }
+    return toNostrSigner(bunkerSigner);
+  },
+
+  // Drops the pairing, the signer has to approve this app again next time
+  disconnect(): void {
+    bunkerSigner?.close().catch(console.error);
+    bunkerSigner = null;
+    if (typeof window !== "undefined") window.localStorage.removeItem(STORAGE_KEY);
+  },
+};
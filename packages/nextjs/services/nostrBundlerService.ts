@@ -1,4 +1,5 @@
 import { SimplePool, finalizeEvent, generateSecretKey } from "nostr-tools";
+import type { Address } from "viem";
 import { NOSTR_RELAYS } from "~~/config/appChains";
 import { stringifyWithBigInt } from "~~/utils/stringifyWithBigInt";
 
@@ -6,18 +7,31 @@ const pool = new SimplePool();
 const relays = [...NOSTR_RELAYS]; // Use relays from config
 const sk = generateSecretKey();
 
+export type SendUserOpTarget = {
+  chainId: number;
+  entryPointAddress: Address;
+};
+
 export const nostrBundlerService = {
-  async sendUserOp(userOp: any): Promise<void> {
+  /**
+   * Publishes a signed UserOperation for the bundler relay and resolves with the Nostr event id.
+   */
+  async sendUserOp(userOp: any, target: SendUserOpTarget): Promise<string> {
     const serializeUserOp = stringifyWithBigInt(userOp);
     const signedEvent = finalizeEvent(
       {
         kind: 96124,
         created_at: Math.floor(Date.now() / 1000),
-        tags: [],
+        // The relay routes the op to the bundler of this chain and EntryPoint
+        tags: [
+          ["chainId", target.chainId.toString()],
+          ["entryPoint", target.entryPointAddress],
+        ],
         content: serializeUserOp,
       },
       sk,
     );
     await Promise.any(pool.publish(relays, signedEvent));
+    return signedEvent.id;
   },
 };
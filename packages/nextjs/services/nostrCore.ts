@@ -1,7 +1,8 @@
 // Core Nostr functionality - pure functions that work everywhere
 // This file contains the business logic without any environment-specific code
 import { nip19 } from "nostr-tools";
-import { createPublicClient, http } from "viem";
+import { type Hex, createPublicClient, http } from "viem";
+import { verifyHash } from "viem/actions";
 import { getAppChainConfig } from "~~/config/appChains";
 import { toNostrSmartAccount } from "~~/services/nostrSmartAccount";
 import { getTargetNetworks } from "~~/utils/scaffold-eth";
@@ -51,10 +52,11 @@ export const getChainById = (chainId: number) => {
 };
 
 /**
- * Get EVM address from npub on a specific chain
+ * Build the public client and Nostr smart account for an npub on a specific chain
+ * `index` is the factory salt, each npub has one account per index
  * Core business logic - works everywhere
  */
-export const getEthAddressFromNpub = async (nPub: string, chainId: number): Promise<string | null> => {
+const getNpubSmartAccount = async (nPub: string, chainId: number, index = 0) => {
   const decodedValue = decodeNpub(nPub);
   if (!decodedValue) {
     throw new Error("Invalid npub");
@@ -75,9 +77,44 @@ export const getEthAddressFromNpub = async (nPub: string, chainId: number): Prom
   const account = await toNostrSmartAccount({
     client: publicClient,
     owner: `0x${decodedValue}`,
+    index: BigInt(index),
     factoryAddress: appChainConfig.factoryAddress,
+    entryPoint: {
+      address: appChainConfig.entryPointAddress,
+      version: appChainConfig.entryPointVersion,
+    },
   });
 
+  return { publicClient, account };
+};
+
+/**
+ * Get EVM address from npub on a specific chain
+ * Core business logic - works everywhere
+ */
+export const getEthAddressFromNpub = async (nPub: string, chainId: number, index = 0): Promise<string | null> => {
+  const { account } = await getNpubSmartAccount(nPub, chainId, index);
+
   const address = await account.getAddress();
   return address;
 };
+
+/**
+ * Verify that a signature over `hash` was produced by the npub's smart account
+ * Accepts ERC-1271 signatures from deployed accounts and ERC-6492 envelopes from undeployed ones
+ */
+export const verifyNpubSignature = async (
+  nPub: string,
+  chainId: number,
+  hash: Hex,
+  signature: Hex,
+  index = 0,
+): Promise<boolean> => {
+  const { publicClient, account } = await getNpubSmartAccount(nPub, chainId, index);
+
+  return verifyHash(publicClient, {
+    address: await account.getAddress(),
+    hash,
+    signature,
+  });
+};
@@ -0,0 +1,278 @@
+import { getSenderAddress } from "./getSenderAddress";
+import {
+  STUB_BIP340_SIGNATURE,
+  decodeAccountCalls,
+  encodeAccountCalls,
+  encodeNonce,
+  getAccountNonce,
+  getEntryPointAbi,
+} from "./nostrSmartAccount";
+import {
+  type Address,
+  type Chain,
+  type Client,
+  type Hex,
+  type JsonRpcAccount,
+  type LocalAccount,
+  type Transport,
+  type TypedDataDefinition,
+  concatHex,
+  encodeFunctionData,
+  hashMessage,
+  hashTypedData,
+  pad,
+  serializeErc6492Signature,
+  toHex,
+} from "viem";
+import {
+  type EntryPointVersion,
+  type SmartAccount,
+  type SmartAccountImplementation,
+  type UserOperation,
+  entryPoint08Address,
+  getUserOperationHash,
+  toSmartAccount,
+} from "viem/account-abstraction";
+import { getChainId, getCode } from "viem/actions";
+import { getAction } from "viem/utils";
+
+/** One owner's BIP340 signature over the kind-96024 event of a hash */
+export type MultisigSignatureEntry = {
+  // x-only public key, 32 bytes hex
+  pubkey: Hex;
+  // 64-byte BIP340 signature
+  signature: Hex;
+};
+
+/**
+ * What an ERC-1271 signature of the multisig covers: a message as passed to signMessage (raw bytes as hex)
+ * or typed data. Co-signers review it and recompute the hash they are asked to sign from it.
+ */
+export type MultisigSignedMessage =
+  | { type: "message"; message: string | { raw: Hex } }
+  | { type: "typedData"; typedData: TypedDataDefinition };
+
+/**
+ * Collects signatures over `hash` from enough owners to meet the threshold.
+ * `userOperation` is set when the hash is a UserOperation hash and `message` when it is the replay-safe hash of
+ * a message, so co-signers can review what they approve.
+ */
+export type CollectMultisigSignatures = (request: {
+  hash: Hex;
+  account: Address;
+  userOperation?: UserOperation;
+  message?: MultisigSignedMessage;
+}) => Promise<MultisigSignatureEntry[]>;
+
+/**
+ * Mirrors NpubMultisigAccount.replaySafeHash: binds a message hash to the multisig account and chain.
+ */
+export const getMultisigReplaySafeHash = (hash: Hex, chainId: number, verifyingContract: Address): Hex =>
+  hashTypedData({
+    domain: {
+      name: "NpubMultisigAccount",
+      version: "1",
+      chainId,
+      verifyingContract,
+    },
+    types: {
+      NpubMessage: [{ name: "hash", type: "bytes32" }],
+    },
+    primaryType: "NpubMessage",
+    message: { hash },
+  });
+
+/**
+ * Hash of a reviewed message before the replay-safe wrapping, as signMessage and signTypedData compute it.
+ */
+export const hashMultisigSignedMessage = (signed: MultisigSignedMessage): Hex =>
+  signed.type === "message" ? hashMessage(signed.message) : hashTypedData(signed.typedData);
+
+/**
+ * Encodes owner signatures the way NpubMultisigAccount expects them:
+ * pubkey || signature entries sorted by strictly ascending public key.
+ */
+export const encodeMultisigSignature = (entries: MultisigSignatureEntry[]): Hex => {
+  const sorted = [...entries].sort((a, b) => (BigInt(a.pubkey) < BigInt(b.pubkey) ? -1 : 1));
+
+  for (let i = 1; i < sorted.length; i++) {
+    if (BigInt(sorted[i].pubkey) === BigInt(sorted[i - 1].pubkey)) {
+      throw new Error(`Duplicate signature from owner ${sorted[i].pubkey}`);
+    }
+  }
+
+  return concatHex(sorted.flatMap(entry => [pad(entry.pubkey, { size: 32 }), entry.signature]));
+};
+
+const getMultisigInitCode = (owners: Hex[], threshold: number, index: bigint): Hex => {
+  return encodeFunctionData({
+    abi: [
+      {
+        inputs: [
+          { internalType: "uint256[]", name: "owners", type: "uint256[]" },
+          { internalType: "uint256", name: "threshold", type: "uint256" },
+          { internalType: "uint256", name: "salt", type: "uint256" },
+        ],
+        name: "createAccount",
+        outputs: [{ internalType: "contract NpubMultisigAccount", name: "ret", type: "address" }],
+        stateMutability: "nonpayable",
+        type: "function",
+      },
+    ],
+    functionName: "createAccount",
+    args: [owners.map(owner => BigInt(owner)), BigInt(threshold), index],
+  });
+};
+
+export type ToNostrMultisigSmartAccountParameters<entryPointVersion extends EntryPointVersion> = {
+  client: Client<Transport, Chain | undefined, JsonRpcAccount | LocalAccount | undefined>;
+  owners: Hex[];
+  threshold: number;
+  factoryAddress: Address;
+  collectSignatures: CollectMultisigSignatures;
+  entryPoint?: {
+    address: Address;
+    version: entryPointVersion;
+  };
+  index?: bigint;
+  address?: Address;
+};
+
+export type NostrMultisigSmartAccountImplementation<entryPointVersion extends EntryPointVersion = "0.8"> =
+  SmartAccountImplementation<ReturnType<typeof getEntryPointAbi>, entryPointVersion>;
+
+export type ToNostrMultisigSmartAccountReturnType<entryPointVersion extends EntryPointVersion = "0.8"> = SmartAccount<
+  NostrMultisigSmartAccountImplementation<entryPointVersion>
+>;
+
+/**
+ * @description Creates an M-of-N NpubMultisigAccount controlled by several Nostr keys.
+ * Signing delegates to `collectSignatures`, which gathers owner signatures (usually over Nostr)
+ * and the collected entries are packed into a single UserOperation signature.
+ */
+export async function toNostrMultisigSmartAccount<entryPointVersion extends EntryPointVersion>(
+  parameters: ToNostrMultisigSmartAccountParameters<entryPointVersion>,
+): Promise<ToNostrMultisigSmartAccountReturnType<entryPointVersion>> {
+  const { client, owners, threshold, factoryAddress, collectSignatures, index = BigInt(0), address } = parameters;
+
+  if (threshold < 1 || threshold > owners.length) {
+    throw new Error(`Threshold must be between 1 and ${owners.length}, got ${threshold}`);
+  }
+
+  const entryPoint = parameters.entryPoint
+    ? {
+        address: parameters.entryPoint.address,
+        abi: getEntryPointAbi(parameters.entryPoint.version),
+        version: parameters.entryPoint.version,
+      }
+    : ({
+        address: entryPoint08Address,
+        abi: getEntryPointAbi("0.8"),
+        version: "0.8",
+      } as const);
+
+  let accountAddress: Address | undefined = address;
+
+  let chainId: number;
+
+  const getMemoizedChainId = async () => {
+    if (chainId) return chainId;
+    chainId = client.chain ? client.chain.id : await getAction(client, getChainId, "getChainId")({});
+    return chainId;
+  };
+
+  const getFactoryArgs = async () => {
+    return {
+      factory: factoryAddress,
+      factoryData: getMultisigInitCode(owners, threshold, index),
+    };
+  };
+
+  const getAddress = async (): Promise<Address> => {
+    if (accountAddress) return accountAddress;
+
+    const { factory, factoryData } = await getFactoryArgs();
+    accountAddress = await getSenderAddress(client, {
+      factory,
+      factoryData,
+      entryPointAddress: entryPoint.address,
+    });
+
+    return accountAddress;
+  };
+
+  // ERC-6492 wrapping for counterfactual accounts, see toNostrSmartAccount. Co-signers only sign hashes that
+  // come with the `message` they were computed from
+  const signHash = async (hash: Hex, message?: MultisigSignedMessage): Promise<Hex> => {
+    const account = await getAddress();
+    const replaySafeHash = getMultisigReplaySafeHash(hash, await getMemoizedChainId(), account);
+    const entries = await collectSignatures({ hash: replaySafeHash, account, message });
+    const signature = encodeMultisigSignature(entries);
+
+    const code = await getAction(client, getCode, "getCode")({ address: account });
+    if (code && code !== "0x") return signature;
+
+    const { factory, factoryData } = await getFactoryArgs();
+    return serializeErc6492Signature({ address: factory, data: factoryData, signature });
+  };
+
+  return toSmartAccount({
+    client,
+    entryPoint,
+    getFactoryArgs,
+    getAddress,
+    encodeCalls: encodeAccountCalls,
+    //@ts-ignore
+    decodeCalls: decodeAccountCalls,
+    async getNonce(parameters) {
+      const key = parameters?.key ?? 0n;
+      return getAccountNonce(client, {
+        address: await getAddress(),
+        entryPointAddress: entryPoint.address,
+        key,
+      }).catch(e => {
+        console.error(e);
+        return encodeNonce(key, 0n);
+      });
+    },
+    async getStubSignature() {
+      // One well-formed entry per required owner so the bundler estimates verification gas for the threshold
+      return encodeMultisigSignature(
+        owners.slice(0, threshold).map(pubkey => ({ pubkey, signature: STUB_BIP340_SIGNATURE })),
+      );
+    },
+    async sign({ hash }) {
+      return signHash(hash);
+    },
+    async signMessage({ message }) {
+      // Raw bytes travel as hex in the co-sign request
+      const signed: MultisigSignedMessage = {
+        type: "message",
+        message:
+          typeof message === "string"
+            ? message
+            : { raw: typeof message.raw === "string" ? message.raw : toHex(message.raw) },
+      };
+      return signHash(hashMultisigSignedMessage(signed), signed);
+    },
+    async signTypedData(typedData) {
+      const signed: MultisigSignedMessage = { type: "typedData", typedData: typedData as TypedDataDefinition };
+      return signHash(hashMultisigSignedMessage(signed), signed);
+    },
+    async signUserOperation(parameters) {
+      const { chainId = await getMemoizedChainId(), ...userOperation } = parameters;
+      const sender = userOperation.sender ?? (await getAddress());
+      const operation = { ...userOperation, sender, signature: "0x" } as UserOperation<entryPointVersion>;
+
+      const hash = getUserOperationHash({
+        userOperation: operation,
+        entryPointAddress: entryPoint.address,
+        entryPointVersion: entryPoint.version,
+        chainId,
+      });
+
+      const entries = await collectSignatures({ hash, account: sender, userOperation: operation as UserOperation });
+      return encodeMultisigSignature(entries);
+    },
+  }) as Promise<ToNostrMultisigSmartAccountReturnType<entryPointVersion>>;
+}
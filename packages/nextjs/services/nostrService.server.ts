@@ -1,6 +1,7 @@
 // Server-safe version of nostrService for API routes
 // This file should NOT import from client-side hooks or stores
-import { decodeNpub, getEthAddressFromNpub } from "~~/services/nostrCore";
+import { isHex } from "viem";
+import { decodeNpub, getEthAddressFromNpub, verifyNpubSignature } from "~~/services/nostrCore";
 import type { ServerNostrServiceInterface } from "~~/services/nostrService.types";
 import { NostrServiceError } from "~~/services/nostrService.types";
 
@@ -28,9 +29,9 @@ export const nostrServiceServer: ServerNostrServiceInterface = {
   /**
    * Get EVM address from npub on a specific chain
    * Server-safe version that doesn't use global state
-   * chainId is required - no default value
+   * chainId is required - no default value, index defaults to the npub's first account
    */
-  async getEthAddress(nPub: string, chainId: number): Promise<string | null> {
+  async getEthAddress(nPub: string, chainId: number, index = 0): Promise<string | null> {
     if (!nPub) {
       throw new NostrServiceError("npub is required", "INVALID_INPUT");
     }
@@ -39,8 +40,12 @@ export const nostrServiceServer: ServerNostrServiceInterface = {
       throw new NostrServiceError("Valid chainId is required", "INVALID_CHAIN_ID");
     }
 
+    if (!Number.isSafeInteger(index) || index < 0) {
+      throw new NostrServiceError("index must be a non-negative integer", "INVALID_INDEX");
+    }
+
     try {
-      return await getEthAddressFromNpub(nPub, chainId);
+      return await getEthAddressFromNpub(nPub, chainId, index);
     } catch (error) {
       console.error("Failed to get ETH address:", error);
       if (error instanceof NostrServiceError) {
@@ -49,4 +54,46 @@ export const nostrServiceServer: ServerNostrServiceInterface = {
       throw new NostrServiceError("Failed to get ETH address", "ADDRESS_RESOLUTION_FAILED", error);
     }
   },
+
+  /**
+   * Verify a signature made by the npub's smart account on a specific chain
+   * Works for deployed accounts (ERC-1271) and counterfactual ones (ERC-6492 envelope)
+   */
+  async verifySignature(
+    nPub: string,
+    chainId: number,
+    hash: `0x${string}`,
+    signature: `0x${string}`,
+    index = 0,
+  ): Promise<boolean> {
+    if (!nPub) {
+      throw new NostrServiceError("npub is required", "INVALID_INPUT");
+    }
+
+    if (!chainId || chainId <= 0) {
+      throw new NostrServiceError("Valid chainId is required", "INVALID_CHAIN_ID");
+    }
+
+    if (!Number.isSafeInteger(index) || index < 0) {
+      throw new NostrServiceError("index must be a non-negative integer", "INVALID_INDEX");
+    }
+
+    if (!isHex(hash) || hash.length !== 66) {
+      throw new NostrServiceError("hash must be a 32-byte hex string", "INVALID_HASH");
+    }
+
+    if (!isHex(signature) || signature.length <= 2) {
+      throw new NostrServiceError("signature must be a hex string", "INVALID_SIGNATURE");
+    }
+
+    try {
+      return await verifyNpubSignature(nPub, chainId, hash, signature, index);
+    } catch (error) {
+      console.error("Failed to verify signature:", error);
+      if (error instanceof NostrServiceError) {
+        throw error;
+      }
+      throw new NostrServiceError("Failed to verify signature", "SIGNATURE_VERIFICATION_FAILED", error);
+    }
+  },
 };
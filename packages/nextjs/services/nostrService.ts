@@ -1,10 +1,14 @@
+import { localKeySignerService } from "~~/services/localKeySignerService";
+import { nip46SignerService } from "~~/services/nip46SignerService";
 import { decodeNpub, encodeNpub, getEthAddressFromNpub } from "~~/services/nostrCore";
 import type { ClientNostrServiceInterface } from "~~/services/nostrService.types";
 import { NostrServiceError } from "~~/services/nostrService.types";
-import { useGlobalState } from "~~/services/store/store";
+import { type NostrSigner, nip07Signer } from "~~/services/nostrSigner";
+import { type NostrSignerType, useGlobalState } from "~~/services/store/store";
 
 // Client-side state management
 let nostrPubkey: string | null = null;
+let nostrSignerType: NostrSignerType | null = null;
 
 /**
  * Client-side Nostr service with browser-specific functionality
@@ -12,18 +16,18 @@ let nostrPubkey: string | null = null;
  */
 export const nostrService: ClientNostrServiceInterface = {
   /**
-   * Connects to the Nostr extension and retrieves the user's public key.
+   * Connects to the Nostr extension, or to the paired remote signer, and retrieves the user's public key.
    * The result is cached in nostrService and global state.
    */
-  async connect(): Promise<string | null> {
+  async connect(signerType: NostrSignerType = "nip07"): Promise<string | null> {
     // @ts-ignore
-    if (!window.nostr) {
+    if (signerType === "nip07" && !window.nostr) {
       throw new NostrServiceError("Nostr extension not found", "EXTENSION_NOT_FOUND");
     }
 
     try {
-      // @ts-ignore
-      nostrPubkey = await window.nostr.getPublicKey();
+      nostrSignerType = signerType;
+      nostrPubkey = await this.getSigner().getPublicKey();
 
       // Update global state
       useGlobalState.getState().setNPubKey(nostrPubkey);
@@ -34,29 +38,66 @@ export const nostrService: ClientNostrServiceInterface = {
       return nostrPubkey;
     } catch (error) {
       console.error("Failed to connect to nostr:", error);
-      throw new NostrServiceError("Failed to connect to Nostr extension", "CONNECTION_FAILED", error);
+      nostrSignerType = null;
+      throw new NostrServiceError(
+        signerType === "nip07" ? "Failed to connect to Nostr extension" : "Failed to connect to Nostr signer",
+        "CONNECTION_FAILED",
+        error,
+      );
     }
   },
 
   /**
    * Returns the cached Nostr public key.
-   * Falls back to global state if local cache is empty.
+   * Falls back to the persisted session if local cache is empty.
    */
   getPubkey(): string | null {
     if (nostrPubkey) {
       return nostrPubkey;
     }
 
-    // Fallback to global state
-    const globalPubkey = useGlobalState.getState().nPubkey;
-    if (globalPubkey) {
-      nostrPubkey = globalPubkey;
+    // Fallback to the session restored after a reload
+    const sessionPubkey = useGlobalState.getState().walletSession?.pubkey;
+    if (sessionPubkey) {
+      nostrPubkey = sessionPubkey;
       return nostrPubkey;
     }
 
     return null;
   },
 
+  /**
+   * How the connected pubkey signs, restored from the persisted session after a reload.
+   */
+  getSignerType(): NostrSignerType {
+    return nostrSignerType ?? useGlobalState.getState().walletSession?.signerType ?? "nip07";
+  },
+
+  /**
+   * Signer of the connected pubkey, the one the owner's signatures go through.
+   */
+  getSigner(): NostrSigner {
+    switch (this.getSignerType()) {
+      case "nip46":
+        return nip46SignerService.getSigner();
+      case "ncryptsec":
+        return localKeySignerService.getSigner();
+      default:
+        return nip07Signer;
+    }
+  },
+
+  /**
+   * Clears the cached public key and the remote signer pairing, e.g. when the session ends.
+   * A local key stays stored but is locked again.
+   */
+  disconnect(): void {
+    if (this.getSignerType() === "nip46") nip46SignerService.disconnect();
+    if (this.getSignerType() === "ncryptsec") localKeySignerService.lock();
+    nostrPubkey = null;
+    nostrSignerType = null;
+  },
+
   /**
    * Get npub from cached public key
    */
@@ -92,7 +133,7 @@ export const nostrService: ClientNostrServiceInterface = {
    * Get EVM address from npub using specified network
    * Uses global state for chain configuration
    */
-  async getEthAddress(nPub: string, chainId?: number): Promise<string | null> {
+  async getEthAddress(nPub: string, chainId?: number, index = 0): Promise<string | null> {
     try {
       // Use provided chainId or fall back to global state
       const targetChainId = chainId || useGlobalState.getState().targetNetwork.id;
@@ -101,7 +142,7 @@ export const nostrService: ClientNostrServiceInterface = {
         throw new NostrServiceError("npub is required", "INVALID_INPUT");
       }
 
-      return await getEthAddressFromNpub(nPub, targetChainId);
+      return await getEthAddressFromNpub(nPub, targetChainId, index);
     } catch (error) {
       console.error("Failed to get ETH address:", error);
       if (error instanceof NostrServiceError) {
@@ -1,20 +1,32 @@
 // TypeScript interfaces for Nostr services
 // This ensures type safety and consistent API across client and server
+import type { NostrSigner } from "~~/services/nostrSigner";
+import type { NostrSignerType } from "~~/services/store/store";
 
 export interface NostrServiceInterface {
   getNostrPubkey(nPub: string): string | null;
-  getEthAddress(nPub: string, chainId: number): Promise<string | null>;
+  getEthAddress(nPub: string, chainId: number, index?: number): Promise<string | null>;
 }
 
 export interface ClientNostrServiceInterface extends NostrServiceInterface {
-  connect(): Promise<string | null>;
+  connect(signerType?: NostrSignerType): Promise<string | null>;
+  disconnect(): void;
   getPubkey(): string | null;
+  getSignerType(): NostrSignerType;
+  getSigner(): NostrSigner;
   getNostrNpub(): string | null;
-  getEthAddress(nPub: string, chainId: number): Promise<string | null>;
+  getEthAddress(nPub: string, chainId: number, index?: number): Promise<string | null>;
 }
 
 export interface ServerNostrServiceInterface extends NostrServiceInterface {
-  getEthAddress(nPub: string, chainId: number): Promise<string | null>;
+  getEthAddress(nPub: string, chainId: number, index?: number): Promise<string | null>;
+  verifySignature(
+    nPub: string,
+    chainId: number,
+    hash: `0x${string}`,
+    signature: `0x${string}`,
+    index?: number,
+  ): Promise<boolean>;
 }
 
 // Error types for better error handling
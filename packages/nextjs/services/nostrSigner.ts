@@ -0,0 +1,54 @@
+import { nostr } from "./connectNostrExtensionService";
+import { schnorr } from "@noble/curves/secp256k1";
+import { finalizeEvent, getPublicKey } from "nostr-tools";
+import { type Hex, bytesToHex } from "viem";
+
+export type NostrEventTemplate = {
+  kind: number;
+  created_at: number;
+  tags: string[][];
+  content: string;
+};
+
+export type SignedNostrEvent = NostrEventTemplate & {
+  id: string;
+  pubkey: string;
+  sig: string;
+};
+
+/**
+ * Whatever holds the Nostr key: a browser extension, a key in memory, a remote signer.
+ * Smart accounts take one instead of talking to `window.nostr`, so they run outside the browser too.
+ */
+export interface NostrSigner {
+  /** Hex public key, without 0x */
+  getPublicKey(): Promise<string>;
+  signEvent(template: NostrEventTemplate): Promise<SignedNostrEvent>;
+  /** Raw BIP340 signature over a 32-byte hash, only present when the signer can produce one */
+  signSchnorr?: (hash: Hex) => Promise<Hex>;
+}
+
+/**
+ * Signs through the NIP-07 browser extension. `signSchnorr` is only exposed while the extension offers it.
+ */
+export const nip07Signer: NostrSigner = {
+  getPublicKey: () => nostr.getPublicKey(),
+  signEvent: template => nostr.signEvent(template),
+  get signSchnorr() {
+    if (!nostr.supportsSignSchnorr()) return undefined;
+    return async (hash: Hex): Promise<Hex> => {
+      const signature = await nostr.signSchnorrHex32(hash.substring(2));
+      return `0x${signature.replace(/^0x/, "")}`;
+    };
+  },
+};
+
+/**
+ * Signs with a secret key held in memory, e.g. in scripts, tests or on a server. Having the key, it can always
+ * sign raw hashes too.
+ */
+export const createLocalKeySigner = (secretKey: Uint8Array): NostrSigner => ({
+  getPublicKey: async () => getPublicKey(secretKey),
+  signEvent: async template => finalizeEvent(template, secretKey),
+  signSchnorr: async hash => bytesToHex(schnorr.sign(hash.substring(2), secretKey)),
+});
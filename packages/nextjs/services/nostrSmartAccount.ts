@@ -1,4 +1,8 @@
+import { estimateNostrUserOperationGas } from "./estimateUserOperationGas";
 import { getSenderAddress } from "./getSenderAddress";
+import type { NostrSigner } from "./nostrSigner";
+import { schnorr } from "@noble/curves/secp256k1";
+import { finalizeEvent, getEventHash, nip19, verifyEvent } from "nostr-tools";
 import {
   type Address,
   type Assign,
@@ -7,29 +11,72 @@ import {
   type Hex,
   type JsonRpcAccount,
   type LocalAccount,
+  type SignableMessage,
   type Transport,
+  type TypedData,
+  type TypedDataDefinition,
+  bytesToHex,
+  concat,
   decodeFunctionData,
+  domainSeparator,
+  encodeAbiParameters,
   encodeFunctionData,
+  hashMessage,
+  hashStruct,
   hashTypedData,
+  keccak256,
+  serializeErc6492Signature,
+  stringToHex,
+  zeroHash,
 } from "viem";
 import {
   type EntryPointVersion,
   type SmartAccount,
   type SmartAccountImplementation,
   type UserOperation,
+  entryPoint07Abi,
   entryPoint08Abi,
   entryPoint08Address,
   getUserOperationHash,
   getUserOperationTypedData,
   toSmartAccount,
 } from "viem/account-abstraction";
-import { getChainId } from "viem/actions";
+import { getChainId, getCode } from "viem/actions";
 import { readContract } from "viem/actions";
 import { getAction } from "viem/utils";
 
 export type GetAccountNonceParams = {
   address: Address;
   entryPointAddress: Address;
+  key?: bigint;
+};
+
+const MAX_NONCE_KEY = (1n << 192n) - 1n;
+
+/**
+ * Validates a nonce key (the uint192 "lane" of an ERC-4337 2D nonce).
+ * Operations on different keys are ordered independently by the EntryPoint.
+ */
+export const assertNonceKey = (key: bigint): void => {
+  if (key < 0n || key > MAX_NONCE_KEY) {
+    throw new Error(`Nonce key must be a uint192, got ${key}`);
+  }
+};
+
+/**
+ * Splits an EntryPoint nonce into its lane key (upper 192 bits) and sequence (lower 64 bits).
+ */
+export const decodeNonce = (nonce: bigint): { key: bigint; sequence: bigint } => ({
+  key: nonce >> 64n,
+  sequence: nonce & ((1n << 64n) - 1n),
+});
+
+/**
+ * Builds an EntryPoint nonce from a lane key and a sequence number.
+ */
+export const encodeNonce = (key: bigint, sequence: bigint): bigint => {
+  assertNonceKey(key);
+  return (key << 64n) | sequence;
 };
 
 /**
@@ -59,7 +106,8 @@ export type GetAccountNonceParams = {
  * // Return 0n
  */
 export const getAccountNonce = async (client: Client, args: GetAccountNonceParams): Promise<bigint> => {
-  const { address, entryPointAddress } = args;
+  const { address, entryPointAddress, key = 0n } = args;
+  assertNonceKey(key);
 
   return await getAction(
     client,
@@ -91,7 +139,7 @@ export const getAccountNonce = async (client: Client, args: GetAccountNonceParam
       },
     ],
     functionName: "getNonce",
-    args: [address, 0n],
+    args: [address, key],
   });
 };
 
@@ -140,6 +188,15 @@ export type ToSimpleSmartAccountParameters<entryPointVersion extends EntryPointV
   };
   index?: bigint;
   address?: Address;
+  // Signs for the owner. Without one the account can only be read, e.g. to derive its address
+  signer?: NostrSigner;
+  // Signs UserOperations with a delegated session key instead of the owner's signer
+  session?: NostrSessionKey;
+  // Bundler to estimate gas through, with margins for the Nostr signature and the deployment
+  bundlerTransport?: Transport;
+  // Whether the account accepts typed owner signatures, false for accounts of older factories which only
+  // verify the 64-byte signature of the untagged event. Defaults to true
+  typedSignatures?: boolean;
 };
 
 const getFactoryAddress = (entryPointVersion: EntryPointVersion, factoryAddress?: Address): Address => {
@@ -149,12 +206,14 @@ const getFactoryAddress = (entryPointVersion: EntryPointVersion, factoryAddress?
     case "0.8":
       return "0xaCeEF9bf23b41D4898516D2Fdcd7b4BDc22444D7";
     default:
-      throw new Error("Unsupported entrypoint version");
+      throw new Error(`No default factory for EntryPoint v${entryPointVersion}, pass factoryAddress explicitly`);
   }
 };
 
-const getEntryPointAbi = (entryPointVersion: EntryPointVersion) => {
+export const getEntryPointAbi = (entryPointVersion: EntryPointVersion) => {
   switch (entryPointVersion) {
+    case "0.7":
+      return entryPoint07Abi;
     case "0.8":
       return entryPoint08Abi;
     default:
@@ -179,7 +238,24 @@ export type ToSimpleSmartAccountReturnType<entryPointVersion extends EntryPointV
 export async function toNostrSmartAccount<entryPointVersion extends EntryPointVersion>(
   parameters: ToSimpleSmartAccountParameters<entryPointVersion>,
 ): Promise<ToSimpleSmartAccountReturnType<entryPointVersion>> {
-  const { client, owner, factoryAddress: _factoryAddress, index = BigInt(0), address } = parameters;
+  const {
+    client,
+    owner,
+    factoryAddress: _factoryAddress,
+    index = BigInt(0),
+    address,
+    signer,
+    session,
+    bundlerTransport,
+    typedSignatures = true,
+  } = parameters;
+
+  const getSigner = (): NostrSigner => {
+    if (!signer) {
+      throw new Error("This account has no signer, pass one to toNostrSmartAccount to sign with it");
+    }
+    return signer;
+  };
 
   const entryPoint = parameters.entryPoint
     ? {
@@ -195,7 +271,7 @@ export async function toNostrSmartAccount<entryPointVersion extends EntryPointVe
 
   const factoryAddress = getFactoryAddress(entryPoint.version, _factoryAddress);
 
-  let accountAddress: string | undefined = address;
+  let accountAddress: Address | undefined = address;
 
   let chainId: number;
 
@@ -212,10 +288,61 @@ export async function toNostrSmartAccount<entryPointVersion extends EntryPointVe
     };
   };
 
+  const getReplaySafeHash = async (hash: Hex, account: Address): Promise<Hex> =>
+    getAccountReplaySafeHash({ hash, chainId: await getMemoizedChainId(), account });
+
+  // NpubAccount.isValidSignature only accepts signatures that carry their message while spending limits are set,
+  // so it can refuse token permits. Accounts that are not deployed have no limits
+  const withSignedMessage = async (
+    signature: Hex,
+    accountAddress: Address,
+    message: { domainSeparator: Hex; data: Hex },
+  ): Promise<Hex> => {
+    const limitedTokenCount = await getAction(
+      client,
+      readContract,
+      "readContract",
+    )({
+      address: accountAddress,
+      abi: [
+        {
+          type: "function",
+          name: "limitedTokenCount",
+          inputs: [],
+          outputs: [{ name: "", type: "uint256" }],
+          stateMutability: "view",
+        },
+      ],
+      functionName: "limitedTokenCount",
+    }).catch(() => 0n);
+    if (limitedTokenCount === 0n) return signature;
+
+    return encodeAbiParameters(
+      [{ type: "bytes" }, { type: "bytes32" }, { type: "bytes" }],
+      [signature, message.domainSeparator, message.data],
+    );
+  };
+
+  // ERC-6492: until the account is deployed, wrap the signature with the factory call that deploys it
+  // so verifiers can simulate the deployment before calling isValidSignature
+  const wrapCounterfactualSignature = async (signature: Hex, accountAddress: Address): Promise<Hex> => {
+    const code = await getAction(client, getCode, "getCode")({ address: accountAddress });
+    if (code && code !== "0x") return signature;
+
+    const { factory, factoryData } = await getFactoryArgs();
+    return serializeErc6492Signature({ address: factory, data: factoryData, signature });
+  };
+
   return toSmartAccount({
     client,
     entryPoint,
     getFactoryArgs,
+    userOperation: bundlerTransport
+      ? {
+          estimateGas: userOperation =>
+            estimateNostrUserOperationGas(client, bundlerTransport, entryPoint.address, userOperation as UserOperation),
+        }
+      : undefined,
     async getAddress() {
       if (accountAddress) return accountAddress;
 
@@ -230,153 +357,61 @@ export async function toNostrSmartAccount<entryPointVersion extends EntryPointVe
 
       return accountAddress;
     },
-    async encodeCalls(calls) {
-      if (calls.length > 1) {
-        if (entryPoint.version === "0.8") {
-          return encodeFunctionData({
-            abi: executeBatch08Abi,
-            functionName: "executeBatch",
-            args: [
-              calls.map(a => ({
-                target: a.to,
-                value: a.value ?? 0n,
-                data: a.data ?? "0x",
-              })),
-            ],
-          });
-        }
-
-        if (entryPoint.version === "0.7") {
-          return encodeFunctionData({
-            abi: executeBatch07Abi,
-            functionName: "executeBatch",
-            args: [calls.map(a => a.to), calls.map(a => a.value ?? 0n), calls.map(a => a.data ?? "0x")],
-          });
-        }
-
-        return encodeFunctionData({
-          abi: executeBatch06Abi,
-          functionName: "executeBatch",
-          args: [calls.map(a => a.to), calls.map(a => a.data ?? "0x")],
-        });
-      }
-
-      const call = calls.length === 0 ? undefined : calls[0];
-
-      if (!call) {
-        throw new Error("No calls to encode");
-      }
-
-      // 0.6, 0.7 and 0.8 all use the same for "execute"
-      return encodeFunctionData({
-        abi: executeSingleAbi,
-        functionName: "execute",
-        args: [call.to, call.value ?? 0n, call.data ?? "0x"],
-      });
-    },
+    encodeCalls: encodeAccountCalls,
     //@ts-ignore
-    decodeCalls: async callData => {
-      try {
-        const calls: {
-          to: Address;
-          data: Hex;
-          value?: bigint;
-        }[] = [];
-
-        if (entryPoint.version === "0.8") {
-          const decodedV8 = decodeFunctionData({
-            abi: executeBatch08Abi,
-            data: callData,
-          });
-
-          for (const call of decodedV8.args[0]) {
-            calls.push({
-              to: call.target,
-              data: call.data,
-              value: call.value,
-            });
-          }
-
-          return calls;
-        }
-
-        if (entryPoint.version === "0.7") {
-          const decodedV7 = decodeFunctionData({
-            abi: executeBatch07Abi,
-            data: callData,
-          });
-
-          const destinations = decodedV7.args[0];
-          const values = decodedV7.args[1];
-          const datas = decodedV7.args[2];
-
-          for (let i = 0; i < destinations.length; i++) {
-            calls.push({
-              to: destinations[i],
-              data: datas[i],
-              value: values[i],
-            });
-          }
-
-          return calls;
-        }
-
-        if (entryPoint.version === "0.6") {
-          const decodedV6 = decodeFunctionData({
-            abi: executeBatch06Abi,
-            data: callData,
-          });
-
-          const destinations = decodedV6.args[0];
-          const datas = decodedV6.args[1];
-
-          for (let i = 0; i < destinations.length; i++) {
-            calls.push({
-              to: destinations[i],
-              data: datas[i],
-              value: 0n,
-            });
-          }
-
-          return calls;
-        }
-
-        return calls;
-      } catch {
-        const decodedSingle = decodeFunctionData({
-          abi: executeSingleAbi,
-          data: callData,
-        });
-
-        return [
-          {
-            to: decodedSingle.args[0],
-            value: decodedSingle.args[1],
-            data: decodedSingle.args[2],
-          },
-        ];
-      }
-    },
-    async getNonce() {
+    decodeCalls: decodeAccountCalls,
+    async getNonce(parameters) {
+      const key = parameters?.key ?? 0n;
       return getAccountNonce(client, {
         address: await this.getAddress(),
         entryPointAddress: entryPoint.address,
+        key,
       }).catch(e => {
         console.error(e);
-        return 0n;
+        return encodeNonce(key, 0n);
       });
     },
+    // Shaped like the signature signUserOperation produces, so estimation runs the same verification
     async getStubSignature() {
-      return "0xfffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+      if (session) {
+        return encodeSessionSignature(session, STUB_BIP340_SIGNATURE);
+      }
+      if (!typedSignatures) {
+        return STUB_BIP340_SIGNATURE;
+      }
+      return concat([getOwnerSignatureType(signer), STUB_BIP340_SIGNATURE]);
     },
     async sign({ hash }) {
-      return this.signMessage({ message: hash });
+      const accountAddress = await this.getAddress();
+      const signature = await signNostrHash(getSigner(), await getReplaySafeHash(hash, accountAddress), [], owner);
+      return wrapCounterfactualSignature(signature, accountAddress);
     },
-    signMessage: async () => {
-      throw new Error("Simple account isn't 1271 compliant");
+    async signMessage({ message }) {
+      const accountAddress = await this.getAddress();
+      const signature = await signNostrHash(
+        getSigner(),
+        await getReplaySafeHash(hashMessage(message), accountAddress),
+        [],
+        owner,
+      );
+      const signedMessage = { domainSeparator: zeroHash, data: getMessageBytes(message) };
+      return wrapCounterfactualSignature(
+        await withSignedMessage(signature, accountAddress, signedMessage),
+        accountAddress,
+      );
     },
-    signTypedData: async () => {
-      throw new Error("Simple account isn't 1271 compliant");
+    async signTypedData(typedData) {
+      const accountAddress = await this.getAddress();
+      const hash = hashTypedData(typedData as TypedDataDefinition);
+      const signature = await signNostrHash(getSigner(), await getReplaySafeHash(hash, accountAddress), [], owner);
+      const signedMessage = {
+        domainSeparator: domainSeparator({ domain: typedData.domain ?? {} }),
+        data: encodeTypedDataStruct(typedData as TypedDataDefinition),
+      };
+      return wrapCounterfactualSignature(
+        await withSignedMessage(signature, accountAddress, signedMessage),
+        accountAddress,
+      );
     },
     async signUserOperation(parameters) {
       const { chainId = await getMemoizedChainId(), ...userOperation } = parameters;
@@ -407,18 +442,354 @@ export async function toNostrSmartAccount<entryPointVersion extends EntryPointVe
         });
       }
 
-      //@ts-ignore
-      const result = await window.nostr.signEvent({
-        created_at: 0,
-        kind: 96024,
-        tags: [],
-        content: sigHash.substring(2),
+      if (session) {
+        return encodeSessionSignature(session, signNostrHashWithKey(sigHash, session.secretKey));
+      }
+
+      const ownerSigner = getSigner();
+      if (!typedSignatures) {
+        return signNostrHash(ownerSigner, sigHash, [], owner);
+      }
+      if (getOwnerSignatureType(ownerSigner) === SIGNATURE_TYPE_RAW) {
+        return concat([SIGNATURE_TYPE_RAW, await signNostrHashRaw(ownerSigner, sigHash, owner)]);
+      }
+
+      // Tag the event with what the operation does, so the extension shows it next to the hash
+      const tags = await getUserOperationTags({
+        chainId,
+        entryPointAddress: entryPoint.address,
+        sender: userOperation.sender ?? (await this.getAddress()),
+        callData: userOperation.callData,
       });
-      return `0x${result.sig}`;
+      return concat([SIGNATURE_TYPE_TAGGED_EVENT, await signNostrHash(ownerSigner, sigHash, tags, owner)]);
     },
   }) as Promise<ToSimpleSmartAccountReturnType<entryPointVersion>>;
 }
 
+/**
+ * Encodes calls for `execute` (single call) or `executeBatch` (several calls).
+ * NpubAccount inherits BaseAccount v0.8, so its executeBatch takes Call[] whichever
+ * EntryPoint version the factory was deployed against.
+ */
+export const encodeAccountCalls = async (
+  calls: readonly { to: Address; value?: bigint; data?: Hex }[],
+): Promise<Hex> => {
+  if (calls.length > 1) {
+    return encodeFunctionData({
+      abi: executeBatchAbi,
+      functionName: "executeBatch",
+      args: [
+        calls.map(a => ({
+          target: a.to,
+          value: a.value ?? 0n,
+          data: a.data ?? "0x",
+        })),
+      ],
+    });
+  }
+
+  const call = calls.length === 0 ? undefined : calls[0];
+
+  if (!call) {
+    throw new Error("No calls to encode");
+  }
+
+  return encodeFunctionData({
+    abi: executeSingleAbi,
+    functionName: "execute",
+    args: [call.to, call.value ?? 0n, call.data ?? "0x"],
+  });
+};
+
+/**
+ * Decodes `execute` / `executeBatch` call data back into calls.
+ */
+export const decodeAccountCalls = async (callData: Hex) => {
+  try {
+    const decodedBatch = decodeFunctionData({
+      abi: executeBatchAbi,
+      data: callData,
+    });
+
+    return decodedBatch.args[0].map(call => ({
+      to: call.target,
+      data: call.data,
+      value: call.value,
+    }));
+  } catch {
+    const decodedSingle = decodeFunctionData({
+      abi: executeSingleAbi,
+      data: callData,
+    });
+
+    return [
+      {
+        to: decodedSingle.args[0],
+        value: decodedSingle.args[1],
+        data: decodedSingle.args[2],
+      },
+    ];
+  }
+};
+
+/** Type byte of an owner signature over the UserOperation event tagged with getUserOperationTags */
+const SIGNATURE_TYPE_TAGGED_EVENT = "0x01";
+
+/** Type byte of a raw BIP340 owner signature over the UserOperation hash */
+const SIGNATURE_TYPE_RAW = "0x02";
+
+/**
+ * BIP340 signature with in-range components (the generator's x and s = 1), so on-chain verification
+ * runs to the end and fails instead of stopping early on a malformed signature.
+ */
+export const STUB_BIP340_SIGNATURE: Hex =
+  "0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f817980000000000000000000000000000000000000000000000000000000000000001";
+
+/**
+ * A raw BIP340 signature is cheapest to verify, but not every signer can produce one.
+ */
+const getOwnerSignatureType = (signer?: NostrSigner) =>
+  signer?.signSchnorr ? SIGNATURE_TYPE_RAW : SIGNATURE_TYPE_TAGGED_EVENT;
+
+/**
+ * Mirrors NpubAccount.userOperationTags: the version, chain id, EntryPoint and sender, then a
+ * target and value tag per call. Addresses are lowercase, numbers decimal.
+ */
+export const getUserOperationTags = async (params: {
+  chainId: number;
+  entryPointAddress: Address;
+  sender: Address;
+  callData: Hex;
+}): Promise<string[][]> => {
+  const { chainId, entryPointAddress, sender, callData } = params;
+
+  // Any other call data carries no call tags, like on-chain
+  const calls = await decodeAccountCalls(callData).catch(() => []);
+
+  return [
+    ["v", "1"],
+    ["chain", chainId.toString()],
+    ["entrypoint", entryPointAddress.toLowerCase()],
+    ["sender", sender.toLowerCase()],
+    ...calls.flatMap(call => [
+      ["target", call.to.toLowerCase()],
+      ["value", call.value.toString()],
+    ]),
+  ];
+};
+
+const normalizePubkey = (pubkey: string) => pubkey.replace(/^0x/, "").toLowerCase();
+
+// Extensions sign with whichever identity is selected in them, which may no longer be the account's owner
+const assertSignedByOwner = (pubkey: string, owner: Hex) => {
+  if (normalizePubkey(pubkey) === normalizePubkey(owner)) return;
+  throw new Error(
+    `The Nostr signer signed as ${nip19.npubEncode(normalizePubkey(pubkey))}, but this account is owned by ` +
+      `${nip19.npubEncode(normalizePubkey(owner))}. Switch back to that identity in your signer and try again.`,
+  );
+};
+
+/**
+ * Signs a 32-byte hash as the content of a kind-96024 Nostr event, the format
+ * NostrSignatures rebuilds on-chain for both UserOperations and ERC-1271 messages.
+ * `tags` must match what the verifying contract rebuilds, untagged events are used everywhere
+ * except for owner-signed UserOperations.
+ * The returned event is checked before its signature is used: its id must be the event the contract rebuilds,
+ * the Schnorr signature must verify and, when `owner` is given, it must be signed by that key.
+ */
+export const signNostrHash = async (
+  signer: NostrSigner,
+  hash: Hex,
+  tags: string[][] = [],
+  owner?: Hex,
+): Promise<Hex> => {
+  const template = {
+    created_at: 0,
+    kind: 96024,
+    tags,
+    content: hash.substring(2),
+  };
+  const result = await signer.signEvent(template);
+
+  if (owner) assertSignedByOwner(result.pubkey, owner);
+
+  const event = { ...template, pubkey: result.pubkey, id: getEventHash({ ...template, pubkey: result.pubkey }) };
+  if (result.id !== event.id || !verifyEvent({ ...event, sig: result.sig })) {
+    throw new Error("The Nostr signer returned a signature that doesn't match the requested event");
+  }
+  return `0x${result.sig}`;
+};
+
+/**
+ * Signs a 32-byte hash directly with the signer's `signSchnorr`, without an event around it.
+ * When `owner` is given, the signer's current identity is checked against it first. Like signNostrHash,
+ * the signature is verified before it is used.
+ */
+export const signNostrHashRaw = async (signer: NostrSigner, hash: Hex, owner?: Hex): Promise<Hex> => {
+  if (!signer.signSchnorr) {
+    throw new Error("Signer can't sign raw hashes");
+  }
+  const pubkey = await signer.getPublicKey();
+  if (owner) assertSignedByOwner(pubkey, owner);
+
+  const signature = await signer.signSchnorr(hash);
+  if (!schnorr.verify(signature.substring(2), hash.substring(2), normalizePubkey(pubkey))) {
+    throw new Error("The Nostr signer returned a signature that doesn't match the requested hash");
+  }
+  return signature;
+};
+
+/**
+ * Signs a hash like signNostrHash, but synchronously with a locally held key.
+ */
+export const signNostrHashWithKey = (hash: Hex, secretKey: Uint8Array, tags: string[][] = []): Hex => {
+  const event = finalizeEvent({ created_at: 0, kind: 96024, tags, content: hash.substring(2) }, secretKey);
+  return `0x${event.sig}`;
+};
+
+// The bytes of an EIP-191 personal message, which hashMessage prefixes and hashes
+const getMessageBytes = (message: SignableMessage): Hex => {
+  if (typeof message === "string") return stringToHex(message);
+  return typeof message.raw === "string" ? message.raw : bytesToHex(message.raw);
+};
+
+/**
+ * EIP-712 `encodeData` of the primary type of `typedData`: its type hash followed by the 32-byte encoding of each
+ * field, so that hashStruct is its keccak256. NpubAccount.isValidSignature reads the type hash from it.
+ */
+export const encodeTypedDataStruct = (typedData: TypedDataDefinition): Hex => {
+  const { primaryType, message } = typedData;
+  const types = typedData.types as TypedData;
+
+  const encodeField = (type: string, value: unknown): Hex => {
+    if (types[type]) {
+      return hashStruct({ data: value as Record<string, unknown>, primaryType: type, types });
+    }
+    if (type.endsWith("]")) {
+      const itemType = type.slice(0, type.lastIndexOf("["));
+      return keccak256(concat((value as unknown[]).map(item => encodeField(itemType, item))));
+    }
+    if (type === "bytes") return keccak256(value as Hex);
+    if (type === "string") return keccak256(stringToHex(value as string));
+    return encodeAbiParameters([{ type }], [value]);
+  };
+
+  // The primary type, then the struct types it references in alphabetical order
+  const findStructTypes = (type: string, found: Set<string>): Set<string> => {
+    const structType = type.replace(/\[.*$/, "");
+    if (!types[structType] || found.has(structType)) return found;
+    found.add(structType);
+    types[structType].forEach(field => findStructTypes(field.type, found));
+    return found;
+  };
+  const [, ...referencedTypes] = findStructTypes(primaryType as string, new Set());
+  const encodedType = [primaryType as string, ...referencedTypes.sort()]
+    .map(type => `${type}(${types[type].map(field => `${field.type} ${field.name}`).join(",")})`)
+    .join("");
+
+  const fields = types[primaryType as string].map(field =>
+    encodeField(field.type, (message as Record<string, unknown>)[field.name]),
+  );
+  return concat([keccak256(stringToHex(encodedType)), ...fields]);
+};
+
+/**
+ * Mirrors NpubAccount.replaySafeHash: binds a message hash to `account` and the chain.
+ * The owner signs the result with signNostrHash for the account's ERC-1271 isValidSignature.
+ */
+export const getAccountReplaySafeHash = (params: { hash: Hex; chainId: number; account: Address }): Hex => {
+  const { hash, chainId, account } = params;
+  return hashTypedData({
+    domain: { name: "NpubAccount", version: "1", chainId, verifyingContract: account },
+    types: { NpubMessage: [{ name: "hash", type: "bytes32" }] },
+    primaryType: "NpubMessage",
+    message: { hash },
+  });
+};
+
+/**
+ * Checks a signature made like signNostrHash: `pubkey` signed the kind-96024 event carrying `hash`.
+ */
+export const verifyNostrHashSignature = (pubkey: string, hash: Hex, signature: Hex, tags: string[][] = []): boolean => {
+  const template = { created_at: 0, kind: 96024, tags, content: hash.substring(2) };
+  const event = { ...template, pubkey: normalizePubkey(pubkey) };
+  return verifyEvent({ ...event, id: getEventHash(event), sig: signature.substring(2) });
+};
+
+/** Owner-signed conditions for a session key, mirrors NpubAccount.SessionDelegation */
+export type SessionDelegation = {
+  // x-only public key of the session key
+  sessionKey: Hex;
+  // Empty for any target, the account itself is always excluded
+  targets: Address[];
+  // Empty for any function, 0x00000000 allows plain transfers
+  selectors: Hex[];
+  // Total wei the session key may send
+  valueLimit: bigint;
+  validAfter: number;
+  // 0 for no expiry
+  validUntil: number;
+};
+
+/** A session key approved by the account owner */
+export type NostrSessionKey = {
+  delegation: SessionDelegation;
+  // Owner's signature over getSessionDelegationHash(delegation)
+  delegationSignature: Hex;
+  secretKey: Uint8Array;
+};
+
+/**
+ * Mirrors NpubAccount.sessionDelegationHash, the hash the owner signs to approve a session key.
+ */
+export const getSessionDelegationHash = (params: {
+  delegation: SessionDelegation;
+  chainId: number;
+  verifyingContract: Address;
+}): Hex => {
+  const { delegation, chainId, verifyingContract } = params;
+  return hashTypedData({
+    domain: { name: "NpubAccount", version: "1", chainId, verifyingContract },
+    types: {
+      SessionDelegation: [
+        { name: "sessionKey", type: "uint256" },
+        { name: "targets", type: "address[]" },
+        { name: "selectors", type: "bytes4[]" },
+        { name: "valueLimit", type: "uint256" },
+        { name: "validAfter", type: "uint48" },
+        { name: "validUntil", type: "uint48" },
+      ],
+    },
+    primaryType: "SessionDelegation",
+    message: { ...delegation, sessionKey: BigInt(delegation.sessionKey) },
+  });
+};
+
+/**
+ * Encodes a session key UserOperation signature: abi.encode(delegation, ownerSignature, sessionSignature).
+ */
+export const encodeSessionSignature = (session: NostrSessionKey, sessionSignature: Hex): Hex => {
+  const { delegation, delegationSignature } = session;
+  return encodeAbiParameters(
+    [
+      {
+        type: "tuple",
+        components: [
+          { name: "sessionKey", type: "uint256" },
+          { name: "targets", type: "address[]" },
+          { name: "selectors", type: "bytes4[]" },
+          { name: "valueLimit", type: "uint256" },
+          { name: "validAfter", type: "uint48" },
+          { name: "validUntil", type: "uint48" },
+        ],
+      },
+      { type: "bytes" },
+      { type: "bytes" },
+    ],
+    [{ ...delegation, sessionKey: BigInt(delegation.sessionKey) }, delegationSignature, sessionSignature],
+  );
+};
+
 const executeSingleAbi = [
   {
     inputs: [
@@ -445,54 +816,7 @@ const executeSingleAbi = [
   },
 ] as const;
 
-const executeBatch06Abi = [
-  {
-    inputs: [
-      {
-        internalType: "address[]",
-        name: "dest",
-        type: "address[]",
-      },
-      {
-        internalType: "bytes[]",
-        name: "func",
-        type: "bytes[]",
-      },
-    ],
-    name: "executeBatch",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-const executeBatch07Abi = [
-  {
-    inputs: [
-      {
-        internalType: "address[]",
-        name: "dest",
-        type: "address[]",
-      },
-      {
-        internalType: "uint256[]",
-        name: "value",
-        type: "uint256[]",
-      },
-      {
-        internalType: "bytes[]",
-        name: "func",
-        type: "bytes[]",
-      },
-    ],
-    name: "executeBatch",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-const executeBatch08Abi = [
+const executeBatchAbi = [
   {
     type: "function",
     name: "executeBatch",
@@ -0,0 +1,141 @@
+"use client";
+
+import { type Address, getAddress } from "viem";
+import { getAppChainConfig } from "~~/config/appChains";
+import { connectService } from "~~/services/connectToNetworkService";
+import { toNostrSmartAccount } from "~~/services/nostrSmartAccount";
+import { ownerRotationService } from "~~/services/ownerRotationService";
+import { getPublicClient, useGlobalState } from "~~/services/store/store";
+
+/** One of the accounts an npub owns, `index` is the salt NpubAccountFactory derives it with */
+export type NpubAccountEntry = {
+  index: number;
+  label: string;
+};
+
+// owner pubkey (hex, no 0x) -> account index -> label
+type NpubAccounts = Record<string, Record<number, string>>;
+
+const STORAGE_KEY = "ethstr.npubAccounts";
+
+// Dispatched on window whenever accounts are added or renamed
+export const NPUB_ACCOUNTS_CHANGED_EVENT = "ethstr:npubAccounts";
+
+const normalizePubkey = (pubkey: string) => pubkey.replace(/^0x/, "").toLowerCase();
+
+const defaultLabel = (index: number) => (index === 0 ? "Main" : `Account ${index}`);
+
+const loadNpubAccounts = (): NpubAccounts => {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+const saveNpubAccounts = (accounts: NpubAccounts) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+  window.dispatchEvent(new CustomEvent(NPUB_ACCOUNTS_CHANGED_EVENT));
+};
+
+/**
+ * Every npub owns one account per factory salt, all derived from the same key. Which indexes are in use and
+ * their labels only live in this browser, the addresses themselves can always be derived again.
+ */
+export const npubAccountsService = {
+  /**
+   * Accounts of `pubkey` by index, the first account is always listed.
+   */
+  list(pubkey: string): NpubAccountEntry[] {
+    const labels = loadNpubAccounts()[normalizePubkey(pubkey)] ?? {};
+    const indexes = new Set([0, ...Object.keys(labels).map(Number)]);
+    return [...indexes].sort((a, b) => a - b).map(index => ({ index, label: labels[index] ?? defaultLabel(index) }));
+  },
+
+  /**
+   * Adds the next unused index for `pubkey`. The account is counterfactual until its first UserOperation deploys it.
+   */
+  create(pubkey: string, label: string): number {
+    const index = Math.max(...this.list(pubkey).map(account => account.index)) + 1;
+    this.rename(pubkey, index, label);
+    return index;
+  },
+
+  rename(pubkey: string, index: number, label: string): void {
+    const accounts = loadNpubAccounts();
+    const owner = normalizePubkey(pubkey);
+    saveNpubAccounts({ ...accounts, [owner]: { ...accounts[owner], [index]: label.trim() || defaultLabel(index) } });
+  },
+
+  /**
+   * Lists an account `pubkey` took over by rotation or recovery on the selected network as one of its own,
+   * at the next unused index unless it already has one. Returns the index.
+   */
+  addTakenOverAccount(pubkey: string, accountAddress: Address): number {
+    const chainId = getPublicClient().chain.id;
+    const existingIndex = ownerRotationService.getRotatedAccountIndex(chainId, pubkey, accountAddress);
+    if (existingIndex !== null) return existingIndex;
+
+    const index = this.create(pubkey, `Taken over ${accountAddress.slice(0, 6)}…${accountAddress.slice(-4)}`);
+    ownerRotationService.rememberAccount(chainId, pubkey, index, accountAddress);
+    return index;
+  },
+
+  /**
+   * Lists the accounts `pubkey` took over on the selected network that this browser doesn't know yet, e.g. after a
+   * rotation or recovery done on another device.
+   */
+  async syncTakenOverAccounts(pubkey: string): Promise<void> {
+    const chainId = getPublicClient().chain.id;
+    const accountAddresses = await ownerRotationService.findTakenOverAccounts(pubkey);
+    // Found on the network selected when the lookup started
+    if (getPublicClient().chain.id !== chainId) return;
+    accountAddresses.forEach(accountAddress => this.addTakenOverAccount(pubkey, accountAddress));
+  },
+
+  /**
+   * Address of `pubkey`'s account at `index` on the selected network.
+   */
+  async getAddress(pubkey: string, index: number): Promise<Address> {
+    const publicClient = getPublicClient();
+    const chainId = publicClient.chain.id;
+
+    // An account taken over by rotation or recovery keeps its address under the index it was given
+    const rotatedAccountAddress = await ownerRotationService.getRotatedAccountAddress(chainId, pubkey, index);
+    if (rotatedAccountAddress) return rotatedAccountAddress;
+
+    const appChainConfig = getAppChainConfig(chainId);
+    const account = await toNostrSmartAccount({
+      client: publicClient,
+      owner: `0x${normalizePubkey(pubkey)}`,
+      index: BigInt(index),
+      factoryAddress: appChainConfig.factoryAddress,
+      entryPoint: {
+        address: appChainConfig.entryPointAddress,
+        version: appChainConfig.entryPointVersion,
+      },
+    });
+    return getAddress(await account.getAddress());
+  },
+
+  /**
+   * Makes the connected npub's account at `index` the one the wallet uses, and rebuilds the clients for it.
+   */
+  async switchTo(index: number): Promise<void> {
+    const walletSession = useGlobalState.getState().walletSession;
+    if (!walletSession) {
+      throw new Error("Wallet is not connected");
+    }
+    if (walletSession.accountIndex === index) return;
+
+    useGlobalState.getState().setWalletSession({ ...walletSession, accountIndex: index });
+    try {
+      await connectService.reinitializeForNewNetwork();
+    } catch (err) {
+      // The clients still belong to the previous account, keep the session pointing at it
+      useGlobalState.getState().setWalletSession(walletSession);
+      throw err;
+    }
+  },
+};
@@ -0,0 +1,92 @@
+"use client";
+
+import type { Address, Hex } from "viem";
+import type { UserOperation } from "viem/account-abstraction";
+import { type PendingUserOp, useGlobalState } from "~~/services/store/store";
+import { parseWithBigInt, stringifyWithBigInt } from "~~/utils/stringifyWithBigInt";
+
+/** A signed UserOperation kept in localStorage until it settles, so a reload doesn't lose it */
+export type OutboxEntry = PendingUserOp & {
+  chainId: number;
+  sender: Address;
+  userOperation: UserOperation;
+  // Id of the last Nostr event the operation was published with
+  nostrEventId?: string;
+};
+
+// userOpHash -> entry
+type Outbox = Record<Hex, OutboxEntry>;
+
+const STORAGE_KEY = "ethstr.outbox";
+
+const loadOutbox = (): Outbox => {
+  if (typeof window === "undefined") return {};
+  try {
+    return parseWithBigInt(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+const saveOutbox = (outbox: Outbox) => {
+  window.localStorage.setItem(STORAGE_KEY, stringifyWithBigInt(outbox));
+};
+
+export const outboxService = {
+  add(entry: OutboxEntry): void {
+    saveOutbox({ ...loadOutbox(), [entry.userOpHash]: entry });
+  },
+
+  update(userOpHash: Hex, update: Partial<OutboxEntry>): void {
+    const outbox = loadOutbox();
+    if (!outbox[userOpHash]) return;
+    saveOutbox({ ...outbox, [userOpHash]: { ...outbox[userOpHash], ...update } });
+  },
+
+  remove(userOpHash: Hex): void {
+    const { [userOpHash]: removed, ...outbox } = loadOutbox();
+    if (removed) saveOutbox(outbox);
+  },
+
+  /**
+   * Entries of `sender` on `chainId`, oldest first.
+   */
+  list(chainId: number, sender: Address): OutboxEntry[] {
+    return Object.values(loadOutbox())
+      .filter(entry => entry.chainId === chainId && entry.sender.toLowerCase() === sender.toLowerCase())
+      .sort((a, b) => a.submittedAt - b.submittedAt);
+  },
+
+  /**
+   * Mirrors status changes and removals of the pending list into the outbox. Operations of other
+   * accounts and chains stay stored, they are only picked up again once that account is connected.
+   */
+  sync(pendingUserOps: PendingUserOp[], previous: PendingUserOp[]): void {
+    const outbox = loadOutbox();
+    let changed = false;
+
+    for (const op of previous) {
+      if (outbox[op.userOpHash] && !pendingUserOps.some(current => current.userOpHash === op.userOpHash)) {
+        delete outbox[op.userOpHash];
+        changed = true;
+      }
+    }
+    for (const op of pendingUserOps) {
+      const entry = outbox[op.userOpHash];
+      if (entry && (entry.status !== op.status || entry.transactionHash !== op.transactionHash)) {
+        outbox[op.userOpHash] = { ...entry, status: op.status, transactionHash: op.transactionHash };
+        changed = true;
+      }
+    }
+
+    if (changed) saveOutbox(outbox);
+  },
+};
+
+if (typeof window !== "undefined") {
+  useGlobalState.subscribe((state, previous) => {
+    if (state.pendingUserOps !== previous.pendingUserOps) {
+      outboxService.sync(state.pendingUserOps, previous.pendingUserOps);
+    }
+  });
+}
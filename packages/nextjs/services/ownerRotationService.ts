@@ -0,0 +1,192 @@
+"use client";
+
+import { type Address, type Hex, encodeFunctionData, getAddress, isAddressEqual } from "viem";
+import { getAppChainConfig } from "~~/config/appChains";
+import { transactionService } from "~~/services/sendTransactionService";
+import { useGlobalState } from "~~/services/store/store";
+
+// chainId -> owner pubkey (hex, no 0x) -> account index -> account address
+type RotatedAccounts = Record<number, Record<string, Record<number, Address>>>;
+
+const STORAGE_KEY = "ethstr.rotatedAccounts";
+
+export const npubAccountOwnerAbi = [
+  {
+    type: "function",
+    name: "owner",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "rotateOwner",
+    inputs: [{ name: "newOwner", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "event",
+    name: "OwnerChanged",
+    inputs: [
+      { name: "previousOwner", type: "uint256", indexed: true },
+      { name: "newOwner", type: "uint256", indexed: true },
+    ],
+  },
+] as const;
+
+const accountCreatedAbi = [
+  {
+    type: "event",
+    name: "AccountCreated",
+    inputs: [
+      { name: "account", type: "address", indexed: true },
+      { name: "owner", type: "uint256", indexed: true },
+      { name: "salt", type: "uint256", indexed: true },
+      { name: "isNew", type: "bool", indexed: false },
+    ],
+  },
+] as const;
+
+const normalizePubkey = (pubkey: string) => pubkey.replace(/^0x/, "").toLowerCase();
+
+const loadRotatedAccounts = (): RotatedAccounts => {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+const saveRotatedAccounts = (accounts: RotatedAccounts) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+};
+
+/**
+ * An NpubAccount address is derived from the key it was created with, so once the owner changes the new
+ * key no longer maps to it. Accounts taken over by rotation or recovery are found again through their
+ * OwnerChanged logs and remembered per chain here, each under an account index of the new key that its own
+ * derived accounts don't use.
+ */
+export const ownerRotationService = {
+  async getOwner(accountAddress: Address): Promise<Hex | null> {
+    const publicClient = useGlobalState.getState().publicClient;
+    if (!publicClient) return null;
+
+    const code = await publicClient.getCode({ address: accountAddress });
+    if (!code || code === "0x") return null;
+
+    const owner: bigint = await publicClient.readContract({
+      address: accountAddress,
+      abi: npubAccountOwnerAbi,
+      functionName: "owner",
+    });
+    return `0x${owner.toString(16).padStart(64, "0")}`;
+  },
+
+  /**
+   * Accounts `pubkey` took over on the selected network, found through the OwnerChanged logs naming it as the
+   * new owner. Works on any device, unlike the accounts remembered in this browser. Only accounts the app's
+   * factory created for another key and that `pubkey` still owns are returned.
+   */
+  async findTakenOverAccounts(pubkey: string): Promise<Address[]> {
+    const publicClient = useGlobalState.getState().publicClient;
+    if (!publicClient) return [];
+    const { factoryAddress } = getAppChainConfig(publicClient.chain.id);
+    if (!factoryAddress) return [];
+
+    const owner = BigInt(`0x${normalizePubkey(pubkey)}`);
+    const ownerChanges = await publicClient.getContractEvents({
+      abi: npubAccountOwnerAbi,
+      eventName: "OwnerChanged",
+      args: { newOwner: owner },
+      fromBlock: 0n,
+    });
+    const candidates = [...new Set(ownerChanges.map(log => getAddress(log.address)))];
+
+    const accounts = await Promise.all(
+      candidates.map(async accountAddress => {
+        // Any contract can emit OwnerChanged, only accounts the factory deployed are NpubAccounts
+        const creations = await publicClient.getContractEvents({
+          address: factoryAddress,
+          abi: accountCreatedAbi,
+          eventName: "AccountCreated",
+          args: { account: accountAddress },
+          fromBlock: 0n,
+        });
+        const creation = creations.find(log => log.args.isNew);
+        // Accounts created for `pubkey` itself are derived from it already
+        if (!creation || creation.args.owner === owner) return null;
+
+        const currentOwner = await this.getOwner(accountAddress);
+        return currentOwner && BigInt(currentOwner) === owner ? accountAddress : null;
+      }),
+    );
+    return accounts.filter((account): account is Address => account !== null);
+  },
+
+  /**
+   * Returns the account `pubkey` took over on `chainId` at `index`, provided it still owns it on-chain.
+   */
+  async getRotatedAccountAddress(chainId: number, pubkey: string, index: number): Promise<Address | null> {
+    const accountAddress = loadRotatedAccounts()[chainId]?.[normalizePubkey(pubkey)]?.[index];
+    if (!accountAddress) return null;
+
+    const owner = await this.getOwner(accountAddress).catch(() => null);
+    return owner && normalizePubkey(owner) === normalizePubkey(pubkey) ? accountAddress : null;
+  },
+
+  /**
+   * Index `accountAddress` is remembered under for `pubkey` on `chainId`, if any.
+   */
+  getRotatedAccountIndex(chainId: number, pubkey: string, accountAddress: Address): number | null {
+    const indexes = loadRotatedAccounts()[chainId]?.[normalizePubkey(pubkey)] ?? {};
+    const entry = Object.entries(indexes).find(([, address]) => isAddressEqual(address, accountAddress));
+    return entry ? Number(entry[0]) : null;
+  },
+
+  rememberAccount(chainId: number, pubkey: string, index: number, accountAddress: Address) {
+    const accounts = loadRotatedAccounts();
+    const chainAccounts = Object.fromEntries(
+      // An account has a single owner, drop the entry of the key that owned it before
+      Object.entries(accounts[chainId] ?? {}).map(([owner, indexes]) => [
+        owner,
+        Object.fromEntries(Object.entries(indexes).filter(([, address]) => !isAddressEqual(address, accountAddress))),
+      ]),
+    );
+    const owner = normalizePubkey(pubkey);
+    saveRotatedAccounts({
+      ...accounts,
+      [chainId]: { ...chainAccounts, [owner]: { ...chainAccounts[owner], [index]: accountAddress } },
+    });
+  },
+
+  /**
+   * Hands the connected account over to `newOwner`. The UserOperation is signed by the current key,
+   * afterwards only `newOwner` can sign for the account and the session has to be reconnected with it.
+   * The caller remembers the account under one of `newOwner`'s indexes.
+   */
+  async rotateOwner(newOwner: Hex): Promise<string | null> {
+    const { walletAddress } = useGlobalState.getState();
+    if (!walletAddress) {
+      throw new Error("Wallet is not initialized for Account Abstraction on this network");
+    }
+    const accountAddress = walletAddress as Address;
+
+    const txHash = await transactionService.sendCalls([
+      {
+        to: accountAddress,
+        data: encodeFunctionData({ abi: npubAccountOwnerAbi, functionName: "rotateOwner", args: [BigInt(newOwner)] }),
+      },
+    ]);
+
+    // The UserOperation is included even if the inner call reverted
+    const owner = await this.getOwner(accountAddress);
+    if (!owner || normalizePubkey(owner) !== normalizePubkey(newOwner)) {
+      throw new Error("Owner rotation was not applied");
+    }
+
+    return txHash;
+  },
+};
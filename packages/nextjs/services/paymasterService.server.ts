@@ -0,0 +1,108 @@
+// Server-side issuer of sponsorship vouchers for API routes
+// This file should NOT import from client-side hooks or stores
+import { getPublicKey, nip19 } from "nostr-tools";
+import { type Address, getAddress, hexToBytes, isHex, parseEther } from "viem";
+import { getAppChainConfig } from "~~/config/appChains";
+import { decodeNpub, getEthAddressFromNpub } from "~~/services/nostrCore";
+import { NostrServiceError } from "~~/services/nostrService.types";
+import { signNostrHashWithKey, verifyNostrHashSignature } from "~~/services/nostrSmartAccount";
+import {
+  SPONSORED_ACCOUNTS_PER_NPUB,
+  type SignedVoucher,
+  type SponsorshipVoucher,
+  type VoucherRequest,
+  getVoucherHash,
+  getVoucherRequestHash,
+} from "~~/services/paymasterVoucher";
+
+// Each npub gets one voucher per UTC day
+const VOUCHER_PERIOD_SECONDS = 24 * 60 * 60;
+
+// Tolerates clocks running slightly ahead of the chain
+const VALID_AFTER_SKEW_SECONDS = 60;
+
+// How old, or how far ahead, a signed voucher request may be
+const REQUEST_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Reads the sponsor key from SPONSOR_NOSTR_SECRET_KEY, given as nsec or hex.
+ */
+const getSponsorSecretKey = (): Uint8Array | null => {
+  const value = process.env.SPONSOR_NOSTR_SECRET_KEY?.trim();
+  if (!value) return null;
+  if (value.startsWith("nsec")) {
+    return nip19.decode(value as `nsec1${string}`).data;
+  }
+  return hexToBytes(`0x${value.replace(/^0x/, "")}`);
+};
+
+export const paymasterServiceServer = {
+  /**
+   * Returns the voucher of the npub in `request` on the chain's NpubVerifyingPaymaster, signed by the sponsor npub.
+   * The request must be signed by the npub. The voucher covers the npub's first accounts and is the same
+   * for the whole day, whichever server instance issues it, so its budget is only spent once: the
+   * paymaster tracks spending per voucher on-chain.
+   */
+  async issueVoucher(chainId: number, request: VoucherRequest): Promise<SignedVoucher> {
+    if (!chainId || chainId <= 0) {
+      throw new NostrServiceError("Valid chainId is required", "INVALID_CHAIN_ID");
+    }
+
+    const pubkey = request.npub ? decodeNpub(request.npub) : null;
+    if (!pubkey) {
+      throw new NostrServiceError("Invalid npub format", "INVALID_NPUB");
+    }
+
+    const { index, issuedAt, signature } = request;
+    if (!Number.isSafeInteger(index) || index < 0 || index >= SPONSORED_ACCOUNTS_PER_NPUB) {
+      throw new NostrServiceError(
+        `Only the first ${SPONSORED_ACCOUNTS_PER_NPUB} accounts of an npub are sponsored`,
+        "INVALID_INDEX",
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (!Number.isSafeInteger(issuedAt) || Math.abs(now - issuedAt) > REQUEST_MAX_AGE_SECONDS) {
+      throw new NostrServiceError("Voucher request expired, sign a new one", "REQUEST_EXPIRED");
+    }
+
+    if (!isHex(signature)) {
+      throw new NostrServiceError("signature must be a hex string", "INVALID_SIGNATURE");
+    }
+
+    const paymaster = getAppChainConfig(chainId).paymasterAddress;
+    const secretKey = getSponsorSecretKey();
+    if (!paymaster || !secretKey) {
+      throw new NostrServiceError("Sponsorship is not available on this network", "SPONSORSHIP_UNAVAILABLE");
+    }
+
+    // Derived from the factory, so a voucher only ever covers accounts the npub owns
+    const senders = await Promise.all(
+      Array.from({ length: SPONSORED_ACCOUNTS_PER_NPUB }, async (_, accountIndex) => {
+        const address = await getEthAddressFromNpub(request.npub, chainId, accountIndex);
+        if (!address) {
+          throw new NostrServiceError("Failed to derive the npub's accounts", "ADDRESS_RESOLUTION_FAILED");
+        }
+        return getAddress(address) as Address;
+      }),
+    );
+
+    const requestHash = getVoucherRequestHash({ chainId, paymaster, sender: senders[index], issuedAt });
+    if (!verifyNostrHashSignature(pubkey, requestHash, signature)) {
+      throw new NostrServiceError("Voucher request is not signed by the npub", "INVALID_SIGNATURE");
+    }
+
+    const periodStart = now - (now % VOUCHER_PERIOD_SECONDS);
+    const voucher: SponsorshipVoucher = {
+      sponsor: `0x${getPublicKey(secretKey)}`,
+      budget: parseEther(process.env.SPONSOR_VOUCHER_BUDGET_ETH || "0.002"),
+      senders,
+      validAfter: periodStart - VALID_AFTER_SKEW_SECONDS,
+      validUntil: periodStart + VOUCHER_PERIOD_SECONDS,
+      salt: BigInt(`0x${pubkey}`),
+    };
+
+    const hash = getVoucherHash({ voucher, chainId, paymaster });
+    return { voucher, signature: signNostrHashWithKey(hash, secretKey) };
+  },
+};
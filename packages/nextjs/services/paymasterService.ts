@@ -0,0 +1,121 @@
+"use client";
+
+import { type Address, isAddressEqual } from "viem";
+import { getAppChainConfig } from "~~/config/appChains";
+import { encodeNpub } from "~~/services/nostrCore";
+import { nostrService } from "~~/services/nostrService";
+import { signNostrHash } from "~~/services/nostrSmartAccount";
+import {
+  PAYMASTER_POST_OP_GAS_LIMIT,
+  SPONSORED_ACCOUNTS_PER_NPUB,
+  type SignedVoucher,
+  type VoucherRequest,
+  deserializeVoucher,
+  encodePaymasterData,
+  getVoucherRequestHash,
+  npubVerifyingPaymasterAbi,
+} from "~~/services/paymasterVoucher";
+import { getPublicClient, useGlobalState } from "~~/services/store/store";
+
+// Vouchers fetched this session per chain and sender, reused until expired or spent
+const vouchers = new Map<string, SignedVoucher>();
+
+// Whether the voucher is still valid and has at least `maxCost` of its budget left
+const isUsable = async (signed: SignedVoucher, paymaster: Address, maxCost = 1n): Promise<boolean> => {
+  const { voucher } = signed;
+  if (voucher.validUntil !== 0 && voucher.validUntil <= Math.floor(Date.now() / 1000)) return false;
+
+  const remaining = await getPublicClient().readContract({
+    address: paymaster,
+    abi: npubVerifyingPaymasterAbi,
+    functionName: "remainingBudget",
+    args: [{ ...voucher, sponsor: BigInt(voucher.sponsor) }],
+  });
+  return remaining >= maxCost;
+};
+
+// Signs a voucher request for the session's account, proving the npub owns `sender`
+const signVoucherRequest = async (chainId: number, paymaster: Address, sender: Address) => {
+  const session = useGlobalState.getState().walletSession;
+  const npub = session && encodeNpub(session.pubkey);
+  if (!session || !npub || session.accountIndex >= SPONSORED_ACCOUNTS_PER_NPUB) return null;
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const hash = getVoucherRequestHash({ chainId, paymaster, sender, issuedAt });
+  const signature = await signNostrHash(nostrService.getSigner(), hash, [], `0x${session.pubkey}`);
+  const request: VoucherRequest = { npub, index: session.accountIndex, issuedAt, signature };
+  return request;
+};
+
+export const paymasterService = {
+  /**
+   * Returns a usable sponsorship voucher for `sender`, or null when the network has no sponsor
+   * or `sender` is not one of the session's sponsored accounts.
+   */
+  async getVoucher(chainId: number, sender: Address): Promise<SignedVoucher | null> {
+    const { paymasterAddress } = getAppChainConfig(chainId);
+    if (!paymasterAddress) return null;
+
+    const key = `${chainId}:${sender.toLowerCase()}`;
+    const cached = vouchers.get(key);
+    if (cached && (await isUsable(cached, paymasterAddress))) return cached;
+    vouchers.delete(key);
+
+    try {
+      const request = await signVoucherRequest(chainId, paymasterAddress, sender);
+      if (!request) return null;
+
+      const response = await fetch(`/api/v1/paymaster/voucher?chainId=${chainId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        console.warn("No sponsorship voucher:", (await response.json()).error);
+        return null;
+      }
+
+      const signed = deserializeVoucher(await response.json());
+      if (!signed.voucher.senders.some(voucherSender => isAddressEqual(voucherSender, sender))) return null;
+      // The sponsor hands out one voucher per npub per day, an exhausted one is not worth attaching
+      if (!(await isUsable(signed, paymasterAddress))) return null;
+
+      vouchers.set(key, signed);
+      return signed;
+    } catch (error) {
+      console.warn("Failed to request a sponsorship voucher:", error);
+      return null;
+    }
+  },
+
+  /**
+   * Whether the voucher attached for `sender` still covers an operation costing up to `maxCost`,
+   * otherwise the paymaster would reject the operation.
+   */
+  async coversCost(chainId: number, sender: Address, maxCost: bigint): Promise<boolean> {
+    const { paymasterAddress } = getAppChainConfig(chainId);
+    const cached = vouchers.get(`${chainId}:${sender.toLowerCase()}`);
+    if (!paymasterAddress || !cached) return false;
+    return isUsable(cached, paymasterAddress, maxCost);
+  },
+
+  /**
+   * Paymaster actions for prepareUserOperation that attach a voucher for `sender`,
+   * or undefined so the account pays for its own gas.
+   */
+  async getPaymaster(chainId: number, sender: Address) {
+    const signed = await this.getVoucher(chainId, sender);
+    if (!signed) return undefined;
+
+    // The voucher does not depend on the operation, so the stub data is already final
+    const paymasterData = {
+      paymaster: getAppChainConfig(chainId).paymasterAddress,
+      paymasterData: encodePaymasterData(signed),
+      paymasterPostOpGasLimit: PAYMASTER_POST_OP_GAS_LIMIT,
+    };
+    return {
+      getPaymasterStubData: async () => ({ ...paymasterData, isFinal: true }),
+      getPaymasterData: async () => paymasterData,
+    };
+  },
+};
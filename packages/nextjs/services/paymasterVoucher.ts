@@ -0,0 +1,119 @@
+// Sponsorship voucher encoding shared by the client and the voucher API route
+import { type Address, type Hex, encodeAbiParameters, hashTypedData } from "viem";
+
+// Gas reserved for NpubVerifyingPaymaster.postOp, which settles the voucher budget
+export const PAYMASTER_POST_OP_GAS_LIMIT = 60_000n;
+
+// Vouchers cover an npub's accounts at the first indexes, which share the npub's daily budget
+export const SPONSORED_ACCOUNTS_PER_NPUB = 3;
+
+/** Sponsor-signed gas budget, mirrors NpubVerifyingPaymaster.SponsorshipVoucher */
+export type SponsorshipVoucher = {
+  // x-only public key of the sponsor npub
+  sponsor: Hex;
+  // Total wei of gas the voucher pays for
+  budget: bigint;
+  // Empty for any account
+  senders: Address[];
+  validAfter: number;
+  // 0 for no expiry
+  validUntil: number;
+  salt: bigint;
+};
+
+/** A voucher together with the sponsor's signature over getVoucherHash(voucher) */
+export type SignedVoucher = {
+  voucher: SponsorshipVoucher;
+  signature: Hex;
+};
+
+const voucherComponents = [
+  { name: "sponsor", type: "uint256" },
+  { name: "budget", type: "uint256" },
+  { name: "senders", type: "address[]" },
+  { name: "validAfter", type: "uint48" },
+  { name: "validUntil", type: "uint48" },
+  { name: "salt", type: "uint256" },
+] as const;
+
+export const npubVerifyingPaymasterAbi = [
+  {
+    type: "function",
+    name: "remainingBudget",
+    inputs: [{ name: "voucher", type: "tuple", components: voucherComponents }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+] as const;
+
+/**
+ * Mirrors NpubVerifyingPaymaster.voucherHash, the hash the sponsor signs.
+ */
+export const getVoucherHash = (params: { voucher: SponsorshipVoucher; chainId: number; paymaster: Address }): Hex => {
+  const { voucher, chainId, paymaster } = params;
+  return hashTypedData({
+    domain: { name: "NpubVerifyingPaymaster", version: "1", chainId, verifyingContract: paymaster },
+    types: { SponsorshipVoucher: [...voucherComponents] },
+    primaryType: "SponsorshipVoucher",
+    message: { ...voucher, sponsor: BigInt(voucher.sponsor) },
+  });
+};
+
+/**
+ * Asks the voucher API for a voucher. The npub signs getVoucherRequestHash to prove it owns the sender,
+ * which the server derives from the npub and the account index.
+ */
+export type VoucherRequest = {
+  npub: string;
+  index: number;
+  // Unix seconds, the server only accepts recent requests
+  issuedAt: number;
+  // The npub's signature of getVoucherRequestHash, as a kind-96024 Nostr event
+  signature: Hex;
+};
+
+/**
+ * Hash the npub signs to request a voucher for `sender`, bound to the paymaster and chain.
+ */
+export const getVoucherRequestHash = (params: {
+  chainId: number;
+  paymaster: Address;
+  sender: Address;
+  issuedAt: number;
+}): Hex => {
+  const { chainId, paymaster, sender, issuedAt } = params;
+  return hashTypedData({
+    domain: { name: "NpubVerifyingPaymaster", version: "1", chainId, verifyingContract: paymaster },
+    types: {
+      VoucherRequest: [
+        { name: "sender", type: "address" },
+        { name: "issuedAt", type: "uint48" },
+      ],
+    },
+    primaryType: "VoucherRequest",
+    message: { sender, issuedAt },
+  });
+};
+
+/**
+ * Encodes the paymasterData part of paymasterAndData: abi.encode(voucher, signature).
+ */
+export const encodePaymasterData = ({ voucher, signature }: SignedVoucher): Hex => {
+  return encodeAbiParameters(
+    [{ type: "tuple", components: voucherComponents }, { type: "bytes" }],
+    [{ ...voucher, sponsor: BigInt(voucher.sponsor) }, signature],
+  );
+};
+
+/**
+ * Vouchers cross the API as JSON, where bigints travel as decimal strings.
+ */
+export const serializeVoucher = ({ voucher, signature }: SignedVoucher) => ({
+  voucher: { ...voucher, budget: voucher.budget.toString(), salt: voucher.salt.toString() },
+  signature,
+});
+
+export const deserializeVoucher = (json: ReturnType<typeof serializeVoucher>): SignedVoucher => ({
+  voucher: { ...json.voucher, budget: BigInt(json.voucher.budget), salt: BigInt(json.voucher.salt) },
+  signature: json.signature,
+});
@@ -0,0 +1,251 @@
+"use client";
+
+import { type Address, type Hex, encodeFunctionData } from "viem";
+import { nostrService } from "~~/services/nostrService";
+import { signNostrHash } from "~~/services/nostrSmartAccount";
+import { transactionService } from "~~/services/sendTransactionService";
+import { useGlobalState } from "~~/services/store/store";
+
+export type RecoveryState = {
+  addressGuardians: Address[];
+  npubGuardians: Hex[];
+  threshold: bigint;
+  delay: bigint;
+  nonce: bigint;
+  // The proposal guardians approved last, guardians may back competing ones until one reaches the threshold
+  pending: {
+    newOwner: Hex;
+    approvals: bigint;
+    // 0 until the threshold is reached
+    executableAt: bigint;
+  } | null;
+};
+
+// NpubAccount social recovery functions
+export const npubAccountRecoveryAbi = [
+  {
+    type: "function",
+    name: "getGuardians",
+    inputs: [],
+    outputs: [
+      { name: "addressGuardians", type: "address[]" },
+      { name: "npubGuardians", type: "uint256[]" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "recoveryThreshold",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "recoveryDelay",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "recoveryNonce",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "pendingRecovery",
+    inputs: [],
+    outputs: [
+      { name: "newOwner", type: "uint256" },
+      { name: "approvals", type: "uint256" },
+      { name: "executableAt", type: "uint256" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "recoveryHash",
+    inputs: [{ name: "newOwner", type: "uint256" }],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "setGuardians",
+    inputs: [
+      { name: "addressGuardians", type: "address[]" },
+      { name: "npubGuardians", type: "uint256[]" },
+      { name: "threshold", type: "uint256" },
+      { name: "delay", type: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "approveRecovery",
+    inputs: [{ name: "newOwner", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "approveRecoveryWithSignature",
+    inputs: [
+      { name: "guardian", type: "uint256" },
+      { name: "newOwner", type: "uint256" },
+      { name: "signature", type: "bytes" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "executeRecovery",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelRecovery",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+const toKeyHex = (value: bigint): Hex => `0x${value.toString(16).padStart(64, "0")}`;
+
+const getConnectedAccountAddress = (): Address => {
+  const walletAddress = useGlobalState.getState().walletAddress;
+  if (!walletAddress) {
+    throw new Error("Wallet is not initialized for Account Abstraction on this network");
+  }
+  return walletAddress as Address;
+};
+
+export const recoveryService = {
+  async getRecoveryState(accountAddress: Address): Promise<RecoveryState | null> {
+    const publicClient = useGlobalState.getState().publicClient;
+    if (!publicClient) return null;
+
+    // Nothing to read before the first UserOperation deploys the account
+    const code = await publicClient.getCode({ address: accountAddress });
+    if (!code || code === "0x") return null;
+
+    const read = (functionName: "recoveryThreshold" | "recoveryDelay" | "recoveryNonce") =>
+      publicClient.readContract({ address: accountAddress, abi: npubAccountRecoveryAbi, functionName });
+
+    const [[addressGuardians, npubGuardians], threshold, delay, nonce, [newOwner, approvals, executableAt]] =
+      await Promise.all([
+        publicClient.readContract({
+          address: accountAddress,
+          abi: npubAccountRecoveryAbi,
+          functionName: "getGuardians",
+        }),
+        read("recoveryThreshold"),
+        read("recoveryDelay"),
+        read("recoveryNonce"),
+        publicClient.readContract({
+          address: accountAddress,
+          abi: npubAccountRecoveryAbi,
+          functionName: "pendingRecovery",
+        }),
+      ]);
+
+    return {
+      addressGuardians: [...addressGuardians],
+      npubGuardians: npubGuardians.map(toKeyHex),
+      threshold,
+      delay,
+      nonce,
+      pending: newOwner === 0n ? null : { newOwner: toKeyHex(newOwner), approvals, executableAt },
+    };
+  },
+
+  /**
+   * Replaces the guardians of the connected account. Cancels any recovery in progress.
+   */
+  async setGuardians(config: {
+    addressGuardians: Address[];
+    npubGuardians: Hex[];
+    threshold: number;
+    delaySeconds: number;
+  }): Promise<string | null> {
+    const accountAddress = getConnectedAccountAddress();
+    return transactionService.sendCalls([
+      {
+        to: accountAddress,
+        data: encodeFunctionData({
+          abi: npubAccountRecoveryAbi,
+          functionName: "setGuardians",
+          args: [
+            config.addressGuardians,
+            config.npubGuardians.map(guardian => BigInt(guardian)),
+            BigInt(config.threshold),
+            BigInt(config.delaySeconds),
+          ],
+        }),
+      },
+    ]);
+  },
+
+  /**
+   * Cancels the recovery in progress on the connected account.
+   */
+  async cancelRecovery(): Promise<string | null> {
+    const accountAddress = getConnectedAccountAddress();
+    return transactionService.sendCalls([
+      {
+        to: accountAddress,
+        data: encodeFunctionData({ abi: npubAccountRecoveryAbi, functionName: "cancelRecovery" }),
+      },
+    ]);
+  },
+
+  /**
+   * Approves rotating `accountAddress` to `newOwner` as an npub guardian. The connected Nostr key signs
+   * the recovery hash and the guardian's own smart account submits the approval on-chain.
+   */
+  async approveAsNpubGuardian(accountAddress: Address, guardianPubkey: Hex, newOwner: Hex): Promise<string | null> {
+    const publicClient = useGlobalState.getState().publicClient;
+    if (!publicClient) {
+      throw new Error("Wallet is not initialized for Account Abstraction on this network");
+    }
+
+    const hash = await publicClient.readContract({
+      address: accountAddress,
+      abi: npubAccountRecoveryAbi,
+      functionName: "recoveryHash",
+      args: [BigInt(newOwner)],
+    });
+    const signature = await signNostrHash(nostrService.getSigner(), hash, [], guardianPubkey);
+
+    return transactionService.sendCalls([
+      {
+        to: accountAddress,
+        data: encodeFunctionData({
+          abi: npubAccountRecoveryAbi,
+          functionName: "approveRecoveryWithSignature",
+          args: [BigInt(guardianPubkey), BigInt(newOwner), signature],
+        }),
+      },
+    ]);
+  },
+
+  /**
+   * Executes a recovery whose timelock expired. Anyone can submit it, here from the connected account.
+   */
+  async executeRecovery(accountAddress: Address): Promise<string | null> {
+    return transactionService.sendCalls([
+      {
+        to: accountAddress,
+        data: encodeFunctionData({ abi: npubAccountRecoveryAbi, functionName: "executeRecovery" }),
+      },
+    ]);
+  },
+};
@@ -1,20 +1,103 @@
 "use client";
 
-import { parseEther } from "viem";
-import { entryPoint08Abi, entryPoint08Address } from "viem/account-abstraction";
+import { type Address, type Hex, parseEther } from "viem";
+import { type SmartAccount, type UserOperation, getUserOperationHash } from "viem/account-abstraction";
+import { type UserOperationFees, feeStrategyService } from "~~/services/feeStrategyService";
 import { nostrBundlerService } from "~~/services/nostrBundlerService";
-import { useGlobalState } from "~~/services/store/store";
+import { assertNonceKey, decodeNonce } from "~~/services/nostrSmartAccount";
+import { type OutboxEntry, outboxService } from "~~/services/outboxService";
+import { paymasterService } from "~~/services/paymasterService";
+import { type PendingUserOp, getPublicClient, useGlobalState } from "~~/services/store/store";
+import { type GasToken, tokenPaymasterService } from "~~/services/tokenPaymasterService";
+import { userOpTrackerService } from "~~/services/userOpTrackerService";
+
+export type TransactionCall = {
+  to: Address;
+  value?: bigint;
+  data?: Hex;
+};
+
+/** A UserOperation built and gas-estimated by prepareCalls, not signed yet */
+export type PreparedUserOperation = {
+  userOperation: UserOperation;
+  calls: TransactionCall[];
+  nonceKey: bigint;
+  account: SmartAccount;
+  // Gas is paid by the sponsor's paymaster instead of the account
+  sponsored: boolean;
+  // Token the account pays gas in through the token paymaster, null when it pays in ETH
+  gasToken: GasToken | null;
+};
+
+/** Nonce and fees of a UserOperation rebuilt to replace a pending one */
+type UserOperationReplacement = {
+  nonce: bigint;
+  fees: UserOperationFees;
+};
+
+// Bundlers only accept a replacement paying at least 10% more, both fees are raised by 20% to be safe
+const REPLACEMENT_FEE_BUMP_BPS = 12_000n;
+
+// Operations published in this session by hash, kept so they can be re-signed as replacements
+const submittedUserOps = new Map<Hex, PreparedUserOperation>();
+
+// Result of the replacement of an operation, which the original's sender waits for instead
+const replacementResults = new Map<Hex, Promise<Hex | null>>();
+
+const maxBigInt = (a: bigint, b: bigint) => (a > b ? a : b);
+
+// Gas limits of the operation times its max fee, the most it can be charged
+const getUserOperationMaxCost = (op: UserOperation) =>
+  (op.callGasLimit +
+    op.verificationGasLimit +
+    op.preVerificationGas +
+    (op.paymasterVerificationGasLimit ?? 0n) +
+    (op.paymasterPostOpGasLimit ?? 0n)) *
+  op.maxFeePerGas;
 
 export const transactionService = {
-  async sendTransaction(to: string, amountWei: bigint): Promise<string | null> {
+  /**
+   * Sends ETH from the smart account. Operations on different nonce keys don't wait for each other,
+   * so a stuck operation only blocks its own lane.
+   * `account` defaults to the connected npub account, pass a multisig account to send from it instead.
+   */
+  async sendTransaction(to: string, amountWei: bigint, nonceKey = 0n, account?: SmartAccount): Promise<Hex | null> {
+    return this.sendCalls([{ to: to as Address, value: amountWei, data: "0x" }], nonceKey, account);
+  },
+
+  /**
+   * Sends one UserOperation executing `calls` in order (a batch when there is more than one call)
+   * and resolves with the hash of the transaction that included it.
+   */
+  async sendCalls(calls: TransactionCall[], nonceKey = 0n, account?: SmartAccount): Promise<Hex | null> {
+    return this.submitUserOperation(await this.prepareCalls(calls, nonceKey, account));
+  },
+
+  /**
+   * Builds and gas-estimates the UserOperation for `calls` without signing it, so it can be reviewed first.
+   */
+  async prepareCalls(
+    calls: TransactionCall[],
+    nonceKey = 0n,
+    account?: SmartAccount,
+    replacement?: UserOperationReplacement,
+  ): Promise<PreparedUserOperation> {
+    if (calls.length === 0) {
+      throw new Error("No calls to send");
+    }
+
     const publicClient = useGlobalState.getState().publicClient;
-    const evmAccount = useGlobalState.getState().evmAccount;
+    const evmAccount = account ?? useGlobalState.getState().evmAccount;
 
     if (!publicClient || !evmAccount) {
       throw new Error("Wallet is not initialized for Account Abstraction on this network");
     }
 
-    const fees = await publicClient.estimateFeesPerGas();
+    assertNonceKey(nonceKey);
+
+    const fees =
+      replacement?.fees ??
+      (await feeStrategyService.getFees(publicClient.chain.id, useGlobalState.getState().feeSpeed));
 
     try {
       // Get bundler client from global state
@@ -24,77 +107,316 @@ export const transactionService = {
         throw new Error("Bundler client is not initialized");
       }
 
-      // Get the current nonce for the smart account
-      const nonce = await evmAccount.getNonce();
-      console.log("Current nonce:", nonce);
+      // Get the current nonce of the selected lane, a replacement reuses the nonce of the operation it replaces
+      const nonce: bigint = replacement?.nonce ?? (await evmAccount.getNonce({ key: nonceKey }));
+      console.log(`Current nonce on lane ${nonceKey}:`, nonce);
 
       // Check if the smart account is deployed
       const code = await publicClient.getBytecode({ address: evmAccount.address as `0x${string}` });
       console.log("Smart account code length:", code?.length || 0);
       console.log("Smart account address:", evmAccount.address);
 
-      // Prepare UserOperation for ETH transfer using bundler client
-      const userOp = await bundlerClient.prepareUserOperation({
-        account: evmAccount,
-        calls: [
-          {
-            to: to as `0x${string}`,
-            value: amountWei,
-            data: "0x",
-          },
-        ],
-        maxFeePerGas: fees.maxFeePerGas ? fees.maxFeePerGas * 15n : undefined,
-        maxPriorityFeePerGas: fees.maxPriorityFeePerGas
-          ? fees.maxPriorityFeePerGas > 1_500_000n
-            ? fees.maxPriorityFeePerGas
-            : 1_500_000n
-          : 1_500_000n,
-        // Let the bundler client handle nonce management
-      });
-      console.log("Created UserOperation:", userOp);
-
-      // Sign the UserOperation
-      const signature = await evmAccount.signUserOperation(userOp);
-      userOp.signature = signature;
-      console.log("Signed UserOperation:", userOp);
-
-      // Watch for UserOperationEvent to get the transaction hash
-      const txIdPromise = new Promise<string>((resolve, reject) => {
-        const unsubscribe = publicClient.watchContractEvent({
-          address: entryPoint08Address,
-          abi: entryPoint08Abi,
-          eventName: "UserOperationEvent",
-          args: { sender: evmAccount.address },
-          onLogs: (logs: any) => {
-            console.log("UserOperationEvent received:", logs);
-            resolve(logs[0].transactionHash);
-            unsubscribe();
-          },
-          onError: (err: any) => reject(err),
-        });
-      });
+      // Pay gas in the gas token when the user chose to, otherwise attach a sponsorship voucher
+      // when the network has a sponsor, and let the account pay in ETH without either. An account that
+      // can't sign a permit approves the token paymaster in an operation that falls back to the other two
+      const chainId = publicClient.chain.id;
+      const payGasInToken = useGlobalState.getState().payGasInToken
+        ? await tokenPaymasterService.getGasToken(chainId)
+        : null;
+      const tokenPayment = payGasInToken
+        ? await tokenPaymasterService.preparePayment(chainId, evmAccount.address, calls)
+        : undefined;
+      const gasToken = tokenPayment?.paymaster ? payGasInToken : null;
+      let voucherPaymaster = gasToken ? undefined : await paymasterService.getPaymaster(chainId, evmAccount.address);
 
-      // Send UserOperation via Nostr relays
-      await nostrBundlerService.sendUserOp(userOp);
-      console.log("UserOperation sent via Nostr!");
+      // Prepare UserOperation using bundler client. The generic account's fields don't narrow to a
+      // UserOperation of a known EntryPoint version by themselves
+      const prepare = async () =>
+        (await bundlerClient.prepareUserOperation({
+          account: evmAccount,
+          calls: tokenPayment?.calls ?? calls,
+          paymaster: tokenPayment?.paymaster ?? voucherPaymaster,
+          maxFeePerGas: fees.maxFeePerGas,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+          nonce,
+        })) as UserOperation;
+      let userOperation = await prepare();
 
-      return await txIdPromise;
+      // The paymaster rejects operations that could cost more than the voucher has left
+      if (voucherPaymaster) {
+        const maxCost = getUserOperationMaxCost(userOperation);
+        if (!(await paymasterService.coversCost(chainId, evmAccount.address, maxCost))) {
+          console.log("Sponsorship voucher doesn't cover the operation, paying for gas");
+          voucherPaymaster = undefined;
+          userOperation = await prepare();
+        }
+      }
+      console.log("Created UserOperation:", userOperation);
+
+      return { userOperation, calls, nonceKey, account: evmAccount, sponsored: !!voucherPaymaster, gasToken };
+    } catch (error) {
+      console.error("Transaction failed:", error);
+      throw new Error(`Transaction failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  },
+
+  /**
+   * Signs a prepared UserOperation, publishes it to the bundler relay and resolves with the
+   * hash of the transaction that included it. Throws when the operation reverts or is dropped.
+   */
+  async submitUserOperation(prepared: PreparedUserOperation): Promise<Hex | null> {
+    try {
+      const userOpHash = await this.publishUserOperation(prepared);
+      return await this.waitForUserOperation(userOpHash, prepared);
     } catch (error) {
       console.error("Transaction failed:", error);
       throw new Error(`Transaction failed: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   },
 
+  /**
+   * Signs a prepared UserOperation, publishes it to the bundler relay and resolves with its hash.
+   */
+  async publishUserOperation(prepared: PreparedUserOperation): Promise<Hex> {
+    const { userOperation: userOp, calls, nonceKey, account: evmAccount } = prepared;
+    const publicClient = getPublicClient();
+
+    // Sign the UserOperation
+    const signature = await evmAccount.signUserOperation(userOp);
+    userOp.signature = signature;
+    console.log("Signed UserOperation:", userOp);
+
+    const userOpHash = getUserOperationHash({
+      chainId: publicClient.chain.id,
+      entryPointAddress: evmAccount.entryPoint.address,
+      entryPointVersion: evmAccount.entryPoint.version,
+      userOperation: userOp,
+    });
+
+    const pendingUserOp: PendingUserOp = {
+      userOpHash,
+      nonceKey,
+      nonce: userOp.nonce,
+      to: calls[0].to,
+      value: calls.reduce((total, call) => total + (call.value ?? 0n), 0n),
+      submittedAt: Date.now(),
+      status: "signed",
+    };
+    // Stored before publishing, so a reload in between can't lose a signed operation
+    outboxService.add({
+      ...pendingUserOp,
+      chainId: publicClient.chain.id,
+      sender: evmAccount.address,
+      userOperation: userOp,
+    });
+    useGlobalState.getState().addPendingUserOp(pendingUserOp);
+
+    // Send UserOperation via Nostr relays
+    try {
+      const nostrEventId = await nostrBundlerService.sendUserOp(userOp, {
+        chainId: publicClient.chain.id,
+        entryPointAddress: evmAccount.entryPoint.address,
+      });
+      outboxService.update(userOpHash, { nostrEventId });
+    } catch (error) {
+      useGlobalState.getState().removePendingUserOp(userOpHash);
+      throw error;
+    }
+    console.log("UserOperation sent via Nostr!");
+    submittedUserOps.set(userOpHash, prepared);
+    userOpTrackerService.setStatus(userOpHash, "published");
+    return userOpHash;
+  },
+
+  /**
+   * Resolves with the hash of the transaction that included a published operation, or with the
+   * result of its replacement. Throws when it reverts or is dropped.
+   */
+  async waitForUserOperation(userOpHash: Hex, { account }: PreparedUserOperation): Promise<Hex | null> {
+    const outcome = await userOpTrackerService.track(userOpHash, {
+      sender: account.address,
+      entryPoint: account.entryPoint,
+    });
+
+    if (outcome.status === "replaced") {
+      useGlobalState.getState().removePendingUserOp(userOpHash);
+      submittedUserOps.delete(userOpHash);
+      return (await replacementResults.get(userOpHash)) ?? null;
+    }
+
+    // Reverted and dropped operations stay listed with their status until dismissed
+    if (outcome.status === "reverted") {
+      throw new Error(`UserOperation reverted in transaction ${outcome.transactionHash}`);
+    }
+    if (outcome.status === "dropped") {
+      throw new Error("UserOperation was not included in time, the bundler may have dropped it");
+    }
+    useGlobalState.getState().removePendingUserOp(userOpHash);
+    submittedUserOps.delete(userOpHash);
+    return outcome.transactionHash;
+  },
+
+  /**
+   * Re-signs a pending operation with the same nonce and higher fees, and resolves with the transaction
+   * that included the replacement. `cancel` replaces its calls with an empty call to the account itself,
+   * so the nonce is used up without doing anything.
+   */
+  async replaceUserOperation(userOpHash: Hex, mode: "speedUp" | "cancel"): Promise<Hex | null> {
+    const original = submittedUserOps.get(userOpHash);
+    if (!original) {
+      throw new Error("Only operations sent from this page can be replaced");
+    }
+    const status = useGlobalState.getState().pendingUserOps.find(op => op.userOpHash === userOpHash)?.status;
+    if (status === "included" || status === "success" || status === "reverted" || status === "replaced") {
+      throw new Error("The operation can't be replaced anymore");
+    }
+
+    const { userOperation: op, account, nonceKey } = original;
+    const fast = await feeStrategyService.getFees(getPublicClient().chain.id, "fast");
+    const bump = (fee: bigint) => (fee * REPLACEMENT_FEE_BUMP_BPS) / 10_000n;
+    const fees = {
+      maxFeePerGas: maxBigInt(bump(op.maxFeePerGas), fast.maxFeePerGas),
+      maxPriorityFeePerGas: maxBigInt(bump(op.maxPriorityFeePerGas), fast.maxPriorityFeePerGas),
+    };
+
+    // Session keys may not call the account itself, so the owner signs cancellations of their operations
+    const ownerAccount = useGlobalState.getState().evmAccount;
+    const replacementAccount = mode === "cancel" && ownerAccount?.address === account.address ? ownerAccount : account;
+
+    const calls: TransactionCall[] =
+      mode === "cancel" ? [{ to: account.address, value: 0n, data: "0x" }] : original.calls;
+    const replacement = await this.prepareCalls(calls, nonceKey, replacementAccount, { nonce: op.nonce, fees });
+    const replacementHash = await this.publishUserOperation(replacement);
+
+    const result = this.waitForUserOperation(replacementHash, replacement);
+    const originalResult =
+      mode === "cancel"
+        ? result.then(() => {
+            throw new Error("UserOperation was cancelled");
+          })
+        : result;
+    // Nobody waits for the original anymore when it was dropped already
+    originalResult.catch(() => undefined);
+    replacementResults.set(userOpHash, originalResult);
+    userOpTrackerService.setStatus(userOpHash, "replaced");
+
+    return result;
+  },
+
+  /**
+   * Picks up the operations of the connected account left in the outbox by an earlier visit. Ones whose
+   * nonce is still unused are published again and tracked, the others are settled from their receipt.
+   */
+  async resumePendingUserOps(): Promise<void> {
+    const { publicClient, evmAccount, pendingUserOps } = useGlobalState.getState();
+    if (!publicClient || !evmAccount) return;
+
+    const entries = outboxService
+      .list(publicClient.chain.id, evmAccount.address)
+      .filter(entry => !pendingUserOps.some(op => op.userOpHash === entry.userOpHash));
+    await Promise.all(entries.map(entry => this.resumeUserOperation(entry, evmAccount)));
+  },
+
+  async resumeUserOperation(entry: OutboxEntry, account: SmartAccount): Promise<void> {
+    const { chainId, sender, userOperation, nostrEventId, ...pendingUserOp } = entry;
+    console.log(`Resuming UserOperation ${entry.userOpHash} of ${sender}`);
+
+    if (entry.status === "success" || entry.status === "replaced") {
+      outboxService.remove(entry.userOpHash);
+      return;
+    }
+    // Reverted and dropped operations stay listed until dismissed
+    if (entry.status === "reverted" || entry.status === "dropped") {
+      useGlobalState.getState().addPendingUserOp(pendingUserOp);
+      // A dropped operation may have been included after all
+      if (entry.status === "dropped") {
+        const outcome = await userOpTrackerService.getReceiptOutcome(entry.userOpHash).catch(() => null);
+        if (outcome) {
+          userOpTrackerService.setStatus(entry.userOpHash, outcome.status, outcome.transactionHash ?? undefined);
+        }
+      }
+      return;
+    }
+    useGlobalState.getState().addPendingUserOp({ ...pendingUserOp, status: "signed" });
+
+    let prepared: PreparedUserOperation;
+    try {
+      const currentNonce = await account.getNonce({ key: entry.nonceKey });
+      if (decodeNonce(currentNonce).sequence > decodeNonce(entry.nonce).sequence) {
+        // The nonce was used while the page was closed, by this operation or by one that replaced it
+        const outcome = await userOpTrackerService.getReceiptOutcome(entry.userOpHash);
+        if (outcome?.status === "reverted") {
+          userOpTrackerService.setStatus(entry.userOpHash, outcome.status, outcome.transactionHash ?? undefined);
+        } else {
+          useGlobalState.getState().removePendingUserOp(entry.userOpHash);
+        }
+        return;
+      }
+
+      // The paymaster is only needed to build replacements, which fetch their own
+      prepared = {
+        userOperation,
+        calls: [...((await account.decodeCalls?.(userOperation.callData)) ?? [])],
+        nonceKey: entry.nonceKey,
+        account,
+        sponsored: false,
+        gasToken: null,
+      };
+
+      const republishedEventId = await nostrBundlerService.sendUserOp(userOperation, {
+        chainId,
+        entryPointAddress: account.entryPoint.address,
+      });
+      console.log(`Published UserOperation again, previous event ${nostrEventId ?? "unknown"}`);
+      outboxService.update(entry.userOpHash, { nostrEventId: republishedEventId });
+    } catch (error) {
+      console.error("Failed to resume UserOperation:", error);
+      userOpTrackerService.setStatus(entry.userOpHash, "dropped");
+      return;
+    }
+
+    submittedUserOps.set(entry.userOpHash, prepared);
+    userOpTrackerService.setStatus(entry.userOpHash, "published");
+    this.waitForUserOperation(entry.userOpHash, prepared).catch(error =>
+      console.error("Resumed UserOperation failed:", error),
+    );
+  },
+
+  /**
+   * Upper bound of the gas the prepared UserOperation can be charged for, in wei.
+   */
+  getMaxGasCost(prepared: PreparedUserOperation): bigint {
+    return getUserOperationMaxCost(prepared.userOperation);
+  },
+
+  // Pending operations grouped by nonce key, ordered by sequence within each lane
+  getPendingUserOpsByLane(
+    pendingUserOps: PendingUserOp[] = useGlobalState.getState().pendingUserOps,
+  ): Map<bigint, PendingUserOp[]> {
+    const lanes = new Map<bigint, PendingUserOp[]>();
+    for (const op of pendingUserOps) {
+      lanes.set(op.nonceKey, [...(lanes.get(op.nonceKey) ?? []), op]);
+    }
+    for (const ops of lanes.values()) {
+      ops.sort((a, b) => (decodeNonce(a.nonce).sequence < decodeNonce(b.nonce).sequence ? -1 : 1));
+    }
+    return lanes;
+  },
+
+  // Stop listing an operation locally, e.g. one that was dropped by the bundler
+  dismissPendingUserOp(userOpHash: Hex): void {
+    useGlobalState.getState().removePendingUserOp(userOpHash);
+  },
+
   parseAmountToWei(amountEth: string): bigint {
     if (!amountEth || Number.isNaN(Number(amountEth))) return 0n;
     return parseEther(amountEth as `${number}`);
   },
 
-  // Check if the current network is supported for transactions
+  // Check if the current network is supported for transactions, with clients built for that network
   isNetworkSupported(): boolean {
-    const publicClient = useGlobalState.getState().publicClient;
-    const evmAccount = useGlobalState.getState().evmAccount;
-    return !!(publicClient && evmAccount);
+    const { publicClient, evmAccount, targetNetwork } = useGlobalState.getState();
+    return !!(publicClient && evmAccount) && publicClient.chain.id === targetNetwork.id;
   },
 
   // Get current wallet address from global state
@@ -0,0 +1,162 @@
+"use client";
+
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import { type Address, type Hex, encodeFunctionData, http } from "viem";
+import { getAppChainConfig } from "~~/config/appChains";
+import { nostrService } from "~~/services/nostrService";
+import {
+  type NostrSessionKey,
+  type SessionDelegation,
+  getSessionDelegationHash,
+  signNostrHash,
+  toNostrSmartAccount,
+} from "~~/services/nostrSmartAccount";
+import { type TransactionCall, transactionService } from "~~/services/sendTransactionService";
+import { getPublicClient, useGlobalState } from "~~/services/store/store";
+
+export const npubAccountSessionAbi = [
+  {
+    type: "function",
+    name: "revokeSession",
+    inputs: [{ name: "delegationHash", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "revokedSessions",
+    inputs: [{ name: "delegationHash", type: "bytes32" }],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "sessionValueSpent",
+    inputs: [{ name: "delegationHash", type: "bytes32" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+] as const;
+
+// Tolerates clocks running slightly ahead of the chain when the delegation starts now
+const VALID_AFTER_SKEW_SECONDS = 60;
+
+/** A session key together with the account and chain its delegation is bound to */
+export type AccountSession = NostrSessionKey & {
+  account: Address;
+  chainId: number;
+  delegationHash: Hex;
+};
+
+const getSessionContext = () => {
+  const { walletAddress, targetNetwork } = useGlobalState.getState();
+  const pubkey = nostrService.getPubkey();
+  if (!walletAddress || !pubkey) {
+    throw new Error("Wallet is not initialized for Account Abstraction on this network");
+  }
+  return { account: walletAddress as Address, chainId: targetNetwork.id, pubkey };
+};
+
+export const sessionKeyService = {
+  /**
+   * Generates a session key and asks the owner to sign its delegation. This is the only extension
+   * prompt, UserOperations within the delegation are then signed locally.
+   */
+  async createSession(params: {
+    targets: Address[];
+    selectors: Hex[];
+    valueLimit: bigint;
+    validForSeconds: number;
+  }): Promise<AccountSession> {
+    const { account, chainId, pubkey } = getSessionContext();
+    const now = Math.floor(Date.now() / 1000);
+
+    const secretKey = generateSecretKey();
+    const delegation: SessionDelegation = {
+      sessionKey: `0x${getPublicKey(secretKey)}`,
+      targets: params.targets,
+      selectors: params.selectors,
+      valueLimit: params.valueLimit,
+      validAfter: now - VALID_AFTER_SKEW_SECONDS,
+      validUntil: now + params.validForSeconds,
+    };
+
+    const delegationHash = getSessionDelegationHash({ delegation, chainId, verifyingContract: account });
+    const delegationSignature = await signNostrHash(nostrService.getSigner(), delegationHash, [], `0x${pubkey}`);
+
+    return { delegation, delegationSignature, secretKey, account, chainId, delegationHash };
+  },
+
+  /**
+   * Builds a smart account for the connected wallet that signs with the session key.
+   */
+  async toSessionAccount(session: AccountSession) {
+    const { account, chainId, pubkey } = getSessionContext();
+    if (account !== session.account || chainId !== session.chainId) {
+      throw new Error("Session key belongs to another account or network");
+    }
+
+    const publicClient = getPublicClient();
+    const appChainConfig = getAppChainConfig(chainId);
+
+    return toNostrSmartAccount({
+      client: publicClient,
+      owner: `0x${pubkey}`,
+      address: account,
+      signer: nostrService.getSigner(),
+      factoryAddress: appChainConfig.factoryAddress,
+      bundlerTransport: http(appChainConfig.bundlerUrl),
+      entryPoint: {
+        address: appChainConfig.entryPointAddress,
+        version: appChainConfig.entryPointVersion,
+      },
+      session,
+    });
+  },
+
+  /**
+   * Sends `calls` as a UserOperation signed by the session key, without prompting the extension.
+   */
+  async sendCalls(session: AccountSession, calls: TransactionCall[], nonceKey = 0n): Promise<string | null> {
+    return transactionService.sendCalls(calls, nonceKey, await this.toSessionAccount(session));
+  },
+
+  async getSessionState(session: AccountSession): Promise<{ revoked: boolean; valueSpent: bigint }> {
+    const publicClient = getPublicClient();
+
+    const code = await publicClient.getCode({ address: session.account });
+    if (!code || code === "0x") return { revoked: false, valueSpent: 0n };
+
+    const [revoked, valueSpent] = await Promise.all([
+      publicClient.readContract({
+        address: session.account,
+        abi: npubAccountSessionAbi,
+        functionName: "revokedSessions",
+        args: [session.delegationHash],
+      }),
+      publicClient.readContract({
+        address: session.account,
+        abi: npubAccountSessionAbi,
+        functionName: "sessionValueSpent",
+        args: [session.delegationHash],
+      }),
+    ]);
+    return { revoked, valueSpent };
+  },
+
+  /**
+   * Revokes the delegation on-chain, signed by the owner.
+   */
+  async revokeSession(session: AccountSession): Promise<string | null> {
+    return transactionService.sendCalls([
+      {
+        to: session.account,
+        data: encodeFunctionData({
+          abi: npubAccountSessionAbi,
+          functionName: "revokeSession",
+          args: [session.delegationHash],
+        }),
+      },
+    ]);
+  },
+};
@@ -0,0 +1,335 @@
+"use client";
+
+import {
+  type Address,
+  type Hex,
+  decodeErrorResult,
+  encodeFunctionData,
+  formatEther,
+  parseEventLogs,
+  zeroAddress,
+} from "viem";
+import { type TransactionCall, transactionService } from "~~/services/sendTransactionService";
+import { getPublicClient, useGlobalState } from "~~/services/store/store";
+
+// NpubAccount.NATIVE_TOKEN
+export const NATIVE_TOKEN: Address = zeroAddress;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+export const npubAccountSpendingAbi = [
+  {
+    type: "function",
+    name: "spendingLimits",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [
+      { name: "daily", type: "uint128" },
+      { name: "weekly", type: "uint128" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "remainingAllowance",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [
+      { name: "daily", type: "uint256" },
+      { name: "weekly", type: "uint256" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "spendingDelay",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "setSpendingLimit",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "daily", type: "uint128" },
+      { name: "weekly", type: "uint128" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setSpendingDelay",
+    inputs: [{ name: "delay", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "scheduleCall",
+    inputs: [
+      { name: "target", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "data", type: "bytes" },
+    ],
+    outputs: [{ name: "id", type: "bytes32" }],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "executeScheduledCall",
+    inputs: [
+      { name: "target", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "data", type: "bytes" },
+      { name: "nonce", type: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelScheduledCall",
+    inputs: [{ name: "id", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "event",
+    name: "CallScheduled",
+    inputs: [
+      { name: "id", type: "bytes32", indexed: true },
+      { name: "target", type: "address", indexed: true },
+      { name: "value", type: "uint256", indexed: false },
+      { name: "data", type: "bytes", indexed: false },
+      { name: "nonce", type: "uint256", indexed: false },
+      { name: "executableAt", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "error",
+    name: "SpendingLimitExceeded",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "remaining", type: "uint256" },
+    ],
+  },
+  { type: "error", name: "SpendingPolicyTimelocked", inputs: [] },
+  { type: "error", name: "UnknownScheduledCall", inputs: [{ name: "id", type: "bytes32" }] },
+  { type: "error", name: "ScheduledCallTimelockActive", inputs: [{ name: "executableAt", type: "uint256" }] },
+] as const;
+
+export type SpendingAllowance = {
+  // 0 when the period is uncapped
+  dailyLimit: bigint;
+  weeklyLimit: bigint;
+  // undefined when the period is uncapped
+  remainingDaily?: bigint;
+  remainingWeekly?: bigint;
+  // Timelock of scheduled calls, in seconds
+  delay: bigint;
+};
+
+/** A call queued past the spending limits, executable from `executableAt` */
+export type ScheduledCall = TransactionCall & {
+  id: Hex;
+  nonce: bigint;
+  executableAt: bigint;
+};
+
+const getAccountAddress = (): Address => {
+  const walletAddress = useGlobalState.getState().walletAddress;
+  if (!walletAddress) {
+    throw new Error("Wallet is not initialized for Account Abstraction on this network");
+  }
+  return walletAddress as Address;
+};
+
+const selfCall = (data: Hex): TransactionCall => ({ to: getAccountAddress(), data });
+
+const formatAmount = (token: Address, amount: bigint) =>
+  token === NATIVE_TOKEN ? `${formatEther(amount)} ETH` : `${amount.toString()} units of ${token}`;
+
+const explainRevertData = (data: Hex): string | null => {
+  try {
+    const decoded = decodeErrorResult({ abi: npubAccountSpendingAbi, data });
+    switch (decoded.errorName) {
+      case "SpendingLimitExceeded": {
+        const [token, amount, remaining] = decoded.args;
+        return `Sending ${formatAmount(token, amount)} exceeds the spending limit, only ${formatAmount(token, remaining)} is left. Schedule it to send it after the timelock.`;
+      }
+      case "SpendingPolicyTimelocked":
+        return "Raising limits or shortening the timelock has to be scheduled.";
+      case "ScheduledCallTimelockActive":
+        return `The scheduled call is executable from ${new Date(Number(decoded.args[0]) * 1000).toLocaleString()}.`;
+      case "UnknownScheduledCall":
+        return "The scheduled call was already executed or cancelled.";
+    }
+  } catch {
+    // Not a spending policy error
+  }
+  return null;
+};
+
+export const spendingLimitService = {
+  async getAllowance(accountAddress: Address, token: Address = NATIVE_TOKEN): Promise<SpendingAllowance | null> {
+    const publicClient = useGlobalState.getState().publicClient;
+    if (!publicClient) return null;
+
+    const code = await publicClient.getCode({ address: accountAddress });
+    if (!code || code === "0x") return null;
+
+    const read = (functionName: "spendingLimits" | "remainingAllowance") =>
+      publicClient.readContract({ address: accountAddress, abi: npubAccountSpendingAbi, functionName, args: [token] });
+
+    const [[dailyLimit, weeklyLimit], [remainingDaily, remainingWeekly], delay] = await Promise.all([
+      read("spendingLimits"),
+      read("remainingAllowance"),
+      publicClient.readContract({
+        address: accountAddress,
+        abi: npubAccountSpendingAbi,
+        functionName: "spendingDelay",
+      }),
+    ]);
+
+    return {
+      dailyLimit,
+      weeklyLimit,
+      remainingDaily: remainingDaily === MAX_UINT256 ? undefined : remainingDaily,
+      remainingWeekly: remainingWeekly === MAX_UINT256 ? undefined : remainingWeekly,
+      delay,
+    };
+  },
+
+  /**
+   * Explains why spending `amount` would be rejected by the account, or returns null if it fits.
+   */
+  checkSpend(allowance: SpendingAllowance | null, amount: bigint, token: Address = NATIVE_TOKEN): string | null {
+    if (!allowance) return null;
+    if (allowance.remainingDaily !== undefined && amount > allowance.remainingDaily) {
+      return `Exceeds the daily limit: ${formatAmount(token, allowance.remainingDaily)} left of ${formatAmount(token, allowance.dailyLimit)}, resets at 00:00 UTC.`;
+    }
+    if (allowance.remainingWeekly !== undefined && amount > allowance.remainingWeekly) {
+      return `Exceeds the weekly limit: ${formatAmount(token, allowance.remainingWeekly)} left of ${formatAmount(token, allowance.weeklyLimit)}.`;
+    }
+    return null;
+  },
+
+  /**
+   * Turns a spending policy revert into a readable reason, or returns null for other errors.
+   */
+  explainError(error: unknown): string | null {
+    // Bundlers report the revert data inside their error message, which sendCalls wraps again
+    const message = error instanceof Error ? error.message : String(error);
+    for (const candidate of message.match(/0x[0-9a-fA-F]{8,}/g) ?? []) {
+      const reason = explainRevertData(candidate as Hex);
+      if (reason) return reason;
+    }
+    return null;
+  },
+
+  /**
+   * Sets the caps of a token. Tightening applies immediately, loosening is scheduled behind the timelock.
+   */
+  async setSpendingLimit(
+    token: Address,
+    daily: bigint,
+    weekly: bigint,
+    current: SpendingAllowance | null,
+  ): Promise<ScheduledCall | null> {
+    const data = encodeFunctionData({
+      abi: npubAccountSpendingAbi,
+      functionName: "setSpendingLimit",
+      args: [token, daily, weekly],
+    });
+
+    const isLooser = (from: bigint, to: bigint) => from !== 0n && (to === 0n || to > from);
+    if (current && (isLooser(current.dailyLimit, daily) || isLooser(current.weeklyLimit, weekly))) {
+      return this.scheduleCall(selfCall(data));
+    }
+
+    await transactionService.sendCalls([selfCall(data)]);
+    return null;
+  },
+
+  /**
+   * Sets the timelock of scheduled calls, shortening it is itself scheduled.
+   */
+  async setSpendingDelay(delaySeconds: bigint, current: SpendingAllowance | null): Promise<ScheduledCall | null> {
+    const data = encodeFunctionData({
+      abi: npubAccountSpendingAbi,
+      functionName: "setSpendingDelay",
+      args: [delaySeconds],
+    });
+
+    if (current && delaySeconds < current.delay) {
+      return this.scheduleCall(selfCall(data));
+    }
+
+    await transactionService.sendCalls([selfCall(data)]);
+    return null;
+  },
+
+  /**
+   * Queues a call that bypasses the spending limits once the timelock expires.
+   */
+  async scheduleCall(call: TransactionCall): Promise<ScheduledCall> {
+    const publicClient = getPublicClient();
+    const value = call.value ?? 0n;
+    const data = call.data ?? "0x";
+
+    const txHash = await transactionService.sendCalls([
+      selfCall(
+        encodeFunctionData({
+          abi: npubAccountSpendingAbi,
+          functionName: "scheduleCall",
+          args: [call.to, value, data],
+        }),
+      ),
+    ]);
+    if (!txHash) throw new Error("Scheduling failed");
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    const [scheduled] = parseEventLogs({
+      abi: npubAccountSpendingAbi,
+      eventName: "CallScheduled",
+      logs: receipt.logs.filter(
+        (log: { address: string }) => log.address.toLowerCase() === getAccountAddress().toLowerCase(),
+      ),
+    });
+    if (!scheduled) throw new Error("Scheduling failed: the account rejected the call");
+
+    return {
+      to: call.to,
+      value,
+      data,
+      id: scheduled.args.id,
+      nonce: scheduled.args.nonce,
+      executableAt: scheduled.args.executableAt,
+    };
+  },
+
+  async executeScheduledCall(scheduled: ScheduledCall): Promise<string | null> {
+    return transactionService.sendCalls([
+      selfCall(
+        encodeFunctionData({
+          abi: npubAccountSpendingAbi,
+          functionName: "executeScheduledCall",
+          args: [scheduled.to, scheduled.value ?? 0n, scheduled.data ?? "0x", scheduled.nonce],
+        }),
+      ),
+    ]);
+  },
+
+  async cancelScheduledCall(scheduled: ScheduledCall): Promise<string | null> {
+    return transactionService.sendCalls([
+      selfCall(
+        encodeFunctionData({
+          abi: npubAccountSpendingAbi,
+          functionName: "cancelScheduledCall",
+          args: [scheduled.id],
+        }),
+      ),
+    ]);
+  },
+};
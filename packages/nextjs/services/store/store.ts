@@ -1,6 +1,11 @@
-import { createPublicClient } from "viem";
+import type { SmartAccountClient } from "permissionless";
+import type { Chain, Client, Hex, PublicClient, Transport } from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
 import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
 import scaffoldConfig from "~~/scaffold.config";
+import type { BundlerGasPriceRpcSchema, FeeSpeed } from "~~/services/feeStrategyService";
+import type { UserOpStatus } from "~~/services/userOpTrackerService";
 import { ChainWithAttributes, NETWORKS_EXTRA_DATA } from "~~/utils/scaffold-eth";
 
 /**
@@ -12,6 +17,47 @@ import { ChainWithAttributes, NETWORKS_EXTRA_DATA } from "~~/utils/scaffold-eth"
  * Think about it as a global useState.
  */
 
+/**
+ * A UserOperation sent through the bundler relay, tracked until it succeeds or is dismissed.
+ * Operations are grouped by nonce key, each key being an independent lane.
+ */
+export type PendingUserOp = {
+  userOpHash: Hex;
+  nonceKey: bigint;
+  nonce: bigint;
+  to: string;
+  value: bigint;
+  submittedAt: number;
+  status: UserOpStatus;
+  transactionHash?: Hex;
+};
+
+export type AppPublicClient = PublicClient<Transport, Chain>;
+
+export type AppBundlerClient = SmartAccountClient<
+  Transport,
+  Chain,
+  SmartAccount,
+  Client | undefined,
+  BundlerGasPriceRpcSchema
+>;
+
+// How the connected pubkey signs: browser extension (NIP-07), remote signer (NIP-46) or key stored as a NIP-49 ncryptsec
+export type NostrSignerType = "nip07" | "nip46" | "ncryptsec";
+
+/**
+ * The connected Nostr identity, persisted so a reload reconnects without asking the signer again.
+ * Clients and the smart account are rebuilt from it for the selected network.
+ */
+export type WalletSession = {
+  // Hex public key, without 0x
+  pubkey: string;
+  signerType: NostrSignerType;
+  // Which of the pubkey's accounts is in use
+  accountIndex: number;
+  chainId: number;
+};
+
 type GlobalState = {
   nativeCurrency: {
     price: number;
@@ -25,36 +71,96 @@ type GlobalState = {
   setWalletAddress: (walletAddress: string | null) => void;
   nPubkey: string;
   setNPubKey: (nPubkey: string) => void;
-  publicClient: ReturnType<typeof createPublicClient> | any;
-  evmAccount: any;
-  bundlerClient: any;
-  setPublicClient: (publicClient: ReturnType<typeof createPublicClient> | any) => void;
-  setBundlerClient: (publicClient: ReturnType<any> | any) => void;
-  setEvmAccount: (publicClient: any) => void;
+  walletSession: WalletSession | null;
+  setWalletSession: (walletSession: WalletSession | null) => void;
+  publicClient: AppPublicClient | null;
+  evmAccount: SmartAccount | null;
+  bundlerClient: AppBundlerClient | null;
+  setPublicClient: (publicClient: AppPublicClient | null) => void;
+  setBundlerClient: (bundlerClient: AppBundlerClient | null) => void;
+  setEvmAccount: (evmAccount: SmartAccount | null) => void;
+  pendingUserOps: PendingUserOp[];
+  addPendingUserOp: (pendingUserOp: PendingUserOp) => void;
+  updatePendingUserOp: (userOpHash: Hex, update: Partial<PendingUserOp>) => void;
+  removePendingUserOp: (userOpHash: Hex) => void;
+  // Pay gas in the network's gas token through the token paymaster instead of ETH
+  payGasInToken: boolean;
+  setPayGasInToken: (payGasInToken: boolean) => void;
+  // Fee preset UserOperations are priced with
+  feeSpeed: FeeSpeed;
+  setFeeSpeed: (feeSpeed: FeeSpeed) => void;
 };
 
-export const useGlobalState = create<GlobalState>(set => ({
-  nativeCurrency: {
-    price: 0,
-    isFetching: true,
-  },
-  walletAddress: null,
-  nPubkey: "",
-  publicClient: null,
-  evmAccount: null,
-  bundlerClient: null,
-  setNativeCurrencyPrice: (newValue: number): void =>
-    set(state => ({ nativeCurrency: { ...state.nativeCurrency, price: newValue } })),
-  setIsNativeCurrencyFetching: (newValue: boolean): void =>
-    set(state => ({ nativeCurrency: { ...state.nativeCurrency, isFetching: newValue } })),
-  targetNetwork: {
-    ...scaffoldConfig.targetNetworks[0],
-    ...NETWORKS_EXTRA_DATA[scaffoldConfig.targetNetworks[0].id],
-  },
-  setTargetNetwork: (newTargetNetwork: ChainWithAttributes) => set(() => ({ targetNetwork: newTargetNetwork })),
-  setWalletAddress: (walletAddress: string | null) => set(() => ({ walletAddress })),
-  setNPubKey: (nPubkey: string) => set(() => ({ nPubkey })),
-  setPublicClient: (publicClient: ReturnType<typeof createPublicClient> | null) => set(() => ({ publicClient })),
-  setEvmAccount: (evmAccount: ReturnType<any>) => set(() => ({ evmAccount })),
-  setBundlerClient: (bundlerClient: ReturnType<any>) => set(() => ({ bundlerClient })),
-}));
+export const useGlobalState = create<GlobalState>()(
+  persist(
+    set => ({
+      nativeCurrency: {
+        price: 0,
+        isFetching: true,
+      },
+      walletAddress: null,
+      nPubkey: "",
+      walletSession: null,
+      publicClient: null,
+      evmAccount: null,
+      bundlerClient: null,
+      pendingUserOps: [],
+      payGasInToken: false,
+      feeSpeed: "normal",
+      setNativeCurrencyPrice: (newValue: number): void =>
+        set(state => ({ nativeCurrency: { ...state.nativeCurrency, price: newValue } })),
+      setIsNativeCurrencyFetching: (newValue: boolean): void =>
+        set(state => ({ nativeCurrency: { ...state.nativeCurrency, isFetching: newValue } })),
+      targetNetwork: {
+        ...scaffoldConfig.targetNetworks[0],
+        ...NETWORKS_EXTRA_DATA[scaffoldConfig.targetNetworks[0].id],
+      },
+      // The session follows the selected network, so a reload reconnects on it
+      setTargetNetwork: (newTargetNetwork: ChainWithAttributes) =>
+        set(state => ({
+          targetNetwork: newTargetNetwork,
+          walletSession: state.walletSession && { ...state.walletSession, chainId: newTargetNetwork.id },
+        })),
+      setWalletAddress: (walletAddress: string | null) => set(() => ({ walletAddress })),
+      setNPubKey: (nPubkey: string) => set(() => ({ nPubkey })),
+      setWalletSession: (walletSession: WalletSession | null) => set(() => ({ walletSession })),
+      setPublicClient: publicClient => set(() => ({ publicClient })),
+      setEvmAccount: evmAccount => set(() => ({ evmAccount })),
+      setBundlerClient: bundlerClient => set(() => ({ bundlerClient })),
+      addPendingUserOp: (pendingUserOp: PendingUserOp) =>
+        set(state => ({ pendingUserOps: [...state.pendingUserOps, pendingUserOp] })),
+      updatePendingUserOp: (userOpHash: Hex, update: Partial<PendingUserOp>) =>
+        set(state => ({
+          pendingUserOps: state.pendingUserOps.map(op => (op.userOpHash === userOpHash ? { ...op, ...update } : op)),
+        })),
+      removePendingUserOp: (userOpHash: Hex) =>
+        set(state => ({ pendingUserOps: state.pendingUserOps.filter(op => op.userOpHash !== userOpHash) })),
+      setPayGasInToken: (payGasInToken: boolean) => set(() => ({ payGasInToken })),
+      setFeeSpeed: (feeSpeed: FeeSpeed) => set(() => ({ feeSpeed })),
+    }),
+    {
+      name: "ethstr.session",
+      storage: createJSONStorage(() => localStorage),
+      // Only the session is persisted, clients are rebuilt for the network after rehydration
+      partialize: state => ({ walletSession: state.walletSession }),
+      // Rehydrated from useNostrConnection once mounted, so server and first client render match
+      skipHydration: true,
+      onRehydrateStorage: () => state => {
+        const chainId = state?.walletSession?.chainId;
+        const network = scaffoldConfig.targetNetworks.find(network => network.id === chainId);
+        if (state && network) state.setTargetNetwork({ ...network, ...NETWORKS_EXTRA_DATA[network.id] });
+      },
+    },
+  ),
+);
+
+/**
+ * Public client of the selected network, for code that only runs once the wallet is connected.
+ */
+export const getPublicClient = (): AppPublicClient => {
+  const publicClient = useGlobalState.getState().publicClient;
+  if (!publicClient) {
+    throw new Error("Wallet is not connected to a network");
+  }
+  return publicClient;
+};
@@ -0,0 +1,273 @@
+"use client";
+
+import {
+  type Address,
+  type Hex,
+  concat,
+  encodeAbiParameters,
+  encodeFunctionData,
+  erc20Abi,
+  isAddressEqual,
+  keccak256,
+  maxUint256,
+  parseEther,
+  toHex,
+} from "viem";
+import { getAppChainConfig } from "~~/config/appChains";
+import { nostrService } from "~~/services/nostrService";
+import { getAccountReplaySafeHash, signNostrHash } from "~~/services/nostrSmartAccount";
+import type { TransactionCall } from "~~/services/sendTransactionService";
+import { getPublicClient, useGlobalState } from "~~/services/store/store";
+
+// Gas reserved for NpubTokenPaymaster.postOp, which refunds the unused part of the prefund
+const TOKEN_PAYMASTER_POST_OP_GAS_LIMIT = 90_000n;
+
+// The paymaster is approved for this much gas at a time, so most operations need no extra approve call
+const ALLOWANCE_ETH_BUDGET = parseEther("0.005");
+
+// Headroom over the cached on-chain price, which may be refreshed before the operation is included
+const PRICE_SLIPPAGE_BPS = 300n;
+
+// How long a permit signed for an operation can be redeemed
+const PERMIT_VALIDITY_SECONDS = 60 * 60;
+
+const PERMIT_TYPEHASH = keccak256(
+  toHex("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"),
+);
+
+// EIP-2612 reads of tokens that take permits, such as USDC
+const erc20PermitAbi = [
+  {
+    type: "function",
+    name: "nonces",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "DOMAIN_SEPARATOR",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+] as const;
+
+const npubAccountLimitsAbi = [
+  {
+    type: "function",
+    name: "limitedTokenCount",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+] as const;
+
+export const npubTokenPaymasterAbi = [
+  {
+    type: "function",
+    name: "quoteTokenCost",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "ethCost", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+] as const;
+
+export type GasToken = {
+  address: Address;
+  symbol: string;
+  decimals: number;
+};
+
+type PaymasterUserOperation = {
+  callGasLimit?: bigint;
+  verificationGasLimit?: bigint;
+  preVerificationGas?: bigint;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+  maxFeePerGas?: bigint;
+};
+
+/** EIP-2612 permit approving the paymaster, mirrors NpubTokenPaymaster.TokenPermit */
+type TokenPermit = {
+  value: bigint;
+  deadline: bigint;
+  signature: Hex;
+};
+
+const encodeTokenPaymasterData = (token: Address, maxTokenCost: bigint, permit?: TokenPermit) =>
+  permit
+    ? encodeAbiParameters(
+        [
+          { type: "address" },
+          { type: "uint256" },
+          {
+            type: "tuple",
+            components: [
+              { name: "value", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+              { name: "signature", type: "bytes" },
+            ],
+          },
+        ],
+        [token, maxTokenCost, permit],
+      )
+    : encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [token, maxTokenCost]);
+
+/**
+ * Has the owner of the connected account sign a permit approving `spender` for `value` of `token`,
+ * checked by the token through the account's ERC-1271. Returns null for any other sender, such as a
+ * multisig, for tokens without permits and for accounts with spending limits, which refuse permits.
+ */
+const signPermit = async (
+  chainId: number,
+  token: Address,
+  spender: Address,
+  sender: Address,
+  value: bigint,
+): Promise<TokenPermit | null> => {
+  const { walletAddress, walletSession } = useGlobalState.getState();
+  if (!walletSession || !walletAddress || !isAddressEqual(walletAddress as Address, sender)) return null;
+
+  const publicClient = getPublicClient();
+  // Accounts that are not deployed yet have no limits
+  const limitedTokenCount = await publicClient
+    .readContract({ address: sender, abi: npubAccountLimitsAbi, functionName: "limitedTokenCount" })
+    .catch(() => 0n);
+  if (limitedTokenCount !== 0n) return null;
+
+  let nonce: bigint;
+  let domainSeparator: Hex;
+  try {
+    [nonce, domainSeparator] = await Promise.all([
+      publicClient.readContract({ address: token, abi: erc20PermitAbi, functionName: "nonces", args: [sender] }),
+      publicClient.readContract({ address: token, abi: erc20PermitAbi, functionName: "DOMAIN_SEPARATOR" }),
+    ]);
+  } catch {
+    return null;
+  }
+
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS);
+  const structHash = keccak256(
+    encodeAbiParameters(
+      [
+        { type: "bytes32" },
+        { type: "address" },
+        { type: "address" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "uint256" },
+      ],
+      [PERMIT_TYPEHASH, sender, spender, value, nonce, deadline],
+    ),
+  );
+  const permitHash = keccak256(concat(["0x1901", domainSeparator, structHash]));
+
+  // The account is deployed by the time the paymaster redeems the permit, so no ERC-6492 wrapping
+  const hash = getAccountReplaySafeHash({ hash: permitHash, chainId, account: sender });
+  const signature = await signNostrHash(nostrService.getSigner(), hash, [], `0x${walletSession.pubkey}`);
+  return { value, deadline, signature };
+};
+
+export const tokenPaymasterService = {
+  /**
+   * Returns the ERC-20 the network accepts for gas, or null when it has no token paymaster.
+   */
+  async getGasToken(chainId: number): Promise<GasToken | null> {
+    const { tokenPaymasterAddress, gasTokenAddress } = getAppChainConfig(chainId);
+    if (!tokenPaymasterAddress || !gasTokenAddress) return null;
+
+    const publicClient = getPublicClient();
+    const [symbol, decimals] = await Promise.all([
+      publicClient.readContract({ address: gasTokenAddress, abi: erc20Abi, functionName: "symbol" }),
+      publicClient.readContract({ address: gasTokenAddress, abi: erc20Abi, functionName: "decimals" }),
+    ]);
+    return { address: gasTokenAddress, symbol, decimals };
+  },
+
+  /**
+   * Token amount the paymaster charges for `ethCost` wei of gas at its cached price.
+   */
+  async quote(chainId: number, ethCost: bigint): Promise<bigint> {
+    const { tokenPaymasterAddress, gasTokenAddress } = getAppChainConfig(chainId);
+    return getPublicClient().readContract({
+      address: tokenPaymasterAddress,
+      abi: npubTokenPaymasterAbi,
+      functionName: "quoteTokenCost",
+      args: [gasTokenAddress, ethCost],
+    });
+  },
+
+  /**
+   * Prepares `calls` of `sender` for paying gas in the gas token, returning paymaster actions for
+   * prepareUserOperation. The paymaster collects its prefund during validation, so an operation can't
+   * approve it with a call: when the allowance runs low the owner signs a permit the paymaster redeems
+   * during validation, which lets an account holding only the token pay for its first operation.
+   * Senders that can't sign a permit get the approval added to `calls` instead, and that operation pays
+   * its gas like any other, without the returned `paymaster`.
+   */
+  async preparePayment(chainId: number, sender: Address, calls: TransactionCall[]) {
+    const { tokenPaymasterAddress: paymaster, gasTokenAddress: token } = getAppChainConfig(chainId);
+    if (!paymaster || !token) {
+      throw new Error("Paying gas in tokens is not available on this network");
+    }
+
+    const publicClient = getPublicClient();
+    const [allowance, budget] = await Promise.all([
+      publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [sender, paymaster],
+      }),
+      this.quote(chainId, ALLOWANCE_ETH_BUDGET),
+    ]);
+
+    let permit: TokenPermit | undefined;
+    if (allowance < budget / 2n) {
+      permit = (await signPermit(chainId, token, paymaster, sender, budget)) ?? undefined;
+      if (!permit) {
+        const approval: TransactionCall = {
+          to: token,
+          value: 0n,
+          data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [paymaster, budget] }),
+        };
+        return { calls: [approval, ...calls], paymaster: undefined };
+      }
+    }
+
+    const paymasterFields = { paymaster, paymasterPostOpGasLimit: TOKEN_PAYMASTER_POST_OP_GAS_LIMIT };
+
+    return {
+      calls,
+      paymaster: {
+        // Estimation runs without a cost cap, the final data caps it at the estimated maximum
+        getPaymasterStubData: async () => ({
+          ...paymasterFields,
+          paymasterData: encodeTokenPaymasterData(token, maxUint256, permit),
+        }),
+        getPaymasterData: async (userOp: PaymasterUserOperation) => {
+          const maxGas =
+            (userOp.callGasLimit ?? 0n) +
+            (userOp.verificationGasLimit ?? 0n) +
+            (userOp.preVerificationGas ?? 0n) +
+            (userOp.paymasterVerificationGasLimit ?? 0n) +
+            TOKEN_PAYMASTER_POST_OP_GAS_LIMIT;
+          const maxTokenCost = await this.quote(chainId, maxGas * (userOp.maxFeePerGas ?? 0n));
+          return {
+            ...paymasterFields,
+            paymasterVerificationGasLimit: userOp.paymasterVerificationGasLimit,
+            paymasterData: encodeTokenPaymasterData(
+              token,
+              (maxTokenCost * (10_000n + PRICE_SLIPPAGE_BPS)) / 10_000n,
+              permit,
+            ),
+          };
+        },
+      },
+    };
+  },
+};
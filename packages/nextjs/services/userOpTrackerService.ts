@@ -0,0 +1,171 @@
+"use client";
+
+import type { Abi, Address, Hex } from "viem";
+import { getPublicClient, useGlobalState } from "~~/services/store/store";
+
+/**
+ * Lifecycle of a UserOperation sent by this wallet:
+ * signed → published to the Nostr relays → seen by the bundler → included → success or reverted.
+ * One not included in time is dropped, unless an inclusion shows up later after all.
+ * An operation re-signed with the same nonce to speed it up or cancel it ends as replaced.
+ */
+export type UserOpStatus =
+  | "signed"
+  | "published"
+  | "seen"
+  | "included"
+  | "success"
+  | "reverted"
+  | "dropped"
+  | "replaced";
+
+export type UserOpOutcome = {
+  status: "success" | "reverted" | "dropped" | "replaced";
+  // Transaction that included the operation, null when it was dropped or replaced
+  transactionHash: Hex | null;
+};
+
+export type TrackUserOpOptions = {
+  sender: Address;
+  entryPoint: { address: Address; abi: Abi };
+  timeoutMs?: number;
+};
+
+// "dropped" is only concluded from a timeout, so an inclusion seen afterwards moves past it
+const USER_OP_STATUS_ORDER: UserOpStatus[] = [
+  "signed",
+  "published",
+  "seen",
+  "dropped",
+  "included",
+  "success",
+  "reverted",
+  "replaced",
+];
+
+// How often the bundler is asked about the operation
+const POLL_INTERVAL_MS = 3_000;
+
+// An operation not included by then is considered dropped, unless the bundler still holds it
+const DEFAULT_TIMEOUT_MS = 5 * 60_000;
+
+// Shapes of the ERC-4337 bundler RPC results the tracker reads
+type UserOperationByHash = { transactionHash: Hex | null } | null;
+type UserOperationReceipt = { success: boolean; receipt: { transactionHash: Hex } } | null;
+
+// A dropped operation is still followed in case it gets included after all
+const isFinal = (status: UserOpStatus) => status === "success" || status === "reverted" || status === "replaced";
+
+export const userOpTrackerService = {
+  /**
+   * Moves the operation's entry in the pending list forward to `status`, never back.
+   */
+  setStatus(userOpHash: Hex, status: UserOpStatus, transactionHash?: Hex): void {
+    const op = useGlobalState.getState().pendingUserOps.find(op => op.userOpHash === userOpHash);
+    if (!op || USER_OP_STATUS_ORDER.indexOf(status) <= USER_OP_STATUS_ORDER.indexOf(op.status)) return;
+    useGlobalState.getState().updatePendingUserOp(userOpHash, { status, ...(transactionHash && { transactionHash }) });
+  },
+
+  /**
+   * Outcome of an included operation from its bundler receipt, null while the bundler has none.
+   */
+  async getReceiptOutcome(userOpHash: Hex): Promise<UserOpOutcome | null> {
+    const bundlerClient = useGlobalState.getState().bundlerClient;
+    if (!bundlerClient) return null;
+
+    const receipt: UserOperationReceipt = await bundlerClient.request({
+      method: "eth_getUserOperationReceipt",
+      params: [userOpHash],
+    });
+    return receipt
+      ? { status: receipt.success ? "success" : "reverted", transactionHash: receipt.receipt.transactionHash }
+      : null;
+  },
+
+  /**
+   * Follows a published operation by its hash until it is included, replaced or times out.
+   * The bundler is polled with eth_getUserOperationByHash and eth_getUserOperationReceipt, the
+   * EntryPoint's UserOperationEvent covers bundlers behind the relay that this wallet can't query.
+   * After resolving as dropped, the operation is still watched until it is included or dismissed.
+   */
+  track(userOpHash: Hex, { sender, entryPoint, timeoutMs = DEFAULT_TIMEOUT_MS }: TrackUserOpOptions) {
+    const publicClient = getPublicClient();
+    const bundlerClient = useGlobalState.getState().bundlerClient;
+
+    return new Promise<UserOpOutcome>(resolve => {
+      let status: UserOpStatus = "published";
+      // Set once the timeout passed, an operation the bundler still holds is given more time
+      let timedOut = false;
+      const update = (next: UserOpStatus, transactionHash?: Hex) => {
+        if (USER_OP_STATUS_ORDER.indexOf(next) > USER_OP_STATUS_ORDER.indexOf(status)) status = next;
+        this.setStatus(userOpHash, next, transactionHash);
+      };
+
+      const stop = () => {
+        clearInterval(pollTimer);
+        clearTimeout(dropTimer);
+        unwatch();
+      };
+
+      // Only the first outcome resolves, a later inclusion of a dropped operation just updates its status
+      const finish = (outcome: UserOpOutcome) => {
+        if (isFinal(status)) return;
+        update(outcome.status, outcome.transactionHash ?? undefined);
+        if (outcome.status !== "dropped") stop();
+        resolve(outcome);
+      };
+
+      const poll = async () => {
+        const tracked = useGlobalState.getState().pendingUserOps.find(op => op.userOpHash === userOpHash);
+        if (tracked?.status === "replaced") {
+          finish({ status: "replaced", transactionHash: null });
+          return;
+        }
+        // A dropped operation that was dismissed isn't followed anymore
+        if (!tracked && status === "dropped") {
+          stop();
+          return;
+        }
+        if (!bundlerClient || isFinal(status)) return;
+        try {
+          const outcome = await this.getReceiptOutcome(userOpHash);
+          if (outcome) {
+            finish(outcome);
+            return;
+          }
+
+          const userOp: UserOperationByHash = await bundlerClient.request({
+            method: "eth_getUserOperationByHash",
+            params: [userOpHash],
+          });
+          if (userOp) update(userOp.transactionHash ? "included" : "seen", userOp.transactionHash ?? undefined);
+          // Past the timeout, an operation the bundler let go of won't be included anymore
+          else if (timedOut) finish({ status: "dropped", transactionHash: null });
+        } catch (error) {
+          console.warn("Bundler status of the UserOperation unavailable:", error);
+        }
+      };
+
+      const unwatch = publicClient.watchContractEvent({
+        address: entryPoint.address,
+        abi: entryPoint.abi,
+        eventName: "UserOperationEvent",
+        args: { userOpHash, sender },
+        onLogs: (logs: any[]) => {
+          // Filters aren't honoured by every node, other operations of the sender must not settle this one
+          const log = logs.find(log => log.args.userOpHash === userOpHash);
+          if (log) finish({ status: log.args.success ? "success" : "reverted", transactionHash: log.transactionHash });
+        },
+        onError: (error: Error) => console.warn("UserOperationEvent watch failed:", error),
+      });
+
+      const pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      // An included operation only waits for its receipt, one the bundler still holds may be included later
+      const dropTimer = setTimeout(() => {
+        timedOut = true;
+        if (status !== "seen" && status !== "included") finish({ status: "dropped", transactionHash: null });
+      }, timeoutMs);
+      poll();
+    });
+  },
+};
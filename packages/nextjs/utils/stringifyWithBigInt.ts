@@ -1,3 +1,9 @@
 export function stringifyWithBigInt(obj: any): string {
   return JSON.stringify(obj, (_, value) => (typeof value === "bigint" ? { __bigint__: value.toString() } : value));
 }
+
+export function parseWithBigInt(json: string): any {
+  return JSON.parse(json, (_, value) =>
+    value && typeof value === "object" && "__bigint__" in value ? BigInt(value.__bigint__) : value,
+  );
+}
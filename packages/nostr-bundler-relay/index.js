@@ -9,9 +9,9 @@ const { createPublicClient, http, keccak256, encodeAbiParameters, encodePacked,
     hashStruct
 } = require('viem');
 const { base } = require('viem/chains');
-const {entryPoint08Abi, entryPoint08Address} = require("viem/account-abstraction");
+const {entryPoint07Address, entryPoint08Abi, entryPoint08Address} = require("viem/account-abstraction");
 
-const bundlerRpcUrl = 'https://api.pimlico.io/v2/8453/rpc?apikey=pim_X5CHVGtEhbJLu7Wj4H8fDC';
+const bundlerRpcUrl = process.env.BUNDLER_RPC_URL || 'https://api.pimlico.io/v2/8453/rpc?apikey=pim_X5CHVGtEhbJLu7Wj4H8fDC';
 const bundlerClient = createPublicClient({
     chain: base,
     transport: http(bundlerRpcUrl),
@@ -25,7 +25,50 @@ const relays = ["wss://relay.primal.net", "wss://nos.lol", "wss://relay.damus.io
 let sk = generateSecretKey()
 let pk = getPublicKey(sk)
 
-const chainId = 8453n;
+const chainId = BigInt(process.env.CHAIN_ID || base.id);
+
+// EntryPoint used for events published without an "entryPoint" tag
+const defaultEntryPoint = process.env.ENTRY_POINT_ADDRESS || entryPoint08Address;
+const supportedEntryPoints = [entryPoint07Address, entryPoint08Address];
+
+function getTag(event, name) {
+    const tag = event.tags.find(t => t[0] === name);
+    return tag ? tag[1] : undefined;
+}
+
+function resolveEntryPoint(event) {
+    const entryPoint = getTag(event, 'entryPoint') || defaultEntryPoint;
+    return supportedEntryPoints.find(a => a.toLowerCase() === entryPoint.toLowerCase());
+}
+
+// Bundlers only accept a replacement for the same sender and nonce when both fees rise by at least 10%
+const replacementFeeBumpPercent = 10n;
+
+// Fees of the latest operation forwarded per EntryPoint, sender and nonce. A re-signed operation with
+// higher fees replaces the forwarded one, stale copies and replays of replaced operations are skipped.
+const forwardedOps = new Map();
+
+// By then the forwarded operation was included or dropped by the bundler, and its entry is evicted
+const forwardedOpTtlMs = 60 * 60 * 1000;
+
+function evictExpiredForwardedOps() {
+    const now = Date.now();
+    for (const [key, forwarded] of forwardedOps) {
+        if (now - forwarded.forwardedAt > forwardedOpTtlMs) {
+            forwardedOps.delete(key);
+        }
+    }
+}
+
+function replacementKey(entryPoint, userOp) {
+    return `${entryPoint.toLowerCase()}:${userOp.sender.toLowerCase()}:${BigInt(userOp.nonce)}`;
+}
+
+function outbids(userOp, forwarded) {
+    const minFee = fee => fee + fee * replacementFeeBumpPercent / 100n;
+    return BigInt(userOp.maxFeePerGas) >= minFee(forwarded.maxFeePerGas)
+        && BigInt(userOp.maxPriorityFeePerGas) >= minFee(forwarded.maxPriorityFeePerGas);
+}
 
 function parseWithBigInt(json) {
     return JSON.parse(json, (_, value) =>
@@ -87,9 +130,35 @@ async function subscribeToEvents() {
             async onevent(event) {
                 try {
                     // console.log('got event:', event);
+                    const eventChainId = getTag(event, 'chainId');
+                    if (eventChainId && BigInt(eventChainId) !== chainId) {
+                        return;
+                    }
+
+                    const entryPoint = resolveEntryPoint(event);
+                    if (!entryPoint) {
+                        console.error("Unsupported entry point:", getTag(event, 'entryPoint'));
+                        return;
+                    }
+
                     const parsedObj = parseWithBigInt(event.content);
                     console.log("parsed object: ", parsedObj);
 
+                    const key = replacementKey(entryPoint, parsedObj);
+                    const forwarded = forwardedOps.get(key);
+                    if (forwarded && !outbids(parsedObj, forwarded)) {
+                        console.log("Skipping UserOperation that doesn't outbid the one forwarded for", key);
+                        return;
+                    }
+
+                    // Reserved before sending, so copies of the event arriving from other relays meanwhile are skipped
+                    const reservation = {
+                        maxFeePerGas: BigInt(parsedObj.maxFeePerGas),
+                        maxPriorityFeePerGas: BigInt(parsedObj.maxPriorityFeePerGas),
+                        forwardedAt: Date.now(),
+                    };
+                    forwardedOps.set(key, reservation);
+
                     // // 1. Hash the PackedUserOperation struct
                     // const userOpHashInner = keccak256(
                     //     encodeAbiParameters(
@@ -148,12 +217,16 @@ async function subscribeToEvents() {
                         signature: parsedObj.signature
                     };
 
-                    // Add initCode and paymasterAndData only if they exist and are not empty
-                    if (parsedObj.initCode && parsedObj.initCode !== "0x") {
-                        cleanUserOp.initCode = parsedObj.initCode;
+                    // v0.7+ operations carry the unpacked factory and paymaster fields
+                    if (parsedObj.factory && parsedObj.factory !== "0x") {
+                        cleanUserOp.factory = parsedObj.factory;
+                        cleanUserOp.factoryData = parsedObj.factoryData;
                     }
-                    if (parsedObj.paymasterAndData && parsedObj.paymasterAndData !== "0x") {
-                        cleanUserOp.paymasterAndData = parsedObj.paymasterAndData;
+                    if (parsedObj.paymaster && parsedObj.paymaster !== "0x") {
+                        cleanUserOp.paymaster = parsedObj.paymaster;
+                        cleanUserOp.paymasterData = parsedObj.paymasterData;
+                        cleanUserOp.paymasterVerificationGasLimit = parsedObj.paymasterVerificationGasLimit;
+                        cleanUserOp.paymasterPostOpGasLimit = parsedObj.paymasterPostOpGasLimit;
                     }
 
                     // Convert BigInt values to hex strings
@@ -167,15 +240,29 @@ async function subscribeToEvents() {
                     console.log("Nonce value:", cleanUserOp.nonce);
                     console.log("Sender address:", cleanUserOp.sender);
 
-                    const txHash = await bundlerClient.request({
-                        method: 'eth_sendUserOperation',
-                        params: [
-                            cleanUserOp, // Clean UserOperation object
-                            "0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108"
-                        ],
-                    });
+                    let txHash;
+                    try {
+                        txHash = await bundlerClient.request({
+                            method: 'eth_sendUserOperation',
+                            params: [
+                                cleanUserOp, // Clean UserOperation object
+                                entryPoint
+                            ],
+                        });
+                    } catch (e) {
+                        // The bundler refused it, the previously forwarded operation is still the one to beat
+                        // unless a higher replacement took the reservation over meanwhile
+                        if (forwardedOps.get(key) === reservation) {
+                            if (forwarded) {
+                                forwardedOps.set(key, forwarded);
+                            } else {
+                                forwardedOps.delete(key);
+                            }
+                        }
+                        throw e;
+                    }
 
-                    console.log("Submitted user operation, txHash: ", txHash);
+                    console.log(forwarded ? "Replaced user operation, txHash: " : "Submitted user operation, txHash: ", txHash);
                 } catch (e) {
                     console.error("Error during tx sending", e);
                 }
@@ -188,6 +275,7 @@ async function subscribeToEvents() {
 
 async function main() {
     await subscribeToEvents();
+    setInterval(evictExpiredForwardedOps, 5 * 60 * 1000);
 
     //Expected hash: 0x7bf4db156a99559d5d4ba3cb865ab2bd217ec20b1b88759f440ecb83a8afed2f
     // const testObj = {